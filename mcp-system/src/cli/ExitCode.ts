@@ -0,0 +1,53 @@
+import { IMCPCommandResult } from '../interfaces/IMCPCommand';
+
+/**
+ * Process exit codes of the command line interface
+ */
+export enum ExitCode {
+  /** The command succeeded */
+  SUCCESS = 0,
+  /** The command failed while running */
+  RUNTIME = 1,
+  /** Unknown CLI option or subcommand, invalid configuration */
+  USAGE = 2,
+  /** Malformed command string or invalid parameters */
+  VALIDATION = 3,
+  /** Missing authentication, invalid credentials or insufficient permissions */
+  AUTH = 4,
+  /** Unknown module, command, user or other resource */
+  NOT_FOUND = 5,
+  /** The command's deadline passed */
+  TIMEOUT = 6,
+  /** The command was cancelled, e.g. with Ctrl+C */
+  CANCELLED = 7,
+  /** The caller is over a rate limit or quota */
+  RATE_LIMITED = 8,
+}
+
+/**
+ * Map a command result to the exit code of the process
+ * @param result Command result
+ */
+export function exitCodeForResult(result: IMCPCommandResult): ExitCode {
+  if (result.success) {
+    return ExitCode.SUCCESS;
+  }
+  
+  switch (result.status) {
+    case 'invalid':
+      return ExitCode.VALIDATION;
+    case 'unauthorized':
+    case 'forbidden':
+      return ExitCode.AUTH;
+    case 'not_found':
+      return ExitCode.NOT_FOUND;
+    case 'timeout':
+      return ExitCode.TIMEOUT;
+    case 'cancelled':
+      return ExitCode.CANCELLED;
+    case 'rate_limited':
+      return ExitCode.RATE_LIMITED;
+    default:
+      return ExitCode.RUNTIME;
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,709 @@
+import { Command, CommanderError, Option } from 'commander';
+import readline from 'readline';
+import { Writable } from 'stream';
+import { MCP } from '../core/MCP';
+import { joinArguments } from '../core/CommandParser';
+import { ConfigError, ConfigLayer, mergeConfig, parseConfigFlags } from '../core/ConfigLoader';
+import { IMCPCommandContext, IMCPCommandResult } from '../interfaces/IMCPCommand';
+import { MCPServer } from '../server/MCPServer';
+import { MCPRepl } from '../repl/MCPRepl';
+import { ApiKey, Grants, SecurityManager, User } from '../security/SecurityManager';
+import { isValidScope } from '../security/Scope';
+import { createCommandContext } from '../utils/context';
+import logger from '../utils/logger';
+import { ExitCode, exitCodeForResult } from './ExitCode';
+
+/**
+ * Options shared by every subcommand
+ */
+export interface MCPCliGlobalOptions {
+  /** Print results as JSON */
+  json?: boolean;
+  /** Path of the config file */
+  config?: string;
+  logLevel?: string;
+  /** Session token or API key the commands run with, MCP_TOKEN by default */
+  token?: string;
+  /** API key the commands run with, MCP_API_KEY by default */
+  apiKey?: string;
+  /** Config settings as `key=value`, e.g. `job-concurrency=2` */
+  set: string[];
+}
+
+/**
+ * Failure of a CLI subcommand, carrying the exit code of the process
+ */
+export class CliError extends Error {
+  public exitCode: ExitCode;
+  
+  /**
+   * Create a new CLI error
+   * @param message Error message
+   * @param exitCode Exit code of the process
+   */
+  constructor(message: string, exitCode: ExitCode) {
+    super(message);
+    this.name = 'CliError';
+    this.exitCode = exitCode;
+  }
+}
+
+/**
+ * Collect a repeatable option into an array
+ * @param value Option value
+ * @param previous Values of the earlier occurrences
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Check the roles and scopes given on the command line
+ * @param securityManager Security manager knowing the roles
+ * @param grants Roles and scopes
+ */
+function checkGrants(securityManager: SecurityManager, grants: Grants): void {
+  const unknownRole = grants.roles?.find((role) => !securityManager.getRole(role));
+  
+  if (unknownRole) {
+    throw new CliError(`Role ${unknownRole} not found`, ExitCode.NOT_FOUND);
+  }
+  
+  const invalidScope = grants.scopes?.find((scope) => !isValidScope(scope));
+  
+  if (invalidScope) {
+    throw new CliError(`Invalid scope ${invalidScope}, expected <resource>:<action>`, ExitCode.VALIDATION);
+  }
+}
+
+/**
+ * Describe a user without their password hash and API keys
+ * @param user User
+ */
+function describeUser(user: User): Record<string, any> {
+  return {
+    id: user.id,
+    username: user.username,
+    roles: user.roles,
+    scopes: user.scopes,
+    apiKeys: user.apiKeys?.length || 0,
+    createdAt: new Date(user.createdAt).toISOString(),
+    lastLogin: user.lastLogin ? new Date(user.lastLogin).toISOString() : undefined,
+  };
+}
+
+/**
+ * Describe an API key without its hash
+ * @param apiKey API key
+ */
+function describeApiKey(apiKey: ApiKey): Record<string, any> {
+  return {
+    prefix: apiKey.prefix,
+    name: apiKey.name,
+    roles: apiKey.roles,
+    createdAt: new Date(apiKey.createdAt).toISOString(),
+    lastUsedAt: apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toISOString() : undefined,
+  };
+}
+
+/**
+ * Command line interface of the MCP system
+ *
+ * Subcommands: `run <command...>`, `serve`, `repl` (the default), `user
+ * add/list/grant/revoke`, `apikey create/list/revoke`, `key list/rotate` and `modules`. The MCP starts when a
+ * subcommand needs it and shuts down when the subcommand is done.
+ */
+export class MCPCli {
+  private program: Command;
+  private mcp?: MCP;
+  private server?: MCPServer;
+  /** Aborted by stop(): cancels the running command, ends the server or shell */
+  private controller: AbortController = new AbortController();
+  private exitCode: ExitCode = ExitCode.SUCCESS;
+  
+  /**
+   * Create a new CLI
+   */
+  constructor() {
+    this.program = this.createProgram();
+  }
+  
+  /**
+   * Build the commander program
+   */
+  private createProgram(): Command {
+    const program = new Command('mcp')
+      .description('Model Context Protocol - execute commands, run the HTTP server or an interactive shell')
+      .option('--json', 'print results as JSON')
+      .option('-c, --config <path>', 'config file (YAML or JSON)')
+      .addOption(new Option('--log-level <level>', 'log level').choices(['error', 'warn', 'info', 'debug']))
+      .option('--token <token>', 'session token or API key to run commands with (default: $MCP_TOKEN)')
+      .option('--api-key <key>', 'API key to run commands with (default: $MCP_API_KEY)')
+      .option('--set <key=value>', 'config setting, e.g. --set job-concurrency=2 (repeatable)', collect, [])
+      .exitOverride()
+      .showHelpAfterError();
+    
+    program.addHelpText('after', `
+Exit codes:
+  0  success
+  1  runtime error
+  2  usage error
+  3  invalid command or parameters
+  4  authentication or permission error
+  5  module, command or resource not found
+  6  timeout
+  7  cancelled
+  8  rate limit or quota exceeded`);
+    
+    program
+      .command('run')
+      .description('execute a command or pipeline, e.g. mcp run fs.readFile path=README.md')
+      .argument('<command...>', 'command string')
+      .allowUnknownOption()
+      .action((args: string[]) => this.runCommand(args));
+    
+    program
+      .command('serve')
+      .description('run the HTTP server until the process is stopped')
+      .option('-p, --port <port>', 'port to listen on')
+      .option('--host <host>', 'host to listen on')
+      .option('--watch', 'reload modules when their files change')
+      .action((options: { port?: string; host?: string; watch?: boolean }) => this.serve(options));
+    
+    program
+      .command('repl', { isDefault: true })
+      .description('start the interactive shell (default)')
+      .allowExcessArguments(false)
+      .action(() => this.repl());
+    
+    const user = program.command('user').description('manage users');
+    
+    user
+      .command('add')
+      .description('create a user, asking for the password unless --password is given')
+      .argument('<username>', 'username')
+      .option('--password <password>', 'password')
+      .option('--role <role>', 'role, e.g. --role admin (repeatable)', collect, [])
+      .option('--scope <scope>', 'scope, e.g. --scope fs:read (repeatable)', collect, [])
+      .action((username: string, options: { password?: string; role: string[]; scope: string[] }) =>
+        this.addUser(username, options));
+    
+    user
+      .command('list')
+      .description('list users and their roles and scopes')
+      .action(() => this.listUsers());
+    
+    user
+      .command('grant')
+      .description('grant scopes and roles to a user')
+      .argument('<username>', 'username')
+      .argument('[scopes...]', 'scopes, e.g. fs:read terminal:*')
+      .option('--role <role>', 'role to assign (repeatable)', collect, [])
+      .action((username: string, scopes: string[], options: { role: string[] }) =>
+        this.grant(username, { roles: options.role, scopes }, false));
+    
+    user
+      .command('revoke')
+      .description('revoke scopes and roles of a user')
+      .argument('<username>', 'username')
+      .argument('[scopes...]', 'scopes granted directly')
+      .option('--role <role>', 'role to remove (repeatable)', collect, [])
+      .action((username: string, scopes: string[], options: { role: string[] }) =>
+        this.grant(username, { roles: options.role, scopes }, true));
+    
+    const apikey = program.command('apikey').description('manage API keys');
+    
+    apikey
+      .command('create')
+      .description('create an API key for a user')
+      .argument('<username>', 'username')
+      .option('--role <role>', 'restrict the key to a role, within the user\'s own scopes (repeatable)', collect, [])
+      .option('--name <name>', 'what the key is used for')
+      .action((username: string, options: { role: string[]; name?: string }) => this.createApiKey(username, options));
+    
+    apikey
+      .command('list')
+      .description('list the API keys of a user by prefix')
+      .argument('<username>', 'username')
+      .action((username: string) => this.listApiKeys(username));
+    
+    apikey
+      .command('revoke')
+      .description('revoke an API key')
+      .argument('<key>', 'API key, or its prefix as shown by apikey list')
+      .action((key: string) => this.revokeApiKey(key));
+    
+    const key = program.command('key').description('manage encryption keys');
+    
+    key
+      .command('list')
+      .description('list the encryption keys, newest first')
+      .action(() => this.listKeys());
+    
+    key
+      .command('rotate')
+      .description('create a new encryption key and re-encrypt the stored data with it')
+      .option('--prune', 'delete the retired keys once all data is re-encrypted')
+      .action((options: { prune?: boolean }) => this.rotateKey(options));
+    
+    program
+      .command('modules')
+      .description('list loaded modules and their commands')
+      .action(() => this.listModules());
+    
+    return program;
+  }
+  
+  /**
+   * Parse the arguments and run the subcommand
+   * @param args Command line arguments without the node and script paths
+   * @returns The exit code of the process
+   */
+  public async run(args: string[]): Promise<ExitCode> {
+    try {
+      await this.program.parseAsync(args, { from: 'user' });
+      return this.exitCode;
+    } catch (error) {
+      if (error instanceof CommanderError) {
+        // Help and version output exit with 0, parse errors are printed by commander
+        return error.exitCode === 0 ? ExitCode.SUCCESS : ExitCode.USAGE;
+      }
+      
+      if (error instanceof CliError) {
+        this.printError(error.message);
+        return error.exitCode;
+      }
+      
+      if (error instanceof ConfigError) {
+        this.printError(error.message);
+        return ExitCode.USAGE;
+      }
+      
+      logger.error('Error running command line', { error });
+      this.printError(error instanceof Error ? error.message : String(error));
+      return ExitCode.RUNTIME;
+    } finally {
+      await this.shutdown();
+    }
+  }
+  
+  /**
+   * Stop the running subcommand, e.g. on SIGINT
+   */
+  public stop(): void {
+    this.controller.abort();
+  }
+  
+  /**
+   * Whether stop() has been called
+   */
+  public isStopping(): boolean {
+    return this.controller.signal.aborted;
+  }
+  
+  /**
+   * Stop the server and the MCP, if started
+   */
+  private async shutdown(): Promise<void> {
+    if (this.server) {
+      await this.server.stop();
+      this.server = undefined;
+    }
+    
+    if (this.mcp) {
+      await this.mcp.shutdown();
+      this.mcp = undefined;
+    }
+  }
+  
+  /**
+   * The options shared by every subcommand
+   */
+  private get options(): MCPCliGlobalOptions {
+    return this.program.opts<MCPCliGlobalOptions>();
+  }
+  
+  /**
+   * Create and initialize the MCP
+   * @param overrides Config settings of the subcommand, e.g. the server port
+   */
+  private async startMCP(overrides: ConfigLayer = {}): Promise<MCP> {
+    const { config, logLevel, set } = this.options;
+    
+    // --set key=value takes the same keys as the config flags of parseConfigFlags
+    const settings = set.map((setting) => {
+      if (!setting.includes('=')) {
+        throw new CliError(`Invalid setting ${setting}, expected key=value`, ExitCode.USAGE);
+      }
+      
+      return `--${setting}`;
+    });
+    const { flags } = parseConfigFlags(settings);
+    
+    // CLI settings override every other config layer
+    const mcp = new MCP(mergeConfig(flags, overrides));
+    this.mcp = mcp;
+    
+    const initialized = await mcp.initialize({
+      configPath: config,
+      logLevel: logLevel || process.env.LOG_LEVEL,
+      disableSecurity: process.env.DISABLE_SECURITY === 'true' ? true : undefined,
+    });
+    
+    if (!initialized) {
+      throw new CliError('Failed to initialize MCP system', ExitCode.RUNTIME);
+    }
+    
+    return mcp;
+  }
+  
+  /**
+   * Create the command context, authenticated with --token or --api-key if given
+   * @param mcp Initialized MCP
+   */
+  private async createContext(mcp: MCP): Promise<IMCPCommandContext> {
+    const token = this.options.token || process.env.MCP_TOKEN;
+    const apiKey = this.options.apiKey || process.env.MCP_API_KEY;
+    
+    if ((!token && !apiKey) || !mcp.getSecurityManager()) {
+      return createCommandContext({ signal: this.controller.signal });
+    }
+    
+    const auth = token ? await mcp.authenticateToken(token) : await mcp.authenticateApiKey(apiKey!);
+    
+    if (!auth.success) {
+      throw new CliError(auth.error || 'Invalid credentials', ExitCode.AUTH);
+    }
+    
+    return createCommandContext({
+      signal: this.controller.signal,
+      userId: auth.userId,
+      isAuthenticated: true,
+      permissions: auth.scopes,
+      authToken: auth.token,
+      apiKey: auth.apiKey,
+    });
+  }
+  
+  /**
+   * The security manager, for subcommands that manage users
+   * @param mcp Initialized MCP
+   */
+  private requireSecurity(mcp: MCP): SecurityManager {
+    const securityManager = mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      throw new CliError('Security is disabled', ExitCode.USAGE);
+    }
+    
+    return securityManager;
+  }
+  
+  /**
+   * Handle `mcp run <command...>`
+   * @param args Command arguments, joined into a command string
+   */
+  private async runCommand(args: string[]): Promise<void> {
+    const mcp = await this.startMCP();
+    const context = await this.createContext(mcp);
+    const commandString = joinArguments(args);
+    
+    logger.info(`Executing command: ${commandString}`);
+    
+    const result = await mcp.executeCommand(commandString, context);
+    this.printResult(result);
+    this.exitCode = exitCodeForResult(result);
+  }
+  
+  /**
+   * Handle `mcp serve`, running until stop() is called
+   * @param options Server options
+   */
+  private async serve(options: { port?: string; host?: string; watch?: boolean }): Promise<void> {
+    const mcp = await this.startMCP({
+      port: options.port,
+      host: options.host,
+      watchModules: options.watch,
+    });
+    
+    this.server = new MCPServer(mcp, {
+      port: mcp.config.port,
+      host: mcp.config.host,
+    });
+    
+    await this.server.start();
+    
+    const signal = this.controller.signal;
+    
+    if (!signal.aborted) {
+      await new Promise((resolve) => signal.addEventListener('abort', resolve, { once: true }));
+    }
+  }
+  
+  /**
+   * Handle `mcp repl`, running the interactive shell until the user leaves it
+   */
+  private async repl(): Promise<void> {
+    const mcp = await this.startMCP();
+    const repl = new MCPRepl(mcp, await this.createContext(mcp));
+    const onStop = () => repl.close();
+    
+    this.controller.signal.addEventListener('abort', onStop, { once: true });
+    
+    try {
+      await repl.start();
+    } finally {
+      this.controller.signal.removeEventListener('abort', onStop);
+    }
+  }
+  
+  /**
+   * Handle `mcp user add <username>`
+   * @param username Username
+   * @param options Password, roles and scopes
+   */
+  private async addUser(username: string, options: { password?: string; role: string[]; scope: string[] }): Promise<void> {
+    const grants: Grants = { roles: options.role, scopes: options.scope };
+    const securityManager = this.requireSecurity(await this.startMCP());
+    
+    checkGrants(securityManager, grants);
+    
+    if (securityManager.findUser(username)) {
+      throw new CliError(`User ${username} already exists`, ExitCode.VALIDATION);
+    }
+    
+    const password = options.password ?? await this.readPassword();
+    
+    if (!password) {
+      throw new CliError('Password must not be empty', ExitCode.VALIDATION);
+    }
+    
+    const user = await securityManager.createUser(username, password, grants);
+    this.print(describeUser(user), `Created user ${user.username} (${user.id})`);
+  }
+  
+  /**
+   * Handle `mcp user list`
+   */
+  private async listUsers(): Promise<void> {
+    const securityManager = this.requireSecurity(await this.startMCP());
+    const users = securityManager.listUsers().map(describeUser);
+    
+    this.print(users, users.map((user) =>
+      `${user.username}\troles: ${user.roles.join(', ') || '-'}\tscopes: ${user.scopes.join(', ') || '-'}`
+    ).join('\n') || 'No users');
+  }
+  
+  /**
+   * Handle `mcp user grant` and `mcp user revoke`
+   * @param username Username
+   * @param grants Roles and scopes
+   * @param revoke Whether to revoke instead of grant
+   */
+  private async grant(username: string, grants: Grants, revoke: boolean): Promise<void> {
+    if (grants.roles!.length === 0 && grants.scopes!.length === 0) {
+      throw new CliError('Give at least one scope or --role', ExitCode.USAGE);
+    }
+    
+    const securityManager = this.requireSecurity(await this.startMCP());
+    
+    if (!revoke) {
+      checkGrants(securityManager, grants);
+    }
+    
+    const user = revoke
+      ? await securityManager.revoke(username, grants)
+      : await securityManager.grant(username, grants);
+    
+    if (!user) {
+      throw new CliError(`User ${username} not found`, ExitCode.NOT_FOUND);
+    }
+    
+    const names = [...grants.roles!.map((role) => `role ${role}`), ...grants.scopes!];
+    this.print(describeUser(user), revoke
+      ? `Revoked ${names.join(', ')} from ${username}`
+      : `Granted ${names.join(', ')} to ${username}`);
+  }
+  
+  /**
+   * Handle `mcp apikey create <username>`
+   * @param username Username
+   * @param options Roles to restrict the key to, none for all of the user's scopes, and its name
+   */
+  private async createApiKey(username: string, options: { role: string[]; name?: string }): Promise<void> {
+    const securityManager = this.requireSecurity(await this.startMCP());
+    
+    checkGrants(securityManager, { roles: options.role });
+    
+    const created = await securityManager.createApiKey(username, {
+      roles: options.role.length > 0 ? options.role : undefined,
+      name: options.name,
+    });
+    
+    if (!created) {
+      throw new CliError(`User ${username} not found`, ExitCode.NOT_FOUND);
+    }
+    
+    this.print({ username, apiKey: created.key, prefix: created.apiKey.prefix }, created.key);
+  }
+  
+  /**
+   * Handle `mcp apikey list <username>`
+   * @param username Username
+   */
+  private async listApiKeys(username: string): Promise<void> {
+    const securityManager = this.requireSecurity(await this.startMCP());
+    const apiKeys = securityManager.listApiKeys(username);
+    
+    if (!apiKeys) {
+      throw new CliError(`User ${username} not found`, ExitCode.NOT_FOUND);
+    }
+    
+    const described = apiKeys.map(describeApiKey);
+    
+    this.print(described, described.map((apiKey) =>
+      `${apiKey.prefix}...\t${apiKey.name || '-'}\troles: ${apiKey.roles?.join(', ') || 'all'}\tlast used: ${apiKey.lastUsedAt || 'never'}`
+    ).join('\n') || 'No API keys');
+  }
+  
+  /**
+   * Handle `mcp apikey revoke <key>`
+   * @param apiKey API key, or its prefix
+   */
+  private async revokeApiKey(apiKey: string): Promise<void> {
+    const securityManager = this.requireSecurity(await this.startMCP());
+    
+    if (!await securityManager.revokeApiKey(apiKey)) {
+      throw new CliError('API key not found', ExitCode.NOT_FOUND);
+    }
+    
+    this.print({ revoked: true }, 'API key revoked');
+  }
+  
+  /**
+   * Handle `mcp key list`
+   */
+  private async listKeys(): Promise<void> {
+    const mcp = await this.startMCP();
+    const keys = mcp.getEncryptionService()!.listKeys().map((key) => ({
+      ...key,
+      createdAt: new Date(key.createdAt).toISOString(),
+      retiredAt: key.retiredAt ? new Date(key.retiredAt).toISOString() : undefined,
+    }));
+    
+    this.print(keys, keys.map((key) =>
+      `${key.id}${key.active ? ' (active)' : ''}	${key.source}	created: ${key.createdAt}	retired: ${key.retiredAt || '-'}`
+    ).join('\n'));
+  }
+  
+  /**
+   * Handle `mcp key rotate`
+   * @param options Whether to delete the retired keys
+   */
+  private async rotateKey(options: { prune?: boolean }): Promise<void> {
+    const mcp = await this.startMCP();
+    const rotation = await mcp.rotateEncryptionKey(options);
+    const failed = Object.entries(rotation.failed);
+    
+    const lines = [
+      `Rotated to key ${rotation.keyId}`,
+      ...Object.entries(rotation.reencrypted).map(([module, count]) => `${module}: re-encrypted ${count}`),
+      ...failed.map(([module, error]) => `${module}: failed, ${error}`),
+    ];
+    
+    if (rotation.pruned.length > 0) {
+      lines.push(`Deleted retired keys ${rotation.pruned.join(', ')}`);
+    } else if (options.prune && failed.length > 0) {
+      lines.push('Kept the retired keys, as some data was not re-encrypted');
+    }
+    
+    this.print(rotation, lines.join('\n'));
+    
+    if (failed.length > 0) {
+      this.exitCode = ExitCode.RUNTIME;
+    }
+  }
+  
+  /**
+   * Handle `mcp modules`
+   */
+  private async listModules(): Promise<void> {
+    const mcp = await this.startMCP();
+    const modules = Array.from(mcp.modules.values()).map((module) => ({
+      name: module.meta.name,
+      version: module.meta.version,
+      description: module.meta.description,
+      commands: Array.from(module.commands.keys()),
+    }));
+    
+    this.print(modules, modules.map((module) =>
+      `${module.name}@${module.version}\t${module.description}\n  ${module.commands.join(', ')}`
+    ).join('\n'));
+  }
+  
+  /**
+   * Read a password from stdin, without echo on a terminal
+   */
+  private async readPassword(): Promise<string> {
+    const input = process.stdin;
+    
+    // Typed characters are written to the output, which discards them
+    const output = new Writable({ write: (chunk, encoding, callback) => callback() });
+    const rl = readline.createInterface({ input, output, terminal: Boolean(input.isTTY) });
+    
+    if (input.isTTY) {
+      process.stderr.write('Password: ');
+    }
+    
+    try {
+      for await (const line of rl) {
+        return line;
+      }
+      
+      return '';
+    } finally {
+      rl.close();
+      
+      if (input.isTTY) {
+        process.stderr.write('\n');
+      }
+    }
+  }
+  
+  /**
+   * Print the result of `mcp run`
+   * @param result Command result
+   */
+  private printResult(result: IMCPCommandResult): void {
+    if (this.options.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else if (!result.success) {
+      this.printError(result.error || 'Command failed');
+    } else if (typeof result.data === 'string') {
+      console.log(result.data);
+    } else if (result.data !== undefined) {
+      console.log(JSON.stringify(result.data, null, 2));
+    }
+  }
+  
+  /**
+   * Print the output of a subcommand
+   * @param data Output printed with --json
+   * @param text Output printed otherwise
+   */
+  private print(data: any, text: string): void {
+    console.log(this.options.json ? JSON.stringify(data, null, 2) : text);
+  }
+  
+  /**
+   * Print an error message
+   * @param message Error message
+   */
+  private printError(message: string): void {
+    if (this.options.json) {
+      console.log(JSON.stringify({ success: false, error: message, timestamp: Date.now() }, null, 2));
+    } else {
+      console.error(`Error: ${message}`);
+    }
+  }
+} 
\ No newline at end of file
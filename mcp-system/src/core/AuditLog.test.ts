@@ -0,0 +1,89 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { AuditLog } from './AuditLog';
+
+describe('AuditLog', () => {
+  let directory: string;
+  let file: string;
+  let audit: AuditLog;
+  
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-audit-'));
+    file = path.join(directory, 'audit.log');
+    audit = new AuditLog({ file, resolveUsername: (userId) => (userId === 'u1' ? 'alice' : undefined) });
+    await audit.load();
+    
+    await audit.append({ userId: 'u1', command: 'fs.readFile', params: { path: 'a.txt' }, success: true, duration: 3 });
+    await audit.append({ command: 'auth.login', params: { password: 'secret' }, success: false, status: 'unauthorized', duration: 1 });
+    await audit.append({ userId: 'u1', command: 'ai.claude', params: {}, success: true, duration: 2 });
+  });
+  
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+  
+  /**
+   * Read the records of the log file as lines
+   */
+  async function readLines(): Promise<string[]> {
+    return (await fs.readFile(file, 'utf8')).trim().split('\n');
+  }
+  
+  it('chains the records and verifies them', async () => {
+    const records = await audit.query();
+    
+    expect(records.map((record) => record.seq)).toEqual([3, 2, 1]);
+    expect(records[2].prevHash).toBe('0'.repeat(64));
+    expect(records[1].prevHash).toBe(records[2].hash);
+    expect(records[2].username).toBe('alice');
+    expect(await fs.readFile(file, 'utf8')).not.toContain('secret');
+    expect(await audit.verify()).toEqual({ valid: true, records: 3, lastHash: records[0].hash });
+  });
+  
+  it('filters queries by user and command', async () => {
+    expect((await audit.query({ user: 'alice' })).map((record) => record.command)).toEqual(['ai.claude', 'fs.readFile']);
+    expect((await audit.query({ command: 'auth' })).map((record) => record.seq)).toEqual([2]);
+    expect((await audit.query({ limit: 1 })).map((record) => record.seq)).toEqual([3]);
+  });
+  
+  it('continues the chain after a restart', async () => {
+    const restarted = new AuditLog({ file, resolveUsername: () => undefined });
+    await restarted.load();
+    
+    expect((await restarted.append({ command: 'fs.list', params: {}, success: true, duration: 1 })).seq).toBe(4);
+    expect((await restarted.verify()).valid).toBe(true);
+  });
+  
+  it('detects a changed record', async () => {
+    const lines = await readLines();
+    lines[1] = JSON.stringify({ ...JSON.parse(lines[1]), success: true });
+    await fs.writeFile(file, `${lines.join('\n')}\n`);
+    
+    expect(await audit.verify()).toMatchObject({ valid: false, records: 1, brokenAt: 2, error: 'Hash does not match, the record was changed' });
+  });
+  
+  it('detects a record whose hash was replaced', async () => {
+    const lines = await readLines();
+    lines[0] = JSON.stringify({ ...JSON.parse(lines[0]), hash: 'f'.repeat(64) });
+    await fs.writeFile(file, `${lines.join('\n')}\n`);
+    
+    expect(await audit.verify()).toMatchObject({ valid: false, brokenAt: 1 });
+  });
+  
+  it('detects removed records, in the middle and at the end', async () => {
+    const lines = await readLines();
+    
+    await fs.writeFile(file, `${[lines[0], lines[2]].join('\n')}\n`);
+    expect(await audit.verify()).toMatchObject({ valid: false, brokenAt: 2, error: 'Expected record 2, found 3' });
+    
+    await fs.writeFile(file, `${lines.slice(0, 2).join('\n')}\n`);
+    expect(await audit.verify()).toMatchObject({ valid: false, records: 2, brokenAt: 3, error: 'Records 3 to 3 were removed from the end' });
+  });
+  
+  it('detects a malformed record', async () => {
+    await fs.appendFile(file, '{not json\n');
+    
+    expect(await audit.verify()).toMatchObject({ valid: false, records: 3, brokenAt: 4, error: 'Malformed record' });
+  });
+}); 
\ No newline at end of file
@@ -0,0 +1,319 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import readline from 'readline';
+import {
+  IMCPAuditEntry,
+  IMCPAuditLog,
+  IMCPAuditQuery,
+  IMCPAuditRecord,
+  IMCPAuditVerification,
+} from '../interfaces/IMCPAudit';
+import logger from '../utils/logger';
+import { redactSecrets } from '../utils/redact';
+
+/**
+ * Previous hash of the first record
+ */
+const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Number of records audit.query returns when no limit is given
+ */
+const DEFAULT_QUERY_LIMIT = 100;
+
+/**
+ * Audit log options
+ */
+export interface AuditLogOptions {
+  /** File the records are appended to, one JSON object per line */
+  file: string;
+  /** Look up the username of a user id, recorded next to it */
+  resolveUsername: (userId: string) => string | undefined;
+}
+
+/**
+ * Serialize a value as JSON with sorted object keys, so equal values hash the same
+ * @param value Value to serialize
+ */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    
+    return `{${entries.join(',')}}`;
+  }
+  
+  return JSON.stringify(value);
+}
+
+/**
+ * Compute the SHA-256 hash of a value's canonical JSON
+ * @param value Value to hash
+ */
+function sha256(value: any): string {
+  return crypto.createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+/**
+ * Compute the hash of a record, covering every field but the hash itself
+ * @param record Audit record
+ */
+function hashRecord(record: IMCPAuditRecord): string {
+  const { hash, ...fields } = record;
+  return sha256(fields);
+}
+
+/**
+ * Append-only, hash-chained log of command executions
+ *
+ * Records are appended to a JSON Lines file. Each record holds the hash of
+ * the one before it, so verify() detects records that were changed,
+ * inserted or removed; removing records from the end is only detected while
+ * the MCP that wrote them runs, or against a copy of the last hash.
+ */
+export class AuditLog implements IMCPAuditLog {
+  private options: AuditLogOptions;
+  private seq: number = 0;
+  private lastHash: string = GENESIS_HASH;
+  /** Size of the file after the last record this instance read or wrote */
+  private size: number = 0;
+  /** Pending appends, chained so records are written in order */
+  private writing: Promise<unknown> = Promise.resolve();
+  
+  /**
+   * Create a new audit log
+   * @param options Audit log options
+   */
+  constructor(options: AuditLogOptions) {
+    this.options = options;
+  }
+  
+  /**
+   * Continue the chain from the last record on disk
+   */
+  public async load(): Promise<void> {
+    let last: IMCPAuditRecord | undefined;
+    
+    this.size = await this.fileSize();
+    
+    for await (const line of this.readLines()) {
+      try {
+        last = JSON.parse(line);
+      } catch (error) {
+        // verify() reports the broken line, new records still chain onto the last good one
+        logger.warn(`Skipping malformed audit record in ${this.options.file}`);
+      }
+    }
+    
+    if (last) {
+      this.seq = last.seq;
+      this.lastHash = last.hash;
+    }
+  }
+  
+  /**
+   * Append a record for a command execution
+   * @param entry Command execution
+   */
+  public append(entry: IMCPAuditEntry): Promise<IMCPAuditRecord> {
+    const appended = this.writing.then(() => this.write(entry));
+    this.writing = appended.catch(() => undefined);
+    return appended;
+  }
+  
+  /**
+   * Find records, newest first
+   * @param query Filters
+   */
+  public async query(query: IMCPAuditQuery = {}): Promise<IMCPAuditRecord[]> {
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+    const matches: IMCPAuditRecord[] = [];
+    
+    await this.flush();
+    
+    for await (const line of this.readLines()) {
+      let record: IMCPAuditRecord;
+      
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        continue;
+      }
+      
+      if (this.matches(record, query)) {
+        matches.push(record);
+        
+        // Only the newest records are returned
+        if (matches.length > limit) {
+          matches.shift();
+        }
+      }
+    }
+    
+    return matches.reverse();
+  }
+  
+  /**
+   * Check that no record was changed, inserted or removed
+   */
+  public async verify(): Promise<IMCPAuditVerification> {
+    let records = 0;
+    let prevHash = GENESIS_HASH;
+    
+    await this.flush();
+    
+    const broken = (error: string): IMCPAuditVerification =>
+      ({ valid: false, records, lastHash: prevHash, brokenAt: records + 1, error });
+    
+    for await (const line of this.readLines()) {
+      let record: IMCPAuditRecord;
+      
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        return broken('Malformed record');
+      }
+      
+      if (record.seq !== records + 1) {
+        return broken(`Expected record ${records + 1}, found ${record.seq}`);
+      }
+      
+      if (record.prevHash !== prevHash) {
+        return broken('Previous hash does not match, a record before it was changed or removed');
+      }
+      
+      if (hashRecord(record) !== record.hash) {
+        return broken('Hash does not match, the record was changed');
+      }
+      
+      records++;
+      prevHash = record.hash;
+    }
+    
+    if (this.seq > records) {
+      return {
+        valid: false,
+        records,
+        lastHash: prevHash,
+        brokenAt: records + 1,
+        error: `Records ${records + 1} to ${this.seq} were removed from the end`,
+      };
+    }
+    
+    return { valid: true, records, lastHash: prevHash };
+  }
+  
+  /**
+   * Wait until the pending records are written
+   */
+  public async flush(): Promise<void> {
+    await this.writing;
+  }
+  
+  /**
+   * Write a record, continuing the chain
+   * @param entry Command execution
+   */
+  private async write(entry: IMCPAuditEntry): Promise<IMCPAuditRecord> {
+    const record: IMCPAuditRecord = {
+      seq: this.seq + 1,
+      timestamp: Date.now(),
+      userId: entry.userId,
+      username: entry.userId ? this.options.resolveUsername(entry.userId) : undefined,
+      sessionId: entry.sessionId,
+      command: entry.command,
+      // Redacted first, a hash of a password could be tested against guesses
+      paramsHash: sha256(redactSecrets(entry.params)),
+      success: entry.success,
+      status: entry.status,
+      error: entry.error,
+      duration: entry.duration,
+      prevHash: this.lastHash,
+      hash: '',
+    };
+    
+    // Another process on the same data directory, e.g. `mcp run` next to
+    // `mcp serve`, appended records; a file that shrank is left to verify()
+    if (await this.fileSize() > this.size) {
+      await this.load();
+      record.seq = this.seq + 1;
+      record.prevHash = this.lastHash;
+    }
+    
+    record.hash = hashRecord(record);
+    
+    const line = `${JSON.stringify(record)}\n`;
+    
+    await fs.ensureDir(path.dirname(this.options.file));
+    await fs.appendFile(this.options.file, line, { mode: 0o600 });
+    
+    this.size += Buffer.byteLength(line);
+    this.seq = record.seq;
+    this.lastHash = record.hash;
+    
+    return record;
+  }
+  
+  /**
+   * Check whether a record matches every filter of a query
+   * @param record Audit record
+   * @param query Filters
+   */
+  private matches(record: IMCPAuditRecord, query: IMCPAuditQuery): boolean {
+    if (query.user && record.userId !== query.user && record.username !== query.user) {
+      return false;
+    }
+    
+    if (query.command && record.command !== query.command && !record.command.startsWith(`${query.command}.`)) {
+      return false;
+    }
+    
+    if (query.since !== undefined && record.timestamp < query.since) {
+      return false;
+    }
+    
+    return query.until === undefined || record.timestamp <= query.until;
+  }
+  
+  /**
+   * Get the size of the log file, 0 if it does not exist yet
+   */
+  private async fileSize(): Promise<number> {
+    try {
+      return (await fs.stat(this.options.file)).size;
+    } catch (error) {
+      return 0;
+    }
+  }
+  
+  /**
+   * Read the non-empty lines of the log file
+   */
+  private async *readLines(): AsyncGenerator<string> {
+    if (!await fs.pathExists(this.options.file)) {
+      return;
+    }
+    
+    const rl = readline.createInterface({
+      input: fs.createReadStream(this.options.file),
+      crlfDelay: Infinity,
+    });
+    
+    try {
+      for await (const line of rl) {
+        if (line.trim()) {
+          yield line;
+        }
+      }
+    } finally {
+      rl.close();
+    }
+  }
+} 
\ No newline at end of file
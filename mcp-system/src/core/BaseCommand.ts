@@ -1,5 +1,8 @@
 import { IMCPCommand, IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../interfaces/IMCPCommand';
+import { IMCPStreamEvent } from '../interfaces/IMCPStream';
+import { CommandStream } from './CommandStream';
 import logger from '../utils/logger';
+import { createAbortedResult, createCommandSignal } from '../utils/cancellation';
 
 /**
  * Base implementation of an MCP command
@@ -17,6 +20,12 @@ export abstract class BaseCommand implements IMCPCommand {
   
   /**
    * Execute the command
+   *
+   * Validation, authorization, timing and logging are handled by the
+   * middleware chain before the command is reached. When the context's signal
+   * aborts or its deadline passes, the command answers right away with a
+   * `cancelled` or `timeout` status; onExecute receives a context whose signal
+   * covers both, to stop its own I/O.
    * @param params Command parameters
    * @param context Command execution context
    */
@@ -24,42 +33,62 @@ export abstract class BaseCommand implements IMCPCommand {
     params: IMCPCommandParams,
     context: IMCPCommandContext
   ): Promise<IMCPCommandResult> {
-    // Log command execution
-    logger.debug(`Executing command ${this.meta.name}`, {
-      params,
-      userId: context.userId,
-      sessionId: context.sessionId,
-    });
+    const signal = createCommandSignal(context);
+    
+    if (!signal) {
+      return this.run(params, context);
+    }
     
-    const startTime = Date.now();
+    const description = `Command ${this.meta.name}`;
+    
+    if (signal.aborted) {
+      return createAbortedResult(signal.reason, description);
+    }
+    
+    let onAbort: () => void = () => {};
+    const aborted = new Promise<IMCPCommandResult>((resolve) => {
+      onAbort = () => resolve(createAbortedResult(signal.reason, description));
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
     
     try {
-      // Validate parameters if the command has a validate method
-      if (this.validate && !this.validate(params)) {
-        return {
-          success: false,
-          error: `Invalid parameters for command ${this.meta.name}`,
-          timestamp: startTime,
-        };
-      }
+      const result = await Promise.race([this.run(params, { ...context, signal }), aborted]);
       
-      // Execute the command implementation
-      const result = await this.onExecute(params, context);
-      
-      // Log command result
-      logger.debug(`Command ${this.meta.name} executed successfully`, {
-        executionTime: Date.now() - startTime,
-        userId: context.userId,
-        sessionId: context.sessionId,
-      });
-      
-      return {
-        ...result,
-        timestamp: startTime,
-        executionTime: Date.now() - startTime,
-      };
+      // Commands that stop their I/O on abort usually fail with a generic error
+      return signal.aborted && !result.success ? createAbortedResult(signal.reason, description) : result;
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
+  
+  /**
+   * Execute the command, reading its output as it arrives
+   *
+   * Commands write chunks, progress and log lines to `context.stream`; the
+   * last event is the same result execute() returns.
+   * @param params Command parameters
+   * @param context Command execution context
+   */
+  public stream(params: IMCPCommandParams, context: IMCPCommandContext): AsyncIterable<IMCPStreamEvent> {
+    const stream = new CommandStream();
+    
+    this.execute(params, { ...context, stream }).then((result) => stream.end(result));
+    
+    return stream;
+  }
+  
+  /**
+   * Run onExecute, turning thrown errors into failed results
+   * @param params Command parameters
+   * @param context Command execution context
+   */
+  private async run(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    try {
+      return await this.onExecute(params, context);
     } catch (error) {
-      // Log command error
       logger.error(`Error executing command ${this.meta.name}`, {
         error,
         params,
@@ -70,8 +99,7 @@ export abstract class BaseCommand implements IMCPCommand {
       return {
         success: false,
         error: `Error executing command ${this.meta.name}: ${error instanceof Error ? error.message : String(error)}`,
-        timestamp: startTime,
-        executionTime: Date.now() - startTime,
+        timestamp: Date.now(),
       };
     }
   }
@@ -96,12 +124,18 @@ export abstract class BaseCommand implements IMCPCommand {
    * Get command help
    */
   public help(): string {
+    const parameters = (this.meta.parameters || [])
+      .map((parameter) => `  ${parameter.name} (${parameter.type}${parameter.required ? ', required' : ''}): ${parameter.description}`)
+      .join('\n');
+    
     return `
 Command: ${this.meta.name}
 Description: ${this.meta.description}
 Category: ${this.meta.category}
 Requires Authentication: ${this.meta.requiresAuth ? 'Yes' : 'No'}
 Required Permissions: ${this.meta.permissions?.join(', ') || 'None'}
+Parameters:
+${parameters || '  None'}
     `.trim();
   }
 } 
\ No newline at end of file
@@ -1,6 +1,12 @@
 import { IMCPCommand, IMCPCommandContext, IMCPCommandParams, IMCPCommandResult } from '../interfaces/IMCPCommand';
 import { IMCPModule, IMCPModuleMeta, IMCPModuleInitOptions } from '../interfaces/IMCPModule';
+import { IMCPEventBus } from '../interfaces/IMCPEventBus';
+import { IMCPModuleHealth, MCPHealthProbe } from '../interfaces/IMCPHealth';
+import { IMCPInvocation, IMCPMiddleware, IMCPMiddlewarePosition } from '../interfaces/IMCPMiddleware';
+import { v4 as uuidv4 } from 'uuid';
 import logger from '../utils/logger';
+import { MiddlewarePipeline } from './MiddlewarePipeline';
+import { runHealthChecks } from './HealthCheck';
 
 /**
  * Base implementation of an MCP module
@@ -9,6 +15,8 @@ export abstract class BaseModule implements IMCPModule {
   public meta: IMCPModuleMeta;
   public commands: Map<string, IMCPCommand> = new Map();
   protected initialized: boolean = false;
+  protected events?: IMCPEventBus;
+  protected pipeline: MiddlewarePipeline = new MiddlewarePipeline();
   
   /**
    * Create a new module
@@ -28,6 +36,8 @@ export abstract class BaseModule implements IMCPModule {
       return true;
     }
     
+    this.events = options?.events;
+    
     try {
       // Call the module-specific initialization
       const success = await this.onInitialize(options);
@@ -106,39 +116,54 @@ export abstract class BaseModule implements IMCPModule {
       return {
         success: false,
         error: `Command ${commandName} not found in module ${this.meta.name}`,
+        status: 'not_found',
         timestamp: Date.now(),
       };
     }
     
-    // Validate parameters if the command has a validate method
-    if (command.validate && !command.validate(params)) {
-      return {
-        success: false,
-        error: `Invalid parameters for command ${commandName}`,
-        timestamp: Date.now(),
-      };
-    }
+    const invocation: IMCPInvocation = {
+      executionId: uuidv4(),
+      moduleName: this.meta.name,
+      commandName,
+      module: this,
+      command,
+      params,
+      context,
+      state: {},
+    };
     
-    // Execute the command
-    const startTime = Date.now();
-    try {
-      const result = await command.execute(params, context);
-      const executionTime = Date.now() - startTime;
-      
-      // Add execution time to the result
-      return {
-        ...result,
-        executionTime,
-      };
-    } catch (error) {
-      logger.error(`Error executing command ${commandName}`, { error });
-      return {
-        success: false,
-        error: `Error executing command ${commandName}: ${error instanceof Error ? error.message : String(error)}`,
-        timestamp: Date.now(),
-        executionTime: Date.now() - startTime,
-      };
+    // Module middlewares run inside the MCP chain, closest to the command
+    return this.pipeline.run(invocation, () => command.execute(invocation.params, invocation.context));
+  }
+  
+  /**
+   * Add a middleware around the commands of this module
+   * @param middleware Middleware to add
+   * @param position Where to insert the middleware, appended (innermost) by default
+   */
+  public use(middleware: IMCPMiddleware, position?: IMCPMiddlewarePosition): void {
+    this.pipeline.use(middleware, position);
+    logger.debug(`Registered middleware ${middleware.name} in module ${this.meta.name}`);
+  }
+  
+  /**
+   * Check the module's health by running its health probes
+   */
+  public async healthCheck(): Promise<IMCPModuleHealth> {
+    if (!this.initialized) {
+      return runHealthChecks({
+        initialized: async () => ({ status: 'failed', reason: `Module ${this.meta.name} is not initialized` }),
+      });
     }
+    
+    return runHealthChecks(this.getHealthProbes());
+  }
+  
+  /**
+   * Module-specific health probes, by check name
+   */
+  protected getHealthProbes(): Record<string, MCPHealthProbe> {
+    return {};
   }
   
   /**
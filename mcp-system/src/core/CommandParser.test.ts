@@ -0,0 +1,109 @@
+import { CommandParseError, applyPositionals, joinArguments, parseCommand, parsePipeline } from './CommandParser';
+
+describe('parseCommand', () => {
+  it('splits the module from the command at the first dot', () => {
+    const parsed = parseCommand('auth.apiKey.create name=ci');
+    
+    expect(parsed.moduleName).toBe('auth');
+    expect(parsed.commandName).toBe('apiKey.create');
+    expect(parsed.params).toEqual({ name: 'ci' });
+  });
+  
+  it('types unquoted values and keeps quoted values as strings', () => {
+    const { params } = parseCommand('m.c count=3 force=true empty=null list=[1,2] quoted="3" single=\'true\'');
+    
+    expect(params).toEqual({
+      count: 3,
+      force: true,
+      empty: null,
+      list: [1, 2],
+      quoted: '3',
+      single: 'true',
+    });
+  });
+  
+  it('applies escapes in double quotes only', () => {
+    const { params } = parseCommand('m.c a="line\\nbreak \\"x\\"" b=\'raw\\n\' c=one\\ two');
+    
+    expect(params).toEqual({ a: 'line\nbreak "x"', b: 'raw\\n', c: 'one two' });
+  });
+  
+  it('reads JSON values verbatim, including spaces', () => {
+    const { params } = parseCommand('m.c vars:={"files": ["a b.txt"]} n:=5');
+    
+    expect(params).toEqual({ vars: { files: ['a b.txt'] }, n: 5 });
+  });
+  
+  it('collects repeated keys into an array', () => {
+    expect(parseCommand('m.c scope=fs:read scope=fs:write').params).toEqual({ scope: ['fs:read', 'fs:write'] });
+  });
+  
+  it('reports the column of invalid JSON', () => {
+    expect(() => parseCommand('m.c v:={bad}')).toThrow(CommandParseError);
+    expect(() => parseCommand('m.c v:={bad}')).toThrow(/at column \d+/);
+  });
+  
+  it('rejects unterminated quotes and pipes', () => {
+    expect(() => parseCommand('m.c a="open')).toThrow('Unterminated double quote at column 7');
+    expect(() => parseCommand('m.c | n.d')).toThrow('Unexpected "|" in a single command');
+  });
+});
+
+describe('parsePipeline', () => {
+  it('splits steps at unquoted pipes', () => {
+    const steps = parsePipeline('fs.read path=a.txt | ai.claude prompt=$.content text="a | b"');
+    
+    expect(steps.map((step) => `${step.moduleName}.${step.commandName}`)).toEqual(['fs.read', 'ai.claude']);
+    expect(steps[1].params.prompt).toEqual({ expression: '$.content', segments: ['content'] });
+    expect(steps[1].params.text).toBe('a | b');
+  });
+  
+  it('ends an unbalanced JSON value at the pipe', () => {
+    const steps = parsePipeline('a.b v=[1,2 | c.d');
+    
+    expect(steps).toHaveLength(2);
+    expect(steps[0].params.v).toBe('[1,2');
+    expect(steps[1].moduleName).toBe('c');
+  });
+  
+  it('keeps pipes inside JSON strings', () => {
+    expect(parsePipeline('a.b v:=["x|y"] | c.d')[0].params.v).toEqual(['x|y']);
+  });
+  
+  it('rejects path references in the first step and empty steps', () => {
+    expect(() => parsePipeline('a.b v=$.x')).toThrow(/without a previous pipeline step/);
+    expect(() => parsePipeline('a.b | | c.d')).toThrow('Expected a command before "|"');
+  });
+});
+
+describe('applyPositionals', () => {
+  const meta = {
+    name: 'read',
+    description: 'Read a file',
+    parameters: [
+      { name: 'path', description: 'Path', type: 'path' as const, required: true },
+      { name: 'encoding', description: 'Encoding', type: 'string' as const, required: false },
+    ],
+  };
+  
+  it('fills the declared parameters not given by name, in order', () => {
+    expect(applyPositionals(parseCommand('fs.read encoding=utf8 notes.txt'), meta)).toEqual({
+      path: 'notes.txt',
+      encoding: 'utf8',
+    });
+  });
+  
+  it('rejects surplus positionals', () => {
+    expect(() => applyPositionals(parseCommand('fs.read a b c'), meta)).toThrow(/Unexpected positional argument/);
+  });
+});
+
+describe('joinArguments', () => {
+  it('quotes arguments so they parse back unchanged', () => {
+    const command = joinArguments(['m.c', 'msg=hello world', 'say "hi"', 'n:=[1, 2]']);
+    const parsed = parseCommand(command);
+    
+    expect(parsed.params).toEqual({ msg: 'hello world', n: [1, 2] });
+    expect(parsed.positionals.map((positional) => positional.value)).toEqual(['say "hi"']);
+  });
+}); 
\ No newline at end of file
@@ -0,0 +1,516 @@
+import { IMCPCommandMeta, IMCPCommandParams } from '../interfaces/IMCPCommand';
+import { PathExpressionError, PathReference, isPathExpression, parsePathExpression } from './PathExpression';
+
+/**
+ * Error raised when a command string cannot be parsed
+ */
+export class CommandParseError extends Error {
+  /**
+   * 1-based column where parsing failed
+   */
+  public column: number;
+  
+  /**
+   * Create a new parse error
+   * @param message Error message
+   * @param column 1-based column where parsing failed
+   */
+  constructor(message: string, column: number) {
+    super(`${message} at column ${column}`);
+    this.name = 'CommandParseError';
+    this.column = column;
+  }
+}
+
+/**
+ * A single positional argument
+ */
+export interface PositionalArgument {
+  value: any;
+  column: number;
+}
+
+/**
+ * Result of parsing a command string
+ */
+export interface ParsedCommand {
+  moduleName: string;
+  commandName: string;
+  params: IMCPCommandParams;
+  positionals: PositionalArgument[];
+}
+
+/**
+ * A whitespace-separated word of the command string
+ */
+interface Token {
+  text: string;
+  column: number;
+  /** Offset into text of the first unquoted '=', or -1 */
+  assignIndex: number;
+  /** Whether the assignment was written as ':=' */
+  json: boolean;
+  /** Column where the value starts */
+  valueColumn: number;
+  /** Whether any part of the value was quoted or escaped */
+  quoted: boolean;
+  /** Whether this is an unquoted `|` separating pipeline steps */
+  pipe: boolean;
+}
+
+/**
+ * Escape sequences recognized inside double quotes
+ */
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '"': '"',
+  '\\': '\\',
+  $: '$',
+};
+
+/**
+ * Parameter names accepted on the left-hand side of an assignment
+ */
+const PARAM_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * Find the end of a raw JSON value starting at the given offset
+ *
+ * The value ends at the first whitespace outside of strings and brackets, or
+ * at a `|` outside of strings, which is never part of JSON, so an unbalanced
+ * bracket does not swallow the rest of a pipeline.
+ * @param input Command string
+ * @param start Offset of the first character of the value
+ */
+function scanJson(input: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  
+  while (i < input.length) {
+    const char = input[i];
+    
+    if (char === '"') {
+      const stringStart = i;
+      i++;
+      
+      while (i < input.length && input[i] !== '"') {
+        i += input[i] === '\\' ? 2 : 1;
+      }
+      
+      if (i >= input.length) {
+        throw new CommandParseError('Unterminated string in JSON value', stringStart + 1);
+      }
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+    } else if (char === '|') {
+      // Whitespace before the pipe separates it from the value
+      while (i > start && /\s/.test(input[i - 1])) {
+        i--;
+      }
+      
+      break;
+    } else if (/\s/.test(char) && depth <= 0) {
+      break;
+    }
+    
+    i++;
+  }
+  
+  return i;
+}
+
+/**
+ * Split a command string into tokens
+ *
+ * Handles single quotes (literal), double quotes (with backslash escapes)
+ * and backslash escapes outside of quotes. An unquoted `|` is a token of
+ * its own, separating pipeline steps.
+ * @param input Command string
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  
+  while (i < input.length) {
+    // Skip whitespace between tokens
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    
+    if (input[i] === '|') {
+      tokens.push({ text: '|', column: i + 1, assignIndex: -1, json: false, valueColumn: i + 1, quoted: false, pipe: true });
+      i++;
+      continue;
+    }
+    
+    const token: Token = {
+      text: '',
+      column: i + 1,
+      assignIndex: -1,
+      json: false,
+      valueColumn: i + 1,
+      quoted: false,
+      pipe: false,
+    };
+    
+    while (i < input.length && !/\s/.test(input[i]) && input[i] !== '|') {
+      const char = input[i];
+      
+      if (char === "'") {
+        const start = i;
+        i++;
+        
+        while (i < input.length && input[i] !== "'") {
+          token.text += input[i++];
+        }
+        
+        if (i >= input.length) {
+          throw new CommandParseError('Unterminated single quote', start + 1);
+        }
+        
+        i++;
+        token.quoted = true;
+      } else if (char === '"') {
+        const start = i;
+        i++;
+        
+        while (i < input.length && input[i] !== '"') {
+          if (input[i] === '\\') {
+            const next = input[i + 1];
+            
+            if (next === undefined) {
+              break;
+            }
+            
+            // Unknown escapes keep their backslash, like most shells
+            token.text += next in DOUBLE_QUOTE_ESCAPES ? DOUBLE_QUOTE_ESCAPES[next] : `\\${next}`;
+            i += 2;
+          } else {
+            token.text += input[i++];
+          }
+        }
+        
+        if (i >= input.length) {
+          throw new CommandParseError('Unterminated double quote', start + 1);
+        }
+        
+        i++;
+        token.quoted = true;
+      } else if (char === '\\') {
+        if (i + 1 >= input.length) {
+          throw new CommandParseError('Dangling escape character', i + 1);
+        }
+        
+        token.text += input[i + 1];
+        token.quoted = true;
+        i += 2;
+      } else if (char === '=' && token.assignIndex === -1) {
+        token.json = token.text.endsWith(':') && !token.quoted;
+        
+        if (token.json) {
+          token.text = token.text.slice(0, -1);
+        }
+        
+        token.assignIndex = token.text.length;
+        token.valueColumn = i + 2;
+        // Only quoting inside the value decides whether it is a literal string
+        token.quoted = false;
+        i++;
+        
+        // JSON is taken verbatim so its own quotes and spaces survive
+        if (input[i] === '{' || input[i] === '[' || (token.json && input[i] !== "'" && i < input.length)) {
+          const end = scanJson(input, i);
+          token.text += input.slice(i, end);
+          i = end;
+        }
+      } else {
+        token.text += char;
+        i++;
+      }
+    }
+    
+    tokens.push(token);
+  }
+  
+  return tokens;
+}
+
+/**
+ * Convert an unquoted value to its natural type
+ * @param value Raw value
+ */
+function coerceValue(value: string): any {
+  if (value.length === 0) {
+    return value;
+  }
+  
+  // Numbers, booleans, null, arrays and objects written inline
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Convert an unquoted value to a path reference, or to its natural type
+ * @param value Raw value
+ * @param column Column where the value starts
+ * @param allowReferences Whether there is a previous pipeline step to refer to
+ */
+function parseValue(value: string, column: number, allowReferences: boolean): any {
+  if (!isPathExpression(value)) {
+    return coerceValue(value);
+  }
+  
+  if (!allowReferences) {
+    throw new CommandParseError(`Path expression ${value} used without a previous pipeline step`, column);
+  }
+  
+  try {
+    return parsePathExpression(value);
+  } catch (error) {
+    if (error instanceof PathExpressionError) {
+      throw new CommandParseError(error.message, column);
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Add a parameter, collecting repeated keys into an array
+ * @param params Parameters being built
+ * @param key Parameter name
+ * @param value Parameter value
+ * @param repeated Keys that have already been collected into arrays
+ */
+function addParam(params: IMCPCommandParams, key: string, value: any, repeated: Set<string>): void {
+  if (!(key in params)) {
+    params[key] = value;
+    return;
+  }
+  
+  if (!repeated.has(key)) {
+    params[key] = [params[key]];
+    repeated.add(key);
+  }
+  
+  params[key].push(value);
+}
+
+/**
+ * Parse the tokens of a single command
+ * @param tokens Tokens of the command, without pipe tokens
+ * @param allowReferences Whether there is a previous pipeline step to refer to
+ */
+function parseTokens(tokens: Token[], allowReferences: boolean): ParsedCommand {
+  const [head, ...rest] = tokens;
+  
+  if (head.assignIndex !== -1) {
+    throw new CommandParseError('Expected module.command', head.column);
+  }
+  
+  // Command names may themselves contain dots, only the first one separates the module
+  const separator = head.text.indexOf('.');
+  const moduleName = separator === -1 ? '' : head.text.slice(0, separator);
+  const commandName = separator === -1 ? '' : head.text.slice(separator + 1);
+  
+  if (!moduleName || !commandName) {
+    throw new CommandParseError(
+      'Invalid command format. Expected format: module.command param1=value1 param2=value2',
+      head.column
+    );
+  }
+  
+  const params: IMCPCommandParams = {};
+  const positionals: PositionalArgument[] = [];
+  const repeated = new Set<string>();
+  
+  for (const token of rest) {
+    if (token.assignIndex === -1) {
+      positionals.push({
+        value: token.quoted ? token.text : parseValue(token.text, token.column, allowReferences),
+        column: token.column,
+      });
+      continue;
+    }
+    
+    const key = token.text.slice(0, token.assignIndex);
+    const rawValue = token.text.slice(token.assignIndex);
+    
+    if (!PARAM_NAME_PATTERN.test(key)) {
+      throw new CommandParseError(`Invalid parameter name "${key}"`, token.column);
+    }
+    
+    let value: any;
+    
+    if (token.json) {
+      try {
+        value = JSON.parse(rawValue);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // Point at the offending character when JSON.parse reports its position
+        const position = /position (\d+)/.exec(message);
+        
+        throw new CommandParseError(
+          `Invalid JSON for parameter "${key}"`,
+          token.valueColumn + (position ? parseInt(position[1], 10) : 0)
+        );
+      }
+    } else {
+      value = token.quoted ? rawValue : parseValue(rawValue, token.valueColumn, allowReferences);
+    }
+    
+    addParam(params, key, value, repeated);
+  }
+  
+  return { moduleName, commandName, params, positionals };
+}
+
+/**
+ * Parse a pipeline of commands separated by `|`
+ *
+ * Grammar: `module.command [key=value | key:=json | positional]... [| module.command ...]...`
+ * - Values may be single-quoted (literal) or double-quoted (backslash escapes)
+ * - Unquoted values are typed: `count=3` is a number, `force=true` a boolean
+ * - `key:=json` parses the value as JSON and fails if it is not valid JSON;
+ *   JSON values (and unquoted values starting with `{` or `[`) are read verbatim
+ * - Repeating a key collects its values into an array
+ * - Arguments without `=` are positional, see applyPositionals
+ * - From the second step on, unquoted values starting with `$` are path
+ *   references into the previous step's result data (see PathReference)
+ * @param input Command string
+ */
+export function parsePipeline(input: string): ParsedCommand[] {
+  const tokens = tokenize(input);
+  
+  if (tokens.length === 0) {
+    throw new CommandParseError('Empty command', 1);
+  }
+  
+  const steps: ParsedCommand[] = [];
+  let current: Token[] = [];
+  
+  for (const token of [...tokens, undefined]) {
+    if (token && !token.pipe) {
+      current.push(token);
+      continue;
+    }
+    
+    if (current.length === 0) {
+      throw new CommandParseError('Expected a command before "|"', token ? token.column : input.length + 1);
+    }
+    
+    steps.push(parseTokens(current, steps.length > 0));
+    current = [];
+  }
+  
+  return steps;
+}
+
+/**
+ * Parse a single command string
+ *
+ * Same grammar as parsePipeline, but without `|` and path references.
+ * @param input Command string
+ */
+export function parseCommand(input: string): ParsedCommand {
+  const tokens = tokenize(input);
+  
+  if (tokens.length === 0) {
+    throw new CommandParseError('Empty command', 1);
+  }
+  
+  const pipe = tokens.find((token) => token.pipe);
+  
+  if (pipe) {
+    throw new CommandParseError('Unexpected "|" in a single command', pipe.column);
+  }
+  
+  return parseTokens(tokens, false);
+}
+
+/**
+ * Map positional arguments onto the command's declared parameters, in order
+ * @param parsed Parsed command
+ * @param meta Metadata of the resolved command
+ */
+export function applyPositionals(parsed: ParsedCommand, meta: IMCPCommandMeta): IMCPCommandParams {
+  const params: IMCPCommandParams = { ...parsed.params };
+  
+  if (parsed.positionals.length === 0) {
+    return params;
+  }
+  
+  // Positionals fill the declared parameters that were not given by name
+  const available = (meta.parameters || []).filter((parameter) => !(parameter.name in params));
+  
+  parsed.positionals.forEach((positional, index) => {
+    const parameter = available[index];
+    
+    if (!parameter) {
+      throw new CommandParseError(
+        `Unexpected positional argument for command ${parsed.moduleName}.${parsed.commandName}`,
+        positional.column
+      );
+    }
+    
+    params[parameter.name] = positional.value;
+  });
+  
+  return params;
+}
+
+/**
+ * Quote a value so that it parses back as the same string
+ * @param value Value to quote
+ */
+function quoteValue(value: string): string {
+  if (value.length > 0 && !/[\s'"\\=|]/.test(value)) {
+    return value;
+  }
+  
+  return `"${value.replace(/["\\]/g, (char) => `\\${char}`)}"`;
+}
+
+/**
+ * Join already-split arguments (e.g. process.argv) into a command string
+ *
+ * The shell has already removed the user's quotes, so values containing
+ * whitespace or quotes are quoted again before parsing. A lone `|` argument
+ * separates pipeline steps and path expressions are kept as references.
+ * @param args Command arguments
+ */
+export function joinArguments(args: string[]): string {
+  return args
+    .map((arg, index) => {
+      // Command names, pipe separators and positional path references are kept as written
+      if (index === 0 || arg === '|' || args[index - 1] === '|' || isPathExpression(arg)) {
+        return arg;
+      }
+      
+      const separator = arg.indexOf('=');
+      const key = arg.slice(0, Math.max(separator, 0));
+      
+      // Anything that is not key=value, like a URL with a query string, is positional
+      if (separator === -1 || !PARAM_NAME_PATTERN.test(key.replace(/:$/, ''))) {
+        return quoteValue(arg);
+      }
+      
+      const value = arg.slice(separator + 1);
+      
+      // JSON values are read verbatim by the parser, path references are resolved later
+      if (key.endsWith(':') || isPathExpression(value)) {
+        return arg;
+      }
+      
+      return `${key}=${quoteValue(value)}`;
+    })
+    .join(' ');
+} 
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { IMCPCommandMeta, IMCPCommandParameter } from '../interfaces/IMCPCommand';
+import { IMCPModule } from '../interfaces/IMCPModule';
+
+/**
+ * JSON Schema dialect of the exported schemas
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * A JSON Schema document or subschema
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Convert a command parameter to a JSON Schema
+ * @param parameter Parameter metadata
+ */
+export function parameterToJsonSchema(parameter: IMCPCommandParameter): JsonSchema {
+  const schema: JsonSchema = { description: parameter.description };
+  
+  switch (parameter.type) {
+    case 'string':
+      Object.assign(schema, { type: 'string', minLength: parameter.min, maxLength: parameter.max, pattern: parameter.pattern });
+      break;
+    
+    case 'path':
+      // Relative paths are resolved against the caller's working directory
+      Object.assign(schema, { type: 'string', format: 'path', minLength: parameter.min ?? 1, maxLength: parameter.max, pattern: parameter.pattern });
+      break;
+    
+    case 'number':
+      Object.assign(schema, { type: 'number', minimum: parameter.min, maximum: parameter.max });
+      break;
+    
+    case 'boolean':
+      schema.type = 'boolean';
+      break;
+    
+    case 'array':
+      Object.assign(schema, { type: 'array', minItems: parameter.min, maxItems: parameter.max });
+      break;
+    
+    case 'object':
+      schema.type = 'object';
+      break;
+    
+    case 'enum':
+      schema.enum = parameter.values || [];
+      break;
+  }
+  
+  if (parameter.default !== undefined) {
+    schema.default = parameter.default;
+  }
+  
+  // Unset constraints are left out rather than exported as undefined
+  for (const key of Object.keys(schema)) {
+    if (schema[key] === undefined) {
+      delete schema[key];
+    }
+  }
+  
+  return schema;
+}
+
+/**
+ * Convert a command's metadata to a JSON Schema of its parameters
+ *
+ * The schema describes the `params` object of the command. Metadata without
+ * a JSON Schema equivalent is kept in the `x-mcp` extension keyword.
+ * @param moduleName Name of the module providing the command
+ * @param meta Command metadata
+ */
+export function commandToJsonSchema(moduleName: string, meta: IMCPCommandMeta): JsonSchema {
+  const parameters = meta.parameters || [];
+  
+  return {
+    title: `${moduleName}.${meta.name}`,
+    description: meta.description,
+    type: 'object',
+    properties: Object.fromEntries(parameters.map((parameter) => [parameter.name, parameterToJsonSchema(parameter)])),
+    required: parameters.filter((parameter) => parameter.required).map((parameter) => parameter.name),
+    'x-mcp': {
+      module: moduleName,
+      command: meta.name,
+      category: meta.category,
+      requiresAuth: meta.requiresAuth || false,
+      permissions: meta.permissions || [],
+    },
+  };
+}
+
+/**
+ * Export the command catalog as a JSON Schema document
+ *
+ * Every command's parameter schema is a definition under `$defs`, keyed by
+ * the full command name, e.g. `#/$defs/fs.readFile`.
+ * @param modules Modules whose commands to export
+ */
+export function catalogToJsonSchema(modules: Iterable<IMCPModule>): JsonSchema {
+  const definitions: Record<string, JsonSchema> = {};
+  
+  for (const module of modules) {
+    for (const command of module.commands.values()) {
+      definitions[`${module.meta.name}.${command.meta.name}`] = commandToJsonSchema(module.meta.name, command.meta);
+    }
+  }
+  
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: 'MCP command catalog',
+    description: 'Parameters of every MCP command, keyed by command name',
+    $defs: definitions,
+  };
+} 
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { IMCPCommandResult } from '../interfaces/IMCPCommand';
+import { IMCPCommandStream, IMCPStreamEvent } from '../interfaces/IMCPStream';
+
+/**
+ * Streaming channel of a command execution, readable as an async iterator
+ *
+ * Events written before the iterator reads them are buffered. Iteration ends
+ * after the `result` event written by end().
+ */
+export class CommandStream implements IMCPCommandStream, AsyncIterable<IMCPStreamEvent> {
+  private events: IMCPStreamEvent[] = [];
+  private wake?: () => void;
+  private ended: boolean = false;
+  
+  /**
+   * Send a piece of output
+   * @param data Output chunk
+   * @param channel Output channel, e.g. `stdout` or `stderr`
+   */
+  public chunk(data: any, channel?: string): void {
+    this.push({ type: 'chunk', data, channel });
+  }
+  
+  /**
+   * Report progress
+   * @param percent Completion percentage, 0-100
+   * @param message Optional description of the current stage
+   */
+  public progress(percent: number, message?: string): void {
+    this.push({ type: 'progress', percent: Math.max(0, Math.min(100, percent)), message });
+  }
+  
+  /**
+   * Send a log line
+   * @param message Log message
+   * @param level Log level
+   */
+  public log(message: string, level: string = 'info'): void {
+    this.push({ type: 'log', message, level });
+  }
+  
+  /**
+   * End the stream with the final command result
+   * @param result Command result
+   */
+  public end(result: IMCPCommandResult): void {
+    this.push({ type: 'result', result });
+    this.ended = true;
+  }
+  
+  /**
+   * Buffer an event and wake up a waiting reader
+   * @param event Stream event
+   */
+  private push(event: IMCPStreamEvent): void {
+    // Late writes, e.g. from a command that ignored its abort signal, are dropped
+    if (this.ended) {
+      return;
+    }
+    
+    this.events.push(event);
+    this.wake?.();
+    this.wake = undefined;
+  }
+  
+  /**
+   * Read the events as they arrive
+   */
+  public async *[Symbol.asyncIterator](): AsyncIterator<IMCPStreamEvent> {
+    while (true) {
+      const event = this.events.shift();
+      
+      if (!event) {
+        await new Promise<void>((resolve) => {
+          this.wake = resolve;
+        });
+        continue;
+      }
+      
+      yield event;
+      
+      if (event.type === 'result') {
+        return;
+      }
+    }
+  }
+} 
\ No newline at end of file
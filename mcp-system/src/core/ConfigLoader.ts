@@ -0,0 +1,437 @@
+import fs from 'fs-extra';
+import path from 'path';
+import yaml from 'js-yaml';
+import { IMCPConfig } from '../interfaces/IMCP';
+import { IMCPCommandParameter } from '../interfaces/IMCPCommand';
+import { createCommandContext } from '../utils/context';
+import logger from '../utils/logger';
+import { validateParameters } from './ParameterValidator';
+
+/**
+ * Config file names looked up in `<cwd>/config` when no config path is given
+ */
+export const CONFIG_FILE_NAMES = ['mcp.yaml', 'mcp.yml', 'mcp.json'];
+
+/**
+ * Prefix of the environment variables holding config values
+ */
+export const CONFIG_ENV_PREFIX = 'MCP_';
+
+/**
+ * Environment variable holding the config file path
+ */
+export const CONFIG_PATH_ENV = 'MCP_CONFIG';
+
+/**
+ * Environment variables holding the CLI's credentials, kept out of the config
+ */
+export const CREDENTIAL_ENVS = ['MCP_TOKEN', 'MCP_API_KEY'];
+
+/**
+ * A layer of config values, merged over the layers below it
+ */
+export type ConfigLayer = Record<string, any>;
+
+/**
+ * Error raised when the configuration cannot be read or is invalid
+ */
+export class ConfigError extends Error {
+  /**
+   * Create a new config error
+   * @param message Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Schema of the MCP configuration
+ *
+ * Values from the environment and CLI flags arrive as strings and are coerced
+ * to the declared types. Relative paths are resolved against `baseDirectory`.
+ */
+export const CONFIG_SCHEMA: IMCPCommandParameter[] = [
+  { name: 'baseDirectory', description: 'Directory relative paths are resolved against', type: 'path', required: true },
+  { name: 'configPath', description: 'Config file that was loaded', type: 'path', required: false },
+  {
+    name: 'logLevel',
+    description: 'Log level',
+    type: 'enum',
+    required: false,
+    default: 'info',
+    values: ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'],
+  },
+  { name: 'logDirectory', description: 'Directory holding the log files', type: 'path', required: true },
+  { name: 'configDirectory', description: 'Directory holding security settings and workflows', type: 'path', required: true },
+  { name: 'dataDirectory', description: 'Directory holding the data of the MCP and its modules', type: 'path', required: true },
+  { name: 'modulesDirectory', description: 'Directory holding the built-in modules', type: 'path', required: true },
+  { name: 'moduleDirectories', description: 'Extra directories searched for modules', type: 'array', required: false, default: [] },
+  { name: 'moduleOptions', description: 'Per-module options, keyed by module name', type: 'object', required: false, default: {} },
+  { name: 'pluginsDirectory', description: 'Directory searched for plugins', type: 'path', required: true },
+  { name: 'plugins', description: 'Extra plugins, as npm package names or paths', type: 'array', required: false, default: [] },
+  { name: 'pluginOptions', description: 'Per-plugin options, keyed by plugin name', type: 'object', required: false, default: {} },
+  { name: 'pluginPermissions', description: 'Permissions granted to each plugin', type: 'object', required: false, default: {} },
+  { name: 'pluginDataDirectory', description: 'Directory holding one data directory per plugin', type: 'path', required: true },
+  { name: 'jobsDirectory', description: 'Directory holding the asynchronous jobs', type: 'path', required: true },
+  { name: 'jobConcurrency', description: 'Maximum number of jobs running at the same time', type: 'number', required: false, default: 4, min: 1 },
+  {
+    name: 'jobRetention',
+    description: 'How long finished jobs are kept, in milliseconds',
+    type: 'number',
+    required: false,
+    default: 7 * 24 * 60 * 60 * 1000, // 7 days
+    min: 0,
+  },
+  { name: 'watchModules', description: 'Reload modules when their files change', type: 'boolean', required: false, default: false },
+  { name: 'securityEnabled', description: 'Check authentication and permissions', type: 'boolean', required: false, default: true },
+  { name: 'defaultPermissions', description: 'Scopes of new users', type: 'array', required: false, default: ['system:read'] },
+  {
+    name: 'encryptionPassphrase',
+    description: 'Passphrase the encryption keys are derived from, random keys are stored if omitted',
+    type: 'string',
+    required: false,
+  },
+  { name: 'rateLimits', description: 'Rate limits and quotas per command, module, user and API key', type: 'object', required: false, default: {} },
+  { name: 'port', description: 'HTTP server port', type: 'number', required: false, default: 3000, min: 1, max: 65535 },
+  { name: 'host', description: 'HTTP server host', type: 'string', required: false, default: 'localhost' },
+];
+
+/**
+ * Schema of a rate limit rule in the `rateLimits` section
+ */
+export const RATE_LIMIT_RULE_SCHEMA: IMCPCommandParameter[] = [
+  { name: 'perMinute', description: 'Requests per minute', type: 'number', required: false, min: 1 },
+  { name: 'burst', description: 'Requests allowed at once, default perMinute', type: 'number', required: false, min: 1 },
+  { name: 'perDay', description: 'Requests per UTC day', type: 'number', required: false, min: 0 },
+  { name: 'perMonth', description: 'Requests per UTC month', type: 'number', required: false, min: 0 },
+];
+
+/**
+ * Sections of `rateLimits` holding one rule per name
+ */
+const RATE_LIMIT_SECTIONS = ['commands', 'modules', 'users', 'apiKeys'];
+
+/**
+ * Config keys holding a list of paths
+ */
+const PATH_LIST_KEYS = ['moduleDirectories'];
+
+/**
+ * Config keys holding one object per module or plugin
+ */
+const SECTION_KEYS = ['moduleOptions', 'pluginOptions'];
+
+/**
+ * Check that a value is a plain object
+ * @param value Value to check
+ */
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge a config layer over another, recursing into objects
+ *
+ * Arrays and other values of the upper layer replace those of the lower one.
+ * @param lower Lower layer
+ * @param upper Upper layer
+ */
+export function mergeConfig(lower: ConfigLayer, upper: ConfigLayer): ConfigLayer {
+  const merged: ConfigLayer = { ...lower };
+  
+  for (const [key, value] of Object.entries(upper)) {
+    if (value === undefined) {
+      continue;
+    }
+    
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? mergeConfig(merged[key], value) : value;
+  }
+  
+  return merged;
+}
+
+/**
+ * Set a nested value in a config layer
+ * @param layer Config layer
+ * @param keys Path to the value
+ * @param value Value to set
+ */
+function setValue(layer: ConfigLayer, keys: string[], value: any): void {
+  let target = layer;
+  
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(target[key])) {
+      target[key] = {};
+    }
+    
+    target = target[key];
+  }
+  
+  target[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Convert a snake_case or kebab-case name to camelCase
+ * @param name Name to convert
+ */
+function toCamelCase(name: string): string {
+  return name.replace(/[-_]+([a-zA-Z0-9])/g, (match, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Resolve the relative paths of a config layer against a directory
+ * @param layer Config layer
+ * @param directory Directory to resolve against
+ */
+function resolveLayerPaths(layer: ConfigLayer, directory: string): ConfigLayer {
+  const resolved: ConfigLayer = { ...layer };
+  
+  for (const parameter of CONFIG_SCHEMA) {
+    if (parameter.type === 'path' && typeof resolved[parameter.name] === 'string') {
+      resolved[parameter.name] = path.resolve(directory, resolved[parameter.name]);
+    }
+  }
+  
+  for (const key of PATH_LIST_KEYS) {
+    if (Array.isArray(resolved[key])) {
+      resolved[key] = resolved[key].map((entry: any) => (typeof entry === 'string' ? path.resolve(directory, entry) : entry));
+    }
+  }
+  
+  return resolved;
+}
+
+/**
+ * Read a YAML or JSON config file
+ *
+ * Relative paths in the file are resolved against the file's directory.
+ * @param filePath Path to the config file
+ */
+export async function readConfigFile(filePath: string): Promise<ConfigLayer> {
+  let content: any;
+  
+  try {
+    const text = await fs.readFile(filePath, 'utf8');
+    content = ['.yaml', '.yml'].includes(path.extname(filePath).toLowerCase()) ? yaml.load(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot read config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  
+  // An empty YAML file is an empty layer
+  if (content === undefined || content === null) {
+    return {};
+  }
+  
+  if (!isPlainObject(content)) {
+    throw new ConfigError(`Config file ${filePath} must contain an object`);
+  }
+  
+  return resolveLayerPaths(content, path.dirname(filePath));
+}
+
+/**
+ * Find the config file in a directory
+ * @param directory Directory to look in
+ */
+export async function findConfigFile(directory: string): Promise<string | undefined> {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const filePath = path.join(directory, fileName);
+    
+    if (await fs.pathExists(filePath)) {
+      return filePath;
+    }
+  }
+  
+  return undefined;
+}
+
+/**
+ * Read the config layer from `MCP_*` environment variables
+ *
+ * Names are converted to camelCase and `__` separates nested keys, e.g.
+ * `MCP_JOB_CONCURRENCY=2` or `MCP_MODULE_OPTIONS__MEMORY__MEMORY_DIRECTORY=/data/memory`.
+ * @param env Environment variables
+ */
+export function parseEnvironment(env: Record<string, string | undefined>): ConfigLayer {
+  const layer: ConfigLayer = {};
+  
+  for (const [name, value] of Object.entries(env)) {
+    if (!name.startsWith(CONFIG_ENV_PREFIX) || name === CONFIG_PATH_ENV || CREDENTIAL_ENVS.includes(name) || value === undefined) {
+      continue;
+    }
+    
+    const keys = name
+      .slice(CONFIG_ENV_PREFIX.length)
+      .split('__')
+      .map((key) => toCamelCase(key.toLowerCase()));
+    
+    setValue(layer, keys, value);
+  }
+  
+  return layer;
+}
+
+/**
+ * Read the config layer from leading CLI flags
+ *
+ * Flags are `--name value` or `--name=value`, with kebab-case names and `.`
+ * separating nested keys, e.g. `--log-level debug` or
+ * `--module-options.memory.memory-directory=/data/memory`. Boolean settings
+ * may be given without a value. `--config <path>` names the config file.
+ * Parsing stops at the first argument that is not a flag.
+ * @param args Command line arguments
+ * @returns The flags layer, the config file path and the remaining arguments
+ */
+export function parseConfigFlags(args: string[]): { flags: ConfigLayer; configPath?: string; rest: string[] } {
+  const flags: ConfigLayer = {};
+  let configPath: string | undefined;
+  let index = 0;
+  
+  while (index < args.length && args[index].startsWith('--')) {
+    const arg = args[index++];
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+    const keys = name.split('.').map(toCamelCase);
+    const parameter = CONFIG_SCHEMA.find((candidate) => candidate.name === keys[0]);
+    
+    let value: string;
+    
+    if (separator !== -1) {
+      value = arg.slice(separator + 1);
+    } else if (parameter?.type === 'boolean' && keys.length === 1) {
+      value = 'true';
+    } else if (index < args.length) {
+      value = args[index++];
+    } else {
+      throw new ConfigError(`Flag --${name} requires a value`);
+    }
+    
+    if (name === 'config') {
+      configPath = value;
+    } else {
+      setValue(flags, keys, value);
+    }
+  }
+  
+  return { flags, configPath, rest: args.slice(index) };
+}
+
+/**
+ * Validate and coerce the rules of the `rateLimits` section in place
+ * @param rateLimits The `rateLimits` section
+ * @returns Error messages
+ */
+function validateRateLimits(rateLimits: ConfigLayer): string[] {
+  const errors: string[] = [];
+  const rules: [string, ConfigLayer, string][] = [];
+  
+  for (const key of Object.keys(rateLimits)) {
+    if (key === 'default') {
+      rules.push(['rateLimits.default', rateLimits, key]);
+    } else if (RATE_LIMIT_SECTIONS.includes(key) && isPlainObject(rateLimits[key])) {
+      Object.keys(rateLimits[key]).forEach((name) => rules.push([`rateLimits.${key}.${name}`, rateLimits[key], name]));
+    } else {
+      errors.push(`rateLimits.${key} must be default or an object of ${RATE_LIMIT_SECTIONS.join(', ')} rules`);
+    }
+  }
+  
+  for (const [field, parent, key] of rules) {
+    if (!isPlainObject(parent[key])) {
+      errors.push(`${field} must be an object`);
+      continue;
+    }
+    
+    const result = validateParameters(RATE_LIMIT_RULE_SCHEMA, parent[key]);
+    errors.push(...result.errors.map((error) => `${field}.${error.field} ${error.message}`));
+    parent[key] = result.params;
+  }
+  
+  return errors;
+}
+
+/**
+ * Merge config layers over the defaults and validate the result
+ *
+ * Directories that are not set derive from `baseDirectory` (default: the
+ * current directory): `config`, `logs` and `data`, with jobs and plugin data
+ * under the data directory.
+ * @param layers Config layers, lowest first
+ */
+export function buildConfig(layers: ConfigLayer[]): IMCPConfig {
+  const merged = layers.reduce(mergeConfig, {});
+  const baseDirectory = path.resolve(merged.baseDirectory || process.cwd());
+  const dataDirectory = path.resolve(baseDirectory, merged.dataDirectory || 'data');
+  
+  const config = mergeConfig({
+    configDirectory: 'config',
+    logDirectory: 'logs',
+    modulesDirectory: path.resolve(__dirname, '..', 'modules'),
+    pluginsDirectory: path.join('src', 'plugins'),
+    pluginDataDirectory: path.join(dataDirectory, 'plugins'),
+    jobsDirectory: path.join(dataDirectory, 'jobs'),
+  }, { ...merged, baseDirectory, dataDirectory });
+  
+  const unknown = Object.keys(config).filter((key) => !CONFIG_SCHEMA.some((parameter) => parameter.name === key));
+  
+  if (unknown.length > 0) {
+    logger.warn(`Ignoring unknown config settings: ${unknown.join(', ')}`);
+    unknown.forEach((key) => delete config[key]);
+  }
+  
+  const result = validateParameters(CONFIG_SCHEMA, config, createCommandContext({ workingDirectory: baseDirectory }));
+  const errors = result.errors.map((error) => `${error.field} ${error.message}`);
+  
+  for (const key of SECTION_KEYS) {
+    for (const [name, section] of Object.entries(result.params[key] || {})) {
+      if (!isPlainObject(section)) {
+        errors.push(`${key}.${name} must be an object`);
+      }
+    }
+  }
+  
+  errors.push(...validateRateLimits(result.params.rateLimits || {}));
+  
+  if (errors.length > 0) {
+    throw new ConfigError(`Invalid configuration: ${errors.join('; ')}`);
+  }
+  
+  return resolveLayerPaths(result.params, baseDirectory) as IMCPConfig;
+}
+
+/**
+ * Config loading options
+ */
+export interface ConfigLoadOptions {
+  /** Config file, looked up in `<cwd>/config` when not set */
+  configPath?: string;
+  /** Environment variables, defaults to the process environment */
+  env?: Record<string, string | undefined>;
+  /** Highest layer, e.g. from CLI flags */
+  overrides?: ConfigLayer;
+}
+
+/**
+ * Load the MCP configuration
+ *
+ * Layers, lowest first: defaults, the config file (YAML or JSON), `MCP_*`
+ * environment variables, then the overrides.
+ * @param options Config loading options
+ */
+export async function loadConfig(options: ConfigLoadOptions = {}): Promise<IMCPConfig> {
+  const env = options.env || process.env;
+  const configPath = options.configPath || env[CONFIG_PATH_ENV]
+    ? path.resolve(options.configPath || env[CONFIG_PATH_ENV]!)
+    : await findConfigFile(path.join(process.cwd(), 'config'));
+  
+  if (configPath && !await fs.pathExists(configPath)) {
+    throw new ConfigError(`Config file ${configPath} does not exist`);
+  }
+  
+  const file = configPath ? await readConfigFile(configPath) : {};
+  
+  return buildConfig([file, parseEnvironment(env), options.overrides || {}, { configPath }]);
+} 
\ No newline at end of file
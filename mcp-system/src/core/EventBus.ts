@@ -0,0 +1,113 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IMCPEvent, IMCPEventBus, MCPEventHandler } from '../interfaces/IMCPEventBus';
+import logger from '../utils/logger';
+
+/**
+ * A registered subscription
+ */
+interface Subscription {
+  pattern: string;
+  segments: string[];
+  handler: MCPEventHandler;
+}
+
+/**
+ * Check whether a topic matches a pattern
+ * @param patternSegments Pattern split on dots
+ * @param topicSegments Topic split on dots
+ */
+function matchSegments(patternSegments: string[], topicSegments: string[]): boolean {
+  if (patternSegments.length === 0) {
+    return topicSegments.length === 0;
+  }
+  
+  const [head, ...rest] = patternSegments;
+  
+  if (head === '**') {
+    // Match zero or more segments
+    for (let i = 0; i <= topicSegments.length; i++) {
+      if (matchSegments(rest, topicSegments.slice(i))) {
+        return true;
+      }
+    }
+    
+    return false;
+  }
+  
+  if (topicSegments.length === 0) {
+    return false;
+  }
+  
+  return (head === '*' || head === topicSegments[0]) && matchSegments(rest, topicSegments.slice(1));
+}
+
+/**
+ * In-process event bus with wildcard subscriptions
+ */
+export class EventBus implements IMCPEventBus {
+  private subscriptions: Set<Subscription> = new Set();
+  private pending: Set<Promise<void>> = new Set();
+  
+  /**
+   * Subscribe to events matching a topic pattern
+   * @param pattern Topic pattern
+   * @param handler Event handler
+   */
+  public subscribe(pattern: string, handler: MCPEventHandler): () => void {
+    const subscription: Subscription = { pattern, segments: pattern.split('.'), handler };
+    this.subscriptions.add(subscription);
+    
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+  
+  /**
+   * Emit an event to all matching subscribers
+   * @param topic Event topic
+   * @param payload Event payload
+   */
+  public emit(topic: string, payload: any): void {
+    const event: IMCPEvent = {
+      id: uuidv4(),
+      topic,
+      payload,
+      timestamp: Date.now(),
+    };
+    
+    const segments = topic.split('.');
+    
+    for (const subscription of this.subscriptions) {
+      if (matchSegments(subscription.segments, segments)) {
+        this.deliver(subscription, event);
+      }
+    }
+  }
+  
+  /**
+   * Deliver an event to one subscriber on a later tick
+   * @param subscription Subscription to deliver to
+   * @param event Event to deliver
+   */
+  private deliver(subscription: Subscription, event: IMCPEvent): void {
+    const delivery = new Promise<void>((resolve) => setImmediate(resolve))
+      .then(() => subscription.handler(event))
+      .catch((error) => {
+        logger.error(`Error handling event ${event.topic} in subscriber for ${subscription.pattern}`, { error });
+      })
+      .finally(() => {
+        this.pending.delete(delivery);
+      });
+    
+    this.pending.add(delivery);
+  }
+  
+  /**
+   * Wait until every event emitted so far has been delivered
+   */
+  public async drain(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,130 @@
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  IMCPHealthCheck,
+  IMCPHealthProbeResult,
+  IMCPModuleHealth,
+  MCPHealthProbe,
+  MCPHealthStatus,
+} from '../interfaces/IMCPHealth';
+
+/**
+ * Milliseconds a health probe may take before it counts as failed
+ */
+export const HEALTH_PROBE_TIMEOUT = 5000;
+
+/**
+ * Health statuses from best to worst
+ */
+const STATUS_ORDER: MCPHealthStatus[] = ['ok', 'degraded', 'failed'];
+
+/**
+ * Get the worst of several health statuses, `ok` if there are none
+ * @param statuses Health statuses
+ */
+export function worstStatus(statuses: MCPHealthStatus[]): MCPHealthStatus {
+  return statuses.reduce<MCPHealthStatus>(
+    (worst, status) => (STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(worst) ? status : worst),
+    'ok'
+  );
+}
+
+/**
+ * Run one health probe, timing it
+ *
+ * A probe that throws or takes longer than the timeout counts as failed.
+ * @param name Name of the check
+ * @param probe Health probe
+ * @param timeout Milliseconds the probe may take
+ */
+async function runHealthProbe(name: string, probe: MCPHealthProbe, timeout: number): Promise<IMCPHealthCheck> {
+  const startTime = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  
+  try {
+    const result = await Promise.race([
+      probe(),
+      new Promise<IMCPHealthProbeResult>((resolve) => {
+        timer = setTimeout(() => resolve({ status: 'failed', reason: `Timed out after ${timeout} ms` }), timeout);
+      }),
+    ]);
+    
+    return { name, ...result, duration: Date.now() - startTime };
+  } catch (error) {
+    return {
+      name,
+      status: 'failed',
+      reason: error instanceof Error ? error.message : String(error),
+      duration: Date.now() - startTime,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run named health probes in parallel
+ * @param probes Health probes by check name
+ * @param timeout Milliseconds each probe may take
+ * @returns The checks, with the worst status as the overall status
+ */
+export async function runHealthChecks(
+  probes: Record<string, MCPHealthProbe>,
+  timeout: number = HEALTH_PROBE_TIMEOUT
+): Promise<IMCPModuleHealth> {
+  const startTime = Date.now();
+  const checks = await Promise.all(
+    Object.entries(probes).map(([name, probe]) => runHealthProbe(name, probe, timeout))
+  );
+  
+  return {
+    status: worstStatus(checks.map((check) => check.status)),
+    checks,
+    duration: Date.now() - startTime,
+  };
+}
+
+/**
+ * Check that a directory exists and is writable
+ * @param directory Directory to check
+ */
+export async function checkDirectoryWritable(directory: string): Promise<IMCPHealthProbeResult> {
+  try {
+    const stats = await fs.stat(directory);
+    
+    if (!stats.isDirectory()) {
+      return { status: 'failed', reason: `${directory} is not a directory` };
+    }
+    
+    await fs.access(directory, fs.constants.W_OK);
+    return { status: 'ok', reason: `${directory} is writable` };
+  } catch (error: any) {
+    const reason = error.code === 'ENOENT' ? `${directory} does not exist` : `${directory} is not writable`;
+    return { status: 'failed', reason };
+  }
+}
+
+/**
+ * Find an executable by name in the PATH, or check a path to one
+ * @param name Executable name or path
+ * @returns The path of the executable, or undefined if not found
+ */
+export async function findExecutable(name: string): Promise<string | undefined> {
+  const candidates = name.includes(path.sep)
+    ? [path.resolve(name)]
+    : (process.env.PATH || '').split(path.delimiter).filter(Boolean).map((directory) => path.join(directory, name));
+  
+  for (const candidate of candidates) {
+    try {
+      await fs.access(candidate, fs.constants.X_OK);
+      
+      if ((await fs.stat(candidate)).isFile()) {
+        return candidate;
+      }
+    } catch {
+      // Not in this directory
+    }
+  }
+  
+  return undefined;
+} 
\ No newline at end of file
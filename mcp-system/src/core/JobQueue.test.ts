@@ -0,0 +1,183 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { IMCPCommandContext, IMCPCommandResult } from '../interfaces/IMCPCommand';
+import { IMCPJob } from '../interfaces/IMCPJob';
+import { createCommandContext } from '../utils/context';
+import { EventBus } from './EventBus';
+import { JobExecutor, JobQueue, JobQueueOptions } from './JobQueue';
+
+/**
+ * Executor whose runs finish when the test says so
+ */
+class ControlledExecutor {
+  public contexts: IMCPCommandContext[] = [];
+  private finishers: Array<(result: IMCPCommandResult) => void> = [];
+  
+  public execute: JobExecutor = (moduleName, commandName, params, context) => {
+    this.contexts.push(context);
+    
+    return new Promise((resolve) => {
+      this.finishers.push(resolve);
+      context.signal?.addEventListener('abort', () =>
+        resolve({ success: false, status: 'cancelled', error: 'aborted', timestamp: Date.now() })
+      );
+    });
+  };
+  
+  /**
+   * Finish the oldest unfinished run
+   * @param result Result of the run
+   */
+  public finishNext(result: IMCPCommandResult = { success: true, data: 'done', timestamp: Date.now() }): void {
+    this.finishers.shift()!(result);
+  }
+}
+
+/**
+ * Wait until a condition holds
+ * @param condition Condition to wait for
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  
+  expect(condition()).toBe(true);
+}
+
+describe('JobQueue', () => {
+  let directory: string;
+  let executor: ControlledExecutor;
+  let queue: JobQueue;
+  const context = createCommandContext({ userId: 'alice' });
+  
+  /**
+   * Create and start a job queue on the test directory
+   * @param options Options overriding the defaults
+   */
+  async function startQueue(options: Partial<JobQueueOptions> = {}): Promise<JobQueue> {
+    const started = new JobQueue({
+      directory,
+      concurrency: 1,
+      retention: 60000,
+      events: new EventBus(),
+      execute: executor.execute,
+      getSession: () => undefined,
+      authorize: () => ({ permissions: [], isAuthenticated: false }),
+      ...options,
+    });
+    
+    await started.start();
+    return started;
+  }
+  
+  /**
+   * Read the persisted file of a job
+   * @param job Job
+   */
+  function readJob(job: IMCPJob): Promise<IMCPJob> {
+    return fs.readJson(path.join(directory, `${job.id}.json`));
+  }
+  
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-jobs-'));
+    executor = new ControlledExecutor();
+    queue = await startQueue();
+  });
+  
+  afterEach(async () => {
+    queue.stop();
+    await fs.remove(directory);
+  });
+  
+  it('runs jobs one worker at a time and records their results', async () => {
+    const first = await queue.enqueue('fs', 'readFile', { path: 'a.txt' }, context);
+    const second = await queue.enqueue('fs', 'readFile', { path: 'b.txt' }, context);
+    
+    expect(first.status).toBe('queued');
+    await waitFor(() => executor.contexts.length === 1);
+    expect(queue.get(first.id)!.status).toBe('running');
+    expect(queue.get(second.id)!.status).toBe('queued');
+    
+    executor.finishNext();
+    await waitFor(() => executor.contexts.length === 2);
+    
+    expect(queue.get(first.id)).toMatchObject({ status: 'completed', result: { data: 'done' } });
+    expect(await readJob(first)).toMatchObject({ status: 'completed' });
+    
+    executor.finishNext();
+    await waitFor(() => queue.get(second.id)!.status === 'completed');
+  });
+  
+  it('cancels queued jobs before they start', async () => {
+    const running = await queue.enqueue('fs', 'readFile', {}, context);
+    const queued = await queue.enqueue('fs', 'readFile', {}, context);
+    
+    await queue.cancel(queued.id);
+    executor.finishNext();
+    await waitFor(() => queue.get(running.id)!.status === 'completed');
+    
+    expect(executor.contexts).toHaveLength(1);
+    expect(await readJob(queued)).toMatchObject({ status: 'cancelled' });
+    await expect(queue.cancel(queued.id)).rejects.toThrow('has already finished with status cancelled');
+  });
+  
+  it('aborts cancelled running jobs and keeps them cancelled on disk', async () => {
+    const job = await queue.enqueue('fs', 'readFile', {}, context);
+    await waitFor(() => executor.contexts.length === 1);
+    
+    await queue.cancel(job.id);
+    
+    expect(executor.contexts[0].signal!.aborted).toBe(true);
+    // Let the aborted run settle, it must not overwrite the cancellation
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(queue.get(job.id)!.status).toBe('cancelled');
+    expect(await readJob(job)).toMatchObject({ status: 'cancelled' });
+  });
+  
+  it('does not pass the caller signal or deadline to jobs', async () => {
+    const controller = new AbortController();
+    const job = await queue.enqueue('fs', 'readFile', {}, { ...context, signal: controller.signal, deadline: Date.now() + 10 });
+    await waitFor(() => executor.contexts.length === 1);
+    
+    controller.abort();
+    
+    expect(executor.contexts[0].deadline).toBeUndefined();
+    expect(executor.contexts[0].signal!.aborted).toBe(false);
+    executor.finishNext();
+    await waitFor(() => queue.get(job.id)!.status === 'completed');
+  });
+  
+  it('drops finished jobs from memory and disk once their retention passed', async () => {
+    queue.stop();
+    queue = await startQueue({ retention: 10 });
+    
+    const old = await queue.enqueue('fs', 'readFile', {}, context);
+    await waitFor(() => executor.contexts.length === 1);
+    executor.finishNext();
+    await waitFor(() => queue.get(old.id)!.status === 'completed');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    
+    const next = await queue.enqueue('fs', 'readFile', {}, context);
+    
+    expect(queue.get(old.id)).toBeUndefined();
+    expect(await fs.pathExists(path.join(directory, `${old.id}.json`))).toBe(false);
+    
+    await waitFor(() => executor.contexts.length === 2);
+    executor.finishNext();
+    await waitFor(() => queue.get(next.id)!.status === 'completed');
+  });
+  
+  it('fails jobs that were running when the queue restarts', async () => {
+    const job = await queue.enqueue('fs', 'readFile', {}, context);
+    await waitFor(() => executor.contexts.length === 1);
+    queue.stop();
+    
+    const restarted = await startQueue();
+    
+    expect(restarted.get(job.id)).toMatchObject({ status: 'failed', error: 'Job was interrupted by a restart' });
+    executor.finishNext();
+    await waitFor(() => queue.get(job.id)!.status === 'completed');
+  });
+}); 
\ No newline at end of file
@@ -0,0 +1,375 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { IMCPCommandContext, IMCPCommandParams, IMCPCommandResult } from '../interfaces/IMCPCommand';
+import { IMCPEventBus } from '../interfaces/IMCPEventBus';
+import { IMCPJob, IMCPJobQueue, IMCPJobSession, MCPJobStatus } from '../interfaces/IMCPJob';
+import logger from '../utils/logger';
+
+/**
+ * Error raised when a job cannot be found or changed
+ */
+export class JobError extends Error {
+  /**
+   * Create a new job error
+   * @param message Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+/**
+ * Executes the command of a job
+ */
+export type JobExecutor = (
+  moduleName: string,
+  commandName: string,
+  params: IMCPCommandParams,
+  context: IMCPCommandContext
+) => Promise<IMCPCommandResult>;
+
+/**
+ * Job queue options
+ */
+export interface JobQueueOptions {
+  /** Directory holding one JSON file per job */
+  directory: string;
+  /** Maximum number of jobs running at the same time */
+  concurrency: number;
+  /** How long finished jobs are kept, in milliseconds */
+  retention: number;
+  events: IMCPEventBus;
+  execute: JobExecutor;
+  /** Get the session of the caller queueing a job, undefined if they are not authenticated */
+  getSession: (context: IMCPCommandContext) => IMCPJobSession | undefined;
+  /** Resolve the security context of a job when it starts, throwing if its session was revoked */
+  authorize: (job: IMCPJob) => IMCPCommandContext['securityContext'];
+}
+
+/**
+ * Statuses of jobs that will not change anymore
+ */
+const FINISHED_STATUSES: MCPJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Persistent FIFO queue running commands on a bounded pool of workers
+ */
+export class JobQueue implements IMCPJobQueue {
+  private options: JobQueueOptions;
+  private jobs: Map<string, IMCPJob> = new Map();
+  private queue: string[] = [];
+  /** Abort controllers of the running jobs, keyed by job id */
+  private running: Map<string, AbortController> = new Map();
+  /** Pending saves per job id, chained so a job's file is written in order */
+  private saving: Map<string, Promise<void>> = new Map();
+  private started: boolean = false;
+  
+  /**
+   * Create a new job queue
+   * @param options Job queue options
+   */
+  constructor(options: JobQueueOptions) {
+    this.options = options;
+  }
+  
+  /**
+   * Load the persisted jobs and start running queued jobs
+   *
+   * Jobs that were running when the process stopped are marked as failed
+   * rather than run again, since their command may have had side effects.
+   */
+  public async start(): Promise<void> {
+    await fs.ensureDir(this.options.directory);
+    
+    const expiry = this.getExpiry();
+    
+    for (const entry of await fs.readdir(this.options.directory)) {
+      if (!entry.endsWith('.json')) {
+        continue;
+      }
+      
+      const jobPath = path.join(this.options.directory, entry);
+      let job: IMCPJob;
+      
+      try {
+        job = await fs.readJson(jobPath);
+      } catch (error) {
+        logger.warn(`Skipping unreadable job file ${jobPath}`, { error });
+        continue;
+      }
+      
+      if (FINISHED_STATUSES.includes(job.status) && (job.finishedAt || 0) < expiry) {
+        await fs.remove(jobPath);
+        continue;
+      }
+      
+      if (job.status === 'running') {
+        this.finish(job, 'failed', { error: 'Job was interrupted by a restart' });
+        await this.save(job);
+      }
+      
+      this.jobs.set(job.id, job);
+    }
+    
+    this.queue = Array.from(this.jobs.values())
+      .filter((job) => job.status === 'queued')
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((job) => job.id);
+    
+    this.started = true;
+    
+    logger.info(`Job queue started with ${this.queue.length} queued jobs`);
+    this.dispatch();
+  }
+  
+  /**
+   * Stop starting new jobs
+   *
+   * Running jobs are not interrupted, queued jobs stay on disk for the next start.
+   */
+  public stop(): void {
+    this.started = false;
+  }
+  
+  /**
+   * Queue a command for asynchronous execution
+   * @param moduleName Name of the module
+   * @param commandName Name of the command
+   * @param params Command parameters
+   * @param context Command execution context
+   */
+  public async enqueue(
+    moduleName: string,
+    commandName: string,
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPJob> {
+    const { environmentVars, securityContext, signal, deadline, stream, ...rest } = context;
+    
+    // Grants are resolved again when the job starts, only the session is kept
+    const job: IMCPJob = {
+      id: uuidv4(),
+      moduleName,
+      commandName,
+      params,
+      context: rest,
+      userId: context.userId,
+      session: this.options.getSession(context),
+      status: 'queued',
+      createdAt: Date.now(),
+    };
+    
+    await this.prune();
+    
+    this.jobs.set(job.id, job);
+    await this.save(job);
+    
+    this.queue.push(job.id);
+    this.emit('job.queued', job);
+    
+    // Answer with the job as queued, even if a free worker starts it right away
+    const queued = { ...job };
+    this.dispatch();
+    
+    return queued;
+  }
+  
+  /**
+   * Get a job by id
+   * @param jobId Id of the job
+   */
+  public get(jobId: string): IMCPJob | undefined {
+    return this.jobs.get(jobId);
+  }
+  
+  /**
+   * List jobs, most recent first
+   * @param status Only list jobs with this status
+   */
+  public list(status?: MCPJobStatus): IMCPJob[] {
+    return Array.from(this.jobs.values())
+      .filter((job) => !status || job.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+  
+  /**
+   * Cancel a queued or running job
+   *
+   * A running job is aborted through its context's signal.
+   * @param jobId Id of the job
+   */
+  public async cancel(jobId: string): Promise<IMCPJob> {
+    const job = this.jobs.get(jobId);
+    
+    if (!job) {
+      throw new JobError(`Job ${jobId} not found`);
+    }
+    
+    if (FINISHED_STATUSES.includes(job.status)) {
+      throw new JobError(`Job ${jobId} has already finished with status ${job.status}`);
+    }
+    
+    this.queue = this.queue.filter((id) => id !== jobId);
+    this.finish(job, 'cancelled', { error: 'Job was cancelled' });
+    this.running.get(jobId)?.abort();
+    await this.save(job);
+    
+    this.emit('job.cancelled', job);
+    
+    return job;
+  }
+  
+  /**
+   * Start queued jobs while there are free workers
+   */
+  private dispatch(): void {
+    while (this.started && this.running.size < this.options.concurrency && this.queue.length > 0) {
+      const job = this.jobs.get(this.queue.shift()!);
+      
+      if (job && job.status === 'queued') {
+        const controller = new AbortController();
+        this.running.set(job.id, controller);
+        
+        this.runJob(job, controller.signal)
+          .catch((error) => logger.error(`Error running job ${job.id}`, { error }))
+          .finally(() => {
+            this.running.delete(job.id);
+            this.dispatch();
+          });
+      }
+    }
+  }
+  
+  /**
+   * Run a job and record its result
+   * @param job Job to run
+   * @param signal Aborted when the job is cancelled
+   */
+  private async runJob(job: IMCPJob, signal: AbortSignal): Promise<void> {
+    job.status = 'running';
+    job.startedAt = Date.now();
+    await this.save(job);
+    this.emit('job.started', job);
+    
+    let result: IMCPCommandResult;
+    
+    try {
+      result = await this.options.execute(job.moduleName, job.commandName, job.params, {
+        ...job.context,
+        environmentVars: process.env as Record<string, string>,
+        securityContext: this.options.authorize(job),
+        signal,
+      });
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: Date.now(),
+      };
+    }
+    
+    // The job may have been cancelled while it was running
+    if (job.status !== 'running') {
+      return;
+    }
+    
+    this.finish(job, result.success ? 'completed' : 'failed', { result, error: result.error });
+    await this.save(job);
+    this.emit(result.success ? 'job.completed' : 'job.failed', job);
+  }
+  
+  /**
+   * Mark a job as finished
+   * @param job Job
+   * @param status Final status
+   * @param outcome Result and error of the job
+   */
+  private finish(job: IMCPJob, status: MCPJobStatus, outcome: Pick<IMCPJob, 'result' | 'error'>): void {
+    Object.assign(job, outcome, { status, finishedAt: Date.now() });
+  }
+  
+  /**
+   * Get the time before which finished jobs are expired
+   */
+  private getExpiry(): number {
+    return Date.now() - this.options.retention;
+  }
+  
+  /**
+   * Drop the finished jobs whose retention has passed, from memory and from disk
+   */
+  private async prune(): Promise<void> {
+    const expiry = this.getExpiry();
+    
+    for (const job of Array.from(this.jobs.values())) {
+      if (FINISHED_STATUSES.includes(job.status) && (job.finishedAt || 0) < expiry) {
+        this.jobs.delete(job.id);
+        
+        // Let a pending save finish first, so it does not write the file again
+        await this.saving.get(job.id)?.catch(() => undefined);
+        await fs.remove(this.getJobPath(job.id));
+      }
+    }
+  }
+  
+  /**
+   * Get the path of the file of a job
+   * @param jobId Id of the job
+   */
+  private getJobPath(jobId: string): string {
+    return path.join(this.options.directory, `${jobId}.json`);
+  }
+  
+  /**
+   * Persist a job
+   *
+   * Saves of the same job are chained, so a cancellation and the end of the
+   * run cannot interleave and leave the older state on disk.
+   * @param job Job to persist
+   */
+  private save(job: IMCPJob): Promise<void> {
+    const previous = this.saving.get(job.id) || Promise.resolve();
+    const saved = previous.catch(() => undefined).then(() => this.write(job));
+    
+    this.saving.set(job.id, saved);
+    saved
+      .finally(() => {
+        if (this.saving.get(job.id) === saved) {
+          this.saving.delete(job.id);
+        }
+      })
+      .catch(() => undefined);
+    
+    return saved;
+  }
+  
+  /**
+   * Write the current state of a job to its file
+   * @param job Job to write
+   */
+  private async write(job: IMCPJob): Promise<void> {
+    const jobPath = this.getJobPath(job.id);
+    
+    // Use atomic write so a crash never leaves a corrupt job file
+    const tempPath = `${jobPath}.tmp`;
+    await fs.writeJson(tempPath, job, { spaces: 2 });
+    await fs.move(tempPath, jobPath, { overwrite: true });
+  }
+  
+  /**
+   * Emit a job lifecycle event
+   * @param topic Event topic
+   * @param job Job the event is about
+   */
+  private emit(topic: 'job.queued' | 'job.started' | 'job.completed' | 'job.failed' | 'job.cancelled', job: IMCPJob): void {
+    this.options.events.emit(topic, {
+      jobId: job.id,
+      moduleName: job.moduleName,
+      commandName: job.commandName,
+      status: job.status,
+      userId: job.userId,
+    });
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,70 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { IMCPCommandContext } from '../interfaces/IMCPCommand';
+import { createCommandContext } from '../utils/context';
+import { MCP } from './MCP';
+
+describe('MCP pipelines', () => {
+  let directory: string;
+  let mcp: MCP;
+  let context: IMCPCommandContext;
+  
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-pipeline-'));
+    const configPath = path.join(directory, 'mcp.json');
+    
+    await fs.writeJson(configPath, {});
+    await fs.writeFile(path.join(directory, 'first.txt'), 'second.txt');
+    await fs.writeFile(path.join(directory, 'second.txt'), 'third.txt');
+    await fs.writeFile(path.join(directory, 'third.txt'), 'done');
+    
+    mcp = new MCP({ baseDirectory: directory, logLevel: 'error' });
+    await mcp.initialize({ configPath, disableSecurity: true });
+    context = createCommandContext({ workingDirectory: directory });
+  }, 60000);
+  
+  afterAll(async () => {
+    await mcp.shutdown();
+    await fs.remove(directory);
+  });
+  
+  it('passes the data of each step to the path references of the next', async () => {
+    const result = await mcp.executeCommand(
+      'fs.readFile first.txt | fs.readFile path=$.content | fs.readFile path=$.content',
+      context
+    );
+    
+    expect(result.success).toBe(true);
+    expect(result.data.content).toBe('done');
+    expect(result.steps!.map((step) => [step.command, step.success])).toEqual([
+      ['fs.readFile', true],
+      ['fs.readFile', true],
+      ['fs.readFile', true],
+    ]);
+  });
+  
+  it('stops at the first failing step', async () => {
+    const result = await mcp.executeCommand('fs.readFile missing.txt | fs.readFile path=$.content', context);
+    
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Pipeline step 1 \(fs\.readFile\) failed: /);
+    expect(result.steps).toHaveLength(1);
+  });
+  
+  it('fails a step whose path reference does not resolve', async () => {
+    const result = await mcp.executeCommand('fs.readFile first.txt | fs.readFile path=$.nothing', context);
+    
+    expect(result).toMatchObject({ success: false, status: 'invalid' });
+    expect(result.error).toBe('Pipeline step 2 (fs.readFile) failed: Path $.nothing does not exist');
+    expect(result.steps!.map((step) => step.success)).toEqual([true, false]);
+  });
+  
+  it('reports parse errors as invalid commands', async () => {
+    expect(await mcp.executeCommand('fs.readFile first.txt | | fs.readFile', context)).toMatchObject({
+      success: false,
+      status: 'invalid',
+      error: expect.stringMatching(/^Invalid command: /),
+    });
+  });
+}); 
\ No newline at end of file
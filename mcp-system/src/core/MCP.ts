@@ -1,24 +1,80 @@
 import fs from 'fs-extra';
 import path from 'path';
+import crypto from 'crypto';
 import { IMCP, IMCPConfig, IMCPInitOptions } from '../interfaces/IMCP';
-import { IMCPCommand, IMCPCommandContext, IMCPCommandParams, IMCPCommandResult } from '../interfaces/IMCPCommand';
+import {
+  IMCPCommand,
+  IMCPCommandContext,
+  IMCPCommandParams,
+  IMCPCommandResult,
+  IMCPPipelineStep,
+} from '../interfaces/IMCPCommand';
 import { IMCPModule, IMCPModuleInitOptions } from '../interfaces/IMCPModule';
 import { IMCPPlugin, IMCPPluginInitOptions } from '../interfaces/IMCPPlugin';
 import logger, { createLogger } from '../utils/logger';
-import { SecurityManager } from '../security/SecurityManager';
+import { AuthResult, SecurityManager } from '../security/SecurityManager';
+import { EncryptionService, KeyRotation } from '../security/EncryptionService';
+import { v4 as uuidv4 } from 'uuid';
+import { IMCPEventBus } from '../interfaces/IMCPEventBus';
+import { EventBus } from './EventBus';
+import { JobError, JobQueue } from './JobQueue';
+import { IMCPJob, IMCPJobSession } from '../interfaces/IMCPJob';
+import { IMCPInvocation, IMCPMiddleware, IMCPMiddlewarePosition } from '../interfaces/IMCPMiddleware';
+import { MiddlewarePipeline } from './MiddlewarePipeline';
+import { ConfigLayer, buildConfig, loadConfig, mergeConfig } from './ConfigLoader';
+import { CommandStream } from './CommandStream';
+import { IMCPStreamEvent } from '../interfaces/IMCPStream';
+import { IMCPHealthReport, IMCPModuleHealth } from '../interfaces/IMCPHealth';
+import { worstStatus } from './HealthCheck';
+import { MetricsRegistry } from './MetricsRegistry';
+import { RateLimiter } from './RateLimiter';
+import { AuditLog } from './AuditLog';
+import { AsyncMiddleware } from './middleware/AsyncMiddleware';
+import { AuditMiddleware } from './middleware/AuditMiddleware';
+import { AuthMiddleware } from './middleware/AuthMiddleware';
+import { EventMiddleware } from './middleware/EventMiddleware';
+import { MetricsMiddleware } from './middleware/MetricsMiddleware';
+import { RateLimitMiddleware } from './middleware/RateLimitMiddleware';
+import { TimingMiddleware } from './middleware/TimingMiddleware';
+import { ValidationMiddleware } from './middleware/ValidationMiddleware';
+import { CommandParseError, ParsedCommand, applyPositionals, parsePipeline } from './CommandParser';
+import { PathExpressionError, resolvePathReferences } from './PathExpression';
+import {
+  ModuleCandidate,
+  ModuleLoadError,
+  clearModuleCache,
+  discoverModulePaths,
+  instantiateModule,
+  sortByDependencies,
+} from './ModuleLoader';
+import { ModuleWatcher } from './ModuleWatcher';
+import {
+  PluginLoadError,
+  checkPluginCompatibility,
+  checkPluginPermissions,
+  discoverPluginPaths,
+  instantiatePlugin,
+  readPluginManifest,
+  resolvePluginPath,
+} from './PluginLoader';
 
 /**
- * Default MCP configuration
+ * MCP version, checked against the mcpVersion range of plugins
  */
-const DEFAULT_CONFIG: IMCPConfig = {
-  logLevel: 'info',
-  logDirectory: path.join(process.cwd(), 'logs'),
-  configDirectory: path.join(process.cwd(), 'config'),
-  modulesDirectory: path.join(process.cwd(), 'src', 'modules'),
-  pluginsDirectory: path.join(process.cwd(), 'src', 'plugins'),
-  securityEnabled: true,
-  defaultPermissions: ['system.read'],
-};
+export const MCP_VERSION = '1.0.0';
+
+/**
+ * Milliseconds without file changes before a watched module is reloaded
+ */
+const MODULE_RELOAD_DEBOUNCE = 300;
+
+/**
+ * Where a module was loaded from, kept to reload it
+ */
+interface ModuleSource {
+  path: string;
+  options?: IMCPModuleInitOptions;
+}
 
 /**
  * Main MCP system implementation
@@ -27,15 +83,121 @@ export class MCP implements IMCP {
   public modules: Map<string, IMCPModule> = new Map();
   public plugins: Map<string, IMCPPlugin> = new Map();
   public config: IMCPConfig;
+  public events: IMCPEventBus = new EventBus();
+  public jobs: JobQueue;
+  public metrics: MetricsRegistry = new MetricsRegistry();
+  public rateLimiter: RateLimiter;
+  public audit: AuditLog;
+  private pluginModules: Map<string, string[]> = new Map();
+  private pluginSubscriptions: Map<string, () => void> = new Map();
+  /** Sources of the modules loaded from a module directory, keyed by module name */
+  private moduleSources: Map<string, ModuleSource> = new Map();
+  /** Commands running on each module instance, awaited before a reloaded instance shuts down */
+  private activeCommands: Map<IMCPModule, Set<Promise<IMCPCommandResult>>> = new Map();
+  /** Previous instances of reloaded modules that are still shutting down */
+  private retiringModules: Set<Promise<void>> = new Set();
+  private watcher?: ModuleWatcher;
+  private pipeline: MiddlewarePipeline = new MiddlewarePipeline();
+  /** Config passed to the constructor, the highest config layer */
+  private overrides: Partial<IMCPConfig>;
   private securityManager?: SecurityManager;
+  private encryption?: EncryptionService;
   private initialized: boolean = false;
   
   /**
    * Create a new MCP instance
-   * @param config MCP configuration
+   *
+   * The configuration is completed by initialize(), which layers the config
+   * file and `MCP_*` environment variables below the given values.
+   * @param config MCP configuration, overriding every other config layer
    */
   constructor(config: Partial<IMCPConfig> = {}) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.overrides = config;
+    this.config = buildConfig([config]);
+    this.jobs = this.createJobQueue();
+    this.rateLimiter = this.createRateLimiter();
+    this.audit = this.createAuditLog();
+    
+    // Default middlewares, outermost first
+    this.pipeline.use(new TimingMiddleware());
+    this.pipeline.use(new MetricsMiddleware(this.metrics));
+    this.pipeline.use(new AuditMiddleware(() => this.audit));
+    this.pipeline.use(new EventMiddleware(this.events));
+    this.pipeline.use(new AuthMiddleware(() => this.getSecurityManager()));
+    this.pipeline.use(new ValidationMiddleware());
+    this.pipeline.use(new RateLimitMiddleware(() => this.rateLimiter));
+    this.pipeline.use(new AsyncMiddleware(() => this.jobs));
+    
+    this.metrics.registerGauge('mcp_modules_loaded', 'Loaded modules', [], () => this.modules.size);
+  }
+  
+  /**
+   * Create the job queue for the current configuration
+   */
+  private createJobQueue(): JobQueue {
+    return new JobQueue({
+      directory: this.config.jobsDirectory,
+      concurrency: this.config.jobConcurrency,
+      retention: this.config.jobRetention,
+      events: this.events,
+      // Jobs were counted against the rate limits when they were queued
+      execute: (moduleName, commandName, params, context) =>
+        this.executeCommandExplicit(moduleName, commandName, params, { ...context, rateLimitApplied: true }),
+      getSession: (context) => this.getJobSession(context),
+      authorize: (job) => this.authorizeJob(job),
+    });
+  }
+  
+  /**
+   * Get the session of the caller queueing a job
+   * @param context Command execution context of the caller
+   */
+  private getJobSession(context: IMCPCommandContext): IMCPJobSession | undefined {
+    const { authToken } = context.securityContext;
+    const validation = authToken ? this.getSecurityManager()?.validateToken(authToken) : undefined;
+    
+    return validation?.valid ? { sessionId: validation.sessionId!, apiKey: validation.apiKey } : undefined;
+  }
+  
+  /**
+   * Resolve the current grants of the session a job was queued in
+   * @param job Job that is starting
+   */
+  private authorizeJob(job: IMCPJob): IMCPCommandContext['securityContext'] {
+    const securityManager = this.getSecurityManager();
+    
+    if (!securityManager || !job.userId || !job.session) {
+      return { isAuthenticated: false, permissions: [] };
+    }
+    
+    const auth = securityManager.resumeSession(job.userId, job.session.sessionId, job.session.apiKey);
+    
+    if (!auth.success) {
+      throw new JobError(`Job cannot start: ${auth.error}`);
+    }
+    
+    return { isAuthenticated: true, permissions: auth.scopes || [], apiKey: job.session.apiKey };
+  }
+  
+  /**
+   * Create the rate limiter for the current configuration
+   */
+  private createRateLimiter(): RateLimiter {
+    return new RateLimiter({
+      file: path.join(this.config.dataDirectory, 'quotas.json'),
+      config: this.config.rateLimits,
+      resolveUsername: (userId) => this.securityManager?.getUser(userId)?.username,
+    });
+  }
+  
+  /**
+   * Create the audit log for the current configuration
+   */
+  private createAuditLog(): AuditLog {
+    return new AuditLog({
+      file: path.join(this.config.dataDirectory, 'audit.log'),
+      resolveUsername: (userId) => this.securityManager?.getUser(userId)?.username,
+    });
   }
   
   /**
@@ -49,14 +211,19 @@ export class MCP implements IMCP {
     }
     
     try {
-      // Override config with options
-      if (options.logLevel) {
-        this.config.logLevel = options.logLevel;
-      }
+      // Initialization options override the constructor config
+      const overrides: ConfigLayer = {
+        logLevel: options.logLevel,
+        securityEnabled: options.disableSecurity === undefined ? undefined : !options.disableSecurity,
+      };
       
-      if (options.disableSecurity !== undefined) {
-        this.config.securityEnabled = !options.disableSecurity;
-      }
+      this.config = await loadConfig({
+        configPath: options.configPath,
+        overrides: mergeConfig(this.overrides, overrides),
+      });
+      this.jobs = this.createJobQueue();
+      this.rateLimiter = this.createRateLimiter();
+      this.audit = this.createAuditLog();
       
       // Initialize logger
       const customLogger = createLogger({
@@ -69,10 +236,21 @@ export class MCP implements IMCP {
       
       logger.info('Initializing MCP system');
       
+      if (this.config.configPath) {
+        logger.info(`Loaded config from ${this.config.configPath}`);
+      }
+      
       // Ensure directories exist
       await fs.ensureDir(this.config.logDirectory);
       await fs.ensureDir(this.config.configDirectory);
       
+      // Encryption does not depend on security, modules encrypt data either way
+      this.encryption = new EncryptionService({
+        keyFile: path.join(this.config.configDirectory, 'keys.json'),
+        passphrase: this.config.encryptionPassphrase,
+      });
+      await this.encryption.load();
+      
       // Initialize security manager if security is enabled
       if (this.config.securityEnabled) {
         logger.info('Initializing security manager');
@@ -87,63 +265,329 @@ export class MCP implements IMCP {
           // Create default security config
           securityConfig = {
             usersFilePath: path.join(this.config.configDirectory, 'users.json'),
-            tokenSecret: Math.random().toString(36).substring(2, 15),
+            // Signs the session tokens, anyone knowing it can forge them
+            tokenSecret: crypto.randomBytes(32).toString('hex'),
             tokenExpiration: 86400, // 24 hours
-            encryptionKey: Math.random().toString(36).substring(2, 15),
+            refreshTokenExpiration: 2592000, // 30 days
           };
           
           // Save default security config
-          await fs.writeJSON(securityConfigPath, securityConfig, { spaces: 2 });
+          await fs.writeJSON(securityConfigPath, securityConfig, { spaces: 2, mode: 0o600 });
         }
         
         // Create security manager
-        this.securityManager = new SecurityManager(securityConfig);
-        await this.securityManager.initialize();
+        this.securityManager = new SecurityManager({
+          ...securityConfig,
+          defaultScopes: this.config.defaultPermissions,
+        });
+        
+        if (!await this.securityManager.initialize()) {
+          throw new Error('Failed to initialize security manager');
+        }
       }
       
-      // Load built-in modules
-      await this.loadBuiltInModules();
+      await this.rateLimiter.load();
+      await this.audit.load();
+      
+      // Load built-in modules and modules from the configured directories
+      await this.loadModules();
+      
+      // Load plugins
+      await this.loadPlugins();
       
       this.initialized = true;
+      
+      // Jobs run commands, so the queue starts once everything is loaded
+      await this.jobs.start();
+      
+      if (this.config.watchModules) {
+        this.watchModules();
+      }
+      
       logger.info('MCP system initialized successfully');
       
       return true;
     } catch (error) {
-      logger.error('Failed to initialize MCP system', { error });
+      logger.error(`Failed to initialize MCP system: ${error instanceof Error ? error.message : String(error)}`, { error });
       return false;
     }
   }
   
   /**
-   * Load built-in modules
+   * Authenticate a user, for callers that keep a session context
+   * @param username Username
+   * @param password Password
+   * @returns The user id and a token for the context's security context
    */
-  private async loadBuiltInModules(): Promise<void> {
-    logger.info('Loading built-in modules');
+  public async authenticate(username: string, password: string): Promise<AuthResult> {
+    if (!this.config.securityEnabled || !this.securityManager) {
+      return { success: false, error: 'Security is disabled' };
+    }
     
-    // Get all module directories
-    const modulesDirExists = await fs.pathExists(this.config.modulesDirectory);
-    if (!modulesDirExists) {
-      logger.warn(`Modules directory ${this.config.modulesDirectory} does not exist`);
-      return;
+    return this.securityManager.authenticate(username, password);
+  }
+  
+  /**
+   * Authenticate a caller holding a session token or an API key
+   * @param token Session token or API key
+   * @returns The user id and a session token for the context's security context
+   */
+  public async authenticateToken(token: string): Promise<AuthResult> {
+    if (!this.config.securityEnabled || !this.securityManager) {
+      return { success: false, error: 'Security is disabled' };
+    }
+    
+    const { valid, userId, scopes, apiKey, error } = this.securityManager.validateToken(token);
+    
+    if (valid) {
+      return { success: true, userId, token, scopes, apiKey };
+    }
+    
+    // Session tokens are dot-separated, API keys are not
+    if (token.includes('.')) {
+      return { success: false, error: `Invalid session token: ${error}` };
+    }
+    
+    return this.securityManager.authenticateWithApiKey(token);
+  }
+  
+  /**
+   * Authenticate a caller holding an API key
+   * @param apiKey API key
+   * @returns The user id and a session token for the context's security context
+   */
+  public async authenticateApiKey(apiKey: string): Promise<AuthResult> {
+    if (!this.config.securityEnabled || !this.securityManager) {
+      return { success: false, error: 'Security is disabled' };
+    }
+    
+    return this.securityManager.authenticateWithApiKey(apiKey);
+  }
+  
+  /**
+   * The security manager, or undefined when security is disabled
+   */
+  public getSecurityManager(): SecurityManager | undefined {
+    return this.config.securityEnabled ? this.securityManager : undefined;
+  }
+  
+  /**
+   * The encryption service, or undefined before initialization
+   */
+  public getEncryptionService(): EncryptionService | undefined {
+    return this.encryption;
+  }
+  
+  /**
+   * Create a new encryption key and re-encrypt the data of the loaded modules
+   *
+   * The retired keys still decrypt whatever a module failed to re-encrypt, or
+   * the data of modules that are not loaded, so they are only deleted with
+   * `prune` and when every module succeeded.
+   * @param options Whether to delete the retired keys
+   */
+  public async rotateEncryptionKey(options: { prune?: boolean } = {}): Promise<KeyRotation> {
+    if (!this.encryption) {
+      throw new Error('MCP is not initialized');
     }
     
-    const moduleDirs = await fs.readdir(this.config.modulesDirectory);
+    const encryption = this.encryption;
+    const keyId = await encryption.rotate();
+    const rotation: KeyRotation = { keyId, reencrypted: {}, failed: {}, pruned: [] };
     
-    // Load each module
-    for (const moduleDir of moduleDirs) {
-      const modulePath = path.join(this.config.modulesDirectory, moduleDir);
-      const stats = await fs.stat(modulePath);
+    logger.info(`Rotated the encryption key to ${keyId}`);
+    
+    for (const module of this.modules.values()) {
+      if (!module.reencrypt) {
+        continue;
+      }
       
-      if (stats.isDirectory()) {
-        try {
-          await this.loadModule(modulePath);
-        } catch (error) {
-          logger.error(`Failed to load module ${moduleDir}`, { error });
-        }
+      try {
+        rotation.reencrypted[module.meta.name] = await module.reencrypt(encryption);
+      } catch (error) {
+        logger.error(`Module ${module.meta.name} failed to re-encrypt its data`, { error });
+        rotation.failed[module.meta.name] = error instanceof Error ? error.message : String(error);
+      }
+    }
+    
+    if (options.prune && Object.keys(rotation.failed).length === 0) {
+      rotation.pruned = await encryption.pruneRetiredKeys();
+    }
+    
+    return rotation;
+  }
+  
+  /**
+   * Whether the MCP system has been initialized
+   */
+  public isInitialized(): boolean {
+    return this.initialized;
+  }
+  
+  /**
+   * Run the health checks of the loaded modules
+   *
+   * Modules are checked in parallel. A failed module leaves the others
+   * working, so it makes the system `degraded`; the system is only `failed`
+   * when it is not initialized.
+   * @param moduleNames Only check these modules, all modules if omitted
+   */
+  public async checkHealth(moduleNames?: string[]): Promise<IMCPHealthReport> {
+    const startTime = Date.now();
+    const modules = Array.from(this.modules.values()).filter(
+      (module) => !moduleNames || moduleNames.includes(module.meta.name)
+    );
+    
+    const results = await Promise.all(modules.map(async (module): Promise<[string, IMCPModuleHealth]> => {
+      if (!module.healthCheck) {
+        return [module.meta.name, { status: 'ok', checks: [], duration: 0 }];
+      }
+      
+      try {
+        return [module.meta.name, await module.healthCheck()];
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return [module.meta.name, {
+          status: 'failed',
+          checks: [{ name: 'healthCheck', status: 'failed', reason, duration: Date.now() - startTime }],
+          duration: Date.now() - startTime,
+        }];
+      }
+    }));
+    
+    const status = worstStatus(results.map(([, health]) => health.status));
+    
+    return {
+      status: !this.initialized ? 'failed' : status === 'ok' ? 'ok' : 'degraded',
+      modules: Object.fromEntries(results),
+      uptime: process.uptime(),
+      duration: Date.now() - startTime,
+      timestamp: startTime,
+    };
+  }
+  
+  /**
+   * Discover and load all modules
+   *
+   * Modules are found in the modules directory and any extra configured
+   * module directories, then initialized in dependency order.
+   */
+  private async loadModules(): Promise<void> {
+    const directories = [this.config.modulesDirectory, ...(this.config.moduleDirectories || [])];
+    
+    logger.info(`Discovering modules in ${directories.join(', ')}`);
+    
+    const candidates: ModuleCandidate[] = [];
+    
+    for (const modulePath of await discoverModulePaths(directories)) {
+      try {
+        candidates.push({ path: modulePath, module: await instantiateModule(modulePath) });
+      } catch (error) {
+        logger.error(`Failed to load module from ${modulePath}`, { error });
+      }
+    }
+    
+    const { ordered, failures } = sortByDependencies(candidates, new Set(this.modules.keys()));
+    
+    for (const { candidate, error } of failures) {
+      logger.error(`Skipping module ${candidate.module.meta.name}: ${error.message}`, { path: candidate.path });
+    }
+    
+    for (const candidate of ordered) {
+      try {
+        await this.initializeModule(candidate.module, candidate.path);
+        this.addModuleSource(candidate.module.meta.name, { path: candidate.path });
+      } catch (error) {
+        logger.error(`Failed to load module ${candidate.module.meta.name}`, { error });
+      }
+    }
+    
+    logger.info(`Loaded ${this.modules.size} modules`);
+  }
+  
+  /**
+   * Load all plugins from the plugins directory and the configured plugin list
+   */
+  private async loadPlugins(): Promise<void> {
+    const specifiers = [
+      ...await discoverPluginPaths(this.config.pluginsDirectory),
+      ...(this.config.plugins || []),
+    ];
+    
+    for (const specifier of specifiers) {
+      try {
+        await this.loadPlugin(specifier);
+      } catch {
+        // Already logged by loadPlugin, one broken plugin must not stop the others
       }
     }
     
-    logger.info(`Loaded ${this.modules.size} built-in modules`);
+    if (specifiers.length > 0) {
+      logger.info(`Loaded ${this.plugins.size} plugins`);
+    }
+  }
+  
+  /**
+   * Initialize a module and register it
+   * @param module Module instance
+   * @param modulePath Path the module was loaded from
+   * @param options Module initialization options, merged over the configured options
+   */
+  private async initializeModule(
+    module: IMCPModule,
+    modulePath: string,
+    options?: IMCPModuleInitOptions
+  ): Promise<IMCPModule> {
+    const moduleName = module.meta.name;
+    
+    await this.startModule(module, options);
+    
+    this.modules.set(moduleName, module);
+    
+    logger.info(`Module ${moduleName} loaded successfully from ${modulePath}`);
+    this.events.emit('module.loaded', { moduleName, version: module.meta.version, path: modulePath });
+    
+    return module;
+  }
+  
+  /**
+   * Initialize a module without registering it
+   * @param module Module instance
+   * @param options Module initialization options, merged over the configured options
+   */
+  private async startModule(module: IMCPModule, options?: IMCPModuleInitOptions): Promise<void> {
+    const moduleName = module.meta.name;
+    
+    // Dependencies must already be loaded and initialized
+    const missing = (module.meta.dependencies || []).filter((dependency) => !this.modules.has(dependency));
+    
+    if (missing.length > 0) {
+      throw new ModuleLoadError(`Module ${moduleName} depends on modules that are not loaded: ${missing.join(', ')}`);
+    }
+    
+    const initialized = await module.initialize({
+      logLevel: this.config.logLevel,
+      configDirectory: this.config.configDirectory,
+      dataDirectory: this.config.dataDirectory,
+      ...(this.config.moduleOptions?.[moduleName] || {}),
+      ...(options || {}),
+      events: this.events,
+      mcp: this,
+    });
+    
+    if (!initialized) {
+      throw new ModuleLoadError(`Module ${moduleName} failed to initialize`);
+    }
+  }
+  
+  /**
+   * Remember where a module was loaded from, and watch it in watch mode
+   * @param moduleName Name of the module
+   * @param source Module source
+   */
+  private addModuleSource(moduleName: string, source: ModuleSource): void {
+    this.moduleSources.set(moduleName, source);
+    this.watcher?.watch(moduleName, source.path);
   }
   
   /**
@@ -164,47 +608,146 @@ export class MCP implements IMCP {
     }
     
     // Parse command string
-    const parts = commandString.trim().split(' ');
-    const [moduleAndCommand, ...paramParts] = parts;
+    let steps: { parsed: ParsedCommand; params: IMCPCommandParams }[];
     
-    if (!moduleAndCommand) {
-      return {
-        success: false,
-        error: 'Invalid command format',
-        timestamp: Date.now(),
-      };
+    try {
+      steps = parsePipeline(commandString).map((parsed) => {
+        // Positional arguments need the command metadata to be mapped onto names
+        const command = this.getCommand(parsed.moduleName, parsed.commandName);
+        return { parsed, params: command ? applyPositionals(parsed, command.meta) : parsed.params };
+      });
+    } catch (error) {
+      if (error instanceof CommandParseError) {
+        return {
+          success: false,
+          error: `Invalid command: ${error.message}`,
+          status: 'invalid',
+          timestamp: Date.now(),
+        };
+      }
+      
+      throw error;
     }
     
-    // Split module and command
-    const [moduleName, commandName] = moduleAndCommand.split('.');
-    
-    if (!moduleName || !commandName) {
-      return {
-        success: false,
-        error: 'Invalid command format. Expected format: module.command param1=value1 param2=value2',
-        timestamp: Date.now(),
-      };
+    if (steps.length === 1) {
+      const [{ parsed, params }] = steps;
+      return this.executeCommandExplicit(parsed.moduleName, parsed.commandName, params, context);
     }
     
-    // Parse parameters
-    const params: IMCPCommandParams = {};
+    return this.executePipeline(steps, context);
+  }
+  
+  /**
+   * Execute the steps of a pipeline in order
+   *
+   * Path references in each step are resolved against the data of the previous
+   * step. Execution stops at the first failing step.
+   * @param steps Parsed pipeline steps
+   * @param context Command execution context
+   */
+  private async executePipeline(
+    steps: { parsed: ParsedCommand; params: IMCPCommandParams }[],
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const startTime = Date.now();
+    const trace: IMCPPipelineStep[] = [];
+    let result: IMCPCommandResult | undefined;
     
-    for (const paramPart of paramParts) {
-      const [key, ...valueParts] = paramPart.split('=');
-      const value = valueParts.join('=');
+    for (const [index, { parsed, params }] of steps.entries()) {
+      const name = `${parsed.moduleName}.${parsed.commandName}`;
       
-      if (key && value !== undefined) {
-        // Try to parse as JSON if possible
-        try {
-          params[key] = JSON.parse(value);
-        } catch {
-          params[key] = value;
+      try {
+        const resolved = resolvePathReferences(params, result?.data);
+        result = await this.executeCommandExplicit(parsed.moduleName, parsed.commandName, resolved, context);
+        trace.push({
+          command: name,
+          success: result.success,
+          error: result.error,
+          executionTime: result.executionTime,
+        });
+      } catch (error) {
+        if (!(error instanceof PathExpressionError)) {
+          throw error;
         }
+        
+        result = { success: false, error: error.message, status: 'invalid', timestamp: Date.now() };
+        trace.push({ command: name, success: false, error: error.message });
+      }
+      
+      context.stream?.progress(
+        Math.round(((index + 1) / steps.length) * 100),
+        `Pipeline step ${index + 1} (${name}) ${result.success ? 'completed' : 'failed'}`
+      );
+      
+      if (!result.success) {
+        return {
+          ...result,
+          error: `Pipeline step ${index + 1} (${name}) failed: ${result.error}`,
+          timestamp: startTime,
+          executionTime: Date.now() - startTime,
+          steps: trace,
+        };
       }
     }
     
-    // Execute command
-    return this.executeCommandExplicit(moduleName, commandName, params, context);
+    return {
+      ...result!,
+      timestamp: startTime,
+      executionTime: Date.now() - startTime,
+      steps: trace,
+    };
+  }
+  
+  /**
+   * Execute a command, reading its output as it arrives
+   * @param commandString Full command string (e.g., "terminal.execute command=ls")
+   * @param context Command execution context
+   * @returns Chunk, progress and log events, ending with the command result
+   */
+  public streamCommand(commandString: string, context: IMCPCommandContext): AsyncIterable<IMCPStreamEvent> {
+    return this.stream(context, (streamContext) => this.executeCommand(commandString, streamContext));
+  }
+  
+  /**
+   * Execute a command with explicit module, command, and parameters, reading its output as it arrives
+   * @param moduleName Name of the module
+   * @param commandName Name of the command
+   * @param params Command parameters
+   * @param context Command execution context
+   * @returns Chunk, progress and log events, ending with the command result
+   */
+  public streamCommandExplicit(
+    moduleName: string,
+    commandName: string,
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): AsyncIterable<IMCPStreamEvent> {
+    return this.stream(context, (streamContext) =>
+      this.executeCommandExplicit(moduleName, commandName, params, streamContext)
+    );
+  }
+  
+  /**
+   * Run an execution with a streaming channel in its context
+   * @param context Command execution context
+   * @param execute Execution to run
+   */
+  private stream(
+    context: IMCPCommandContext,
+    execute: (context: IMCPCommandContext) => Promise<IMCPCommandResult>
+  ): AsyncIterable<IMCPStreamEvent> {
+    const stream = new CommandStream();
+    
+    execute({ ...context, stream }).then(
+      (result) => stream.end(result),
+      (error) => stream.end({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: Date.now(),
+      })
+    );
+    
+    return stream;
   }
   
   /**
@@ -235,6 +778,7 @@ export class MCP implements IMCP {
       return {
         success: false,
         error: `Module ${moduleName} not found`,
+        status: 'not_found',
         timestamp: Date.now(),
       };
     }
@@ -246,43 +790,75 @@ export class MCP implements IMCP {
       return {
         success: false,
         error: `Command ${commandName} not found in module ${moduleName}`,
+        status: 'not_found',
         timestamp: Date.now(),
       };
     }
     
-    // Check authentication if required
-    if (command.meta.requiresAuth && this.config.securityEnabled && this.securityManager) {
-      if (!context.securityContext.isAuthenticated) {
-        return {
-          success: false,
-          error: `Command ${moduleName}.${commandName} requires authentication`,
-          timestamp: Date.now(),
-        };
-      }
+    const invocation: IMCPInvocation = {
+      executionId: uuidv4(),
+      moduleName,
+      commandName,
+      module,
+      command,
+      params,
+      context,
+      state: {},
+    };
+    
+    // Run the middleware chain, ending with the module executing the command
+    const execution = this.pipeline.run(invocation, () =>
+      module.executeCommand(commandName, invocation.params, invocation.context)
+    );
+    
+    return this.trackCommand(module, execution);
+  }
+  
+  /**
+   * Record a command as running on a module instance until it settles
+   * @param module Module instance running the command
+   * @param execution Command execution
+   */
+  private async trackCommand(
+    module: IMCPModule,
+    execution: Promise<IMCPCommandResult>
+  ): Promise<IMCPCommandResult> {
+    let active = this.activeCommands.get(module);
+    
+    if (!active) {
+      active = new Set();
+      this.activeCommands.set(module, active);
+    }
+    
+    active.add(execution);
+    
+    try {
+      return await execution;
+    } finally {
+      active.delete(execution);
       
-      // Check if the user has the required permissions
-      if (context.userId && command.meta.permissions && command.meta.permissions.length > 0) {
-        const hasPermission = command.meta.permissions.every((permission) => {
-          const [category, level] = permission.split('.');
-          return this.securityManager!.hasPermission(
-            context.userId!,
-            category,
-            parseInt(level, 10)
-          );
-        });
-        
-        if (!hasPermission) {
-          return {
-            success: false,
-            error: `Insufficient permissions to execute command ${moduleName}.${commandName}`,
-            timestamp: Date.now(),
-          };
-        }
+      if (active.size === 0) {
+        this.activeCommands.delete(module);
       }
     }
-    
-    // Execute command
-    return module.executeCommand(commandName, params, context);
+  }
+  
+  /**
+   * Add a middleware to the chain around every command
+   * @param middleware Middleware to add
+   * @param position Where to insert the middleware, appended (innermost) by default
+   */
+  public use(middleware: IMCPMiddleware, position?: IMCPMiddlewarePosition): void {
+    this.pipeline.use(middleware, position);
+    logger.debug(`Registered middleware ${middleware.name}`);
+  }
+  
+  /**
+   * Remove a middleware from the chain
+   * @param name Name of the middleware to remove
+   */
+  public removeMiddleware(name: string): boolean {
+    return this.pipeline.remove(name);
   }
   
   /**
@@ -294,59 +870,30 @@ export class MCP implements IMCP {
     modulePath: string,
     options?: IMCPModuleInitOptions
   ): Promise<IMCPModule> {
-    const moduleName = path.basename(modulePath);
-    
-    logger.info(`Loading module ${moduleName} from ${modulePath}`);
+    logger.info(`Loading module from ${modulePath}`);
     
     try {
       // Check if module exists
       const moduleExists = await fs.pathExists(modulePath);
       
       if (!moduleExists) {
-        throw new Error(`Module path ${modulePath} does not exist`);
+        throw new ModuleLoadError(`Module path ${modulePath} does not exist`);
       }
       
-      // Check if module is already loaded
-      if (this.modules.has(moduleName)) {
-        logger.warn(`Module ${moduleName} is already loaded`);
-        return this.modules.get(moduleName)!;
-      }
+      const module = await instantiateModule(modulePath);
       
-      // In development, we'll dynamically import the TypeScript modules
-      // This is a simplified version for testing purposes
-      let ModuleClass;
-      
-      switch (moduleName) {
-        case 'fs':
-          ModuleClass = require('../modules/fs').default;
-          break;
-        case 'terminal':
-          ModuleClass = require('../modules/terminal').default;
-          break;
-        case 'web':
-          ModuleClass = require('../modules/web').default;
-          break;
-        case 'ai':
-          ModuleClass = require('../modules/ai').default;
-          break;
-        default:
-          throw new Error(`Unknown module: ${moduleName}`);
+      // Check if module is already loaded
+      if (this.modules.has(module.meta.name)) {
+        logger.warn(`Module ${module.meta.name} is already loaded`);
+        return this.modules.get(module.meta.name)!;
       }
       
-      // Create module instance
-      const module = new ModuleClass();
-      
-      // Initialize module
-      await module.initialize(options);
-      
-      // Register module
-      this.modules.set(moduleName, module);
-      
-      logger.info(`Module ${moduleName} loaded successfully`);
+      await this.initializeModule(module, modulePath, options);
+      this.addModuleSource(module.meta.name, { path: modulePath, options });
       
       return module;
     } catch (error) {
-      logger.error(`Failed to load module ${moduleName}`, { error });
+      logger.error(`Failed to load module from ${modulePath}`, { error });
       throw error;
     }
   }
@@ -373,8 +920,11 @@ export class MCP implements IMCP {
       
       // Unregister module
       this.modules.delete(moduleName);
+      this.moduleSources.delete(moduleName);
+      this.watcher?.unwatch(moduleName);
       
       logger.info(`Module ${moduleName} unloaded successfully`);
+      this.events.emit('module.unloaded', { moduleName });
       
       return true;
     } catch (error) {
@@ -383,6 +933,104 @@ export class MCP implements IMCP {
     }
   }
   
+  /**
+   * Reload a module from its directory
+   *
+   * The new code is loaded and initialized next to the running instance, then
+   * swapped into `modules` in one step. Commands already running finish on the
+   * previous instance, which is shut down once they have settled. If the new
+   * code fails to load or initialize, the previous instance stays in place.
+   * @param moduleName Name of the module to reload
+   */
+  public async reloadModule(moduleName: string): Promise<IMCPModule> {
+    const previous = this.modules.get(moduleName);
+    const source = this.moduleSources.get(moduleName);
+    
+    if (!previous || !source) {
+      throw new ModuleLoadError(`Module ${moduleName} is not loaded from a module directory`);
+    }
+    
+    logger.info(`Reloading module ${moduleName} from ${source.path}`);
+    
+    let module: IMCPModule;
+    
+    try {
+      clearModuleCache(source.path);
+      module = await instantiateModule(source.path);
+      
+      if (module.meta.name !== moduleName) {
+        throw new ModuleLoadError(`Module in ${source.path} is now named ${module.meta.name}, expected ${moduleName}`);
+      }
+      
+      await this.startModule(module, source.options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      
+      logger.error(`Failed to reload module ${moduleName}, keeping the loaded version`, { error });
+      this.events.emit('module.reloadFailed', { moduleName, path: source.path, error: message });
+      
+      throw error;
+    }
+    
+    this.modules.set(moduleName, module);
+    
+    logger.info(`Module ${moduleName} reloaded from ${source.path}`);
+    this.events.emit('module.reloaded', { moduleName, version: module.meta.version, path: source.path });
+    
+    const retiring = this.retireModule(moduleName, previous);
+    this.retiringModules.add(retiring);
+    retiring.finally(() => this.retiringModules.delete(retiring));
+    
+    return module;
+  }
+  
+  /**
+   * Shut down the previous instance of a reloaded module once its commands have settled
+   * @param moduleName Name of the module
+   * @param module Previous module instance
+   */
+  private async retireModule(moduleName: string, module: IMCPModule): Promise<void> {
+    await Promise.allSettled(Array.from(this.activeCommands.get(module) || []));
+    
+    try {
+      await module.shutdown();
+      logger.debug(`Previous instance of module ${moduleName} shut down`);
+    } catch (error) {
+      logger.error(`Failed to shut down the previous instance of module ${moduleName}`, { error });
+    }
+  }
+  
+  /**
+   * Reload modules when the files in their directory change
+   *
+   * Only modules loaded from a module directory are watched, not the modules
+   * registered by plugins.
+   */
+  public watchModules(): void {
+    if (this.watcher) {
+      return;
+    }
+    
+    this.watcher = new ModuleWatcher({
+      debounce: MODULE_RELOAD_DEBOUNCE,
+      reload: (moduleName) => this.reloadModule(moduleName),
+    });
+    
+    for (const [moduleName, source] of this.moduleSources) {
+      this.watcher.watch(moduleName, source.path);
+    }
+    
+    logger.info(`Watching ${this.moduleSources.size} modules for changes`);
+  }
+  
+  /**
+   * Stop reloading modules on file changes
+   */
+  public unwatchModules(): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+  
   /**
    * Load a plugin
    * @param pluginPath Path to the plugin
@@ -392,17 +1040,12 @@ export class MCP implements IMCP {
     pluginPath: string,
     options?: IMCPPluginInitOptions
   ): Promise<IMCPPlugin> {
-    const pluginName = path.basename(pluginPath);
-    
-    logger.info(`Loading plugin ${pluginName} from ${pluginPath}`);
+    logger.info(`Loading plugin from ${pluginPath}`);
     
     try {
-      // Check if plugin exists
-      const pluginExists = await fs.pathExists(pluginPath);
-      
-      if (!pluginExists) {
-        throw new Error(`Plugin path ${pluginPath} does not exist`);
-      }
+      const resolvedPath = await resolvePluginPath(pluginPath);
+      const manifest = await readPluginManifest(resolvedPath);
+      const pluginName = manifest.name;
       
       // Check if plugin is already loaded
       if (this.plugins.has(pluginName)) {
@@ -410,30 +1053,97 @@ export class MCP implements IMCP {
         return this.plugins.get(pluginName)!;
       }
       
-      // In development, we'll dynamically import the TypeScript plugins
-      // This is a simplified version for testing purposes
-      // For now, we don't have any plugins, so we'll just throw an error
-      throw new Error(`No plugins are currently implemented`);
+      checkPluginCompatibility(manifest, MCP_VERSION);
+      checkPluginPermissions(manifest, this.config.pluginPermissions?.[pluginName] || []);
       
-      // Initialize plugin
-      // await plugin.initialize(options || {}, this.modules);
+      const plugin = instantiatePlugin(resolvedPath, manifest);
       
-      // Register plugin
-      // this.plugins.set(pluginName, plugin);
+      // Each plugin keeps its state in its own data directory
+      const dataDirectory = path.join(this.config.pluginDataDirectory, pluginName);
+      const createdDataDirectory = !await fs.pathExists(dataDirectory);
+      await fs.ensureDir(dataDirectory);
       
-      // Register modules provided by the plugin
-      // const providedModules = plugin.getProvidedModules();
+      const registeredModules: string[] = [];
       
-      // for (const module of providedModules) {
-      //   this.modules.set(module.meta.name, module);
-      //   logger.info(`Registered module ${module.meta.name} provided by plugin ${pluginName}`);
-      // }
+      try {
+        // Initialize plugin
+        const initialized = await plugin.initialize(
+          {
+            logLevel: this.config.logLevel,
+            ...(this.config.pluginOptions?.[pluginName] || {}),
+            ...(options || {}),
+            dataDirectory,
+            permissions: manifest.permissions || [],
+          },
+          this.modules
+        );
+        
+        if (!initialized) {
+          throw new PluginLoadError(`Plugin ${pluginName} failed to initialize`);
+        }
+        
+        // Register modules provided by the plugin, which must not shadow loaded modules
+        const providedModules = plugin.getProvidedModules();
+        
+        for (const module of providedModules) {
+          if (this.modules.has(module.meta.name)) {
+            throw new PluginLoadError(
+              `Plugin ${pluginName} provides module ${module.meta.name}, which is already loaded`
+            );
+          }
+        }
+        
+        const { ordered, failures } = sortByDependencies(
+          providedModules.map((module) => ({ path: resolvedPath, module })),
+          new Set(this.modules.keys())
+        );
+        
+        if (failures.length > 0) {
+          throw new PluginLoadError(`Plugin ${pluginName}: ${failures[0].error.message}`);
+        }
+        
+        for (const candidate of ordered) {
+          await this.initializeModule(candidate.module, resolvedPath);
+          registeredModules.push(candidate.module.meta.name);
+          logger.info(`Registered module ${candidate.module.meta.name} provided by plugin ${pluginName}`);
+        }
+      } catch (error) {
+        // Roll back whatever the plugin managed to register
+        logger.warn(`Rolling back plugin ${pluginName}`);
+        
+        for (const moduleName of registeredModules.reverse()) {
+          await this.unloadModule(moduleName);
+        }
+        
+        try {
+          await plugin.unload();
+        } catch (unloadError) {
+          logger.error(`Error unloading plugin ${pluginName} during rollback`, { error: unloadError });
+        }
+        
+        // Keep the data of a previously working plugin, only remove what this attempt created
+        if (createdDataDirectory) {
+          await fs.remove(dataDirectory);
+        }
+        
+        throw error;
+      }
+      
+      // Register plugin
+      this.plugins.set(pluginName, plugin);
+      this.pluginModules.set(pluginName, registeredModules);
+      
+      // Plugins receive every event
+      this.pluginSubscriptions.set(
+        pluginName,
+        this.events.subscribe('**', (event) => plugin.handleEvent(event.topic, event.payload))
+      );
       
-      // logger.info(`Plugin ${pluginName} loaded successfully`);
+      logger.info(`Plugin ${pluginName}@${manifest.version} loaded successfully`);
       
-      // return plugin;
+      return plugin;
     } catch (error) {
-      logger.error(`Failed to load plugin ${pluginName}`, { error });
+      logger.error(`Failed to load plugin from ${pluginPath}`, { error });
       throw error;
     }
   }
@@ -455,19 +1165,22 @@ export class MCP implements IMCP {
       // Get plugin
       const plugin = this.plugins.get(pluginName)!;
       
-      // Unload plugin
-      await plugin.unload();
+      // Stop delivering events to the plugin
+      this.pluginSubscriptions.get(pluginName)?.();
+      this.pluginSubscriptions.delete(pluginName);
       
       // Unregister modules provided by the plugin
-      const providedModules = plugin.getProvidedModules();
-      
-      for (const module of providedModules) {
-        this.modules.delete(module.meta.name);
-        logger.info(`Unregistered module ${module.meta.name} provided by plugin ${pluginName}`);
+      for (const moduleName of this.pluginModules.get(pluginName) || []) {
+        await this.unloadModule(moduleName);
+        logger.info(`Unregistered module ${moduleName} provided by plugin ${pluginName}`);
       }
       
+      // Unload plugin
+      await plugin.unload();
+      
       // Unregister plugin
       this.plugins.delete(pluginName);
+      this.pluginModules.delete(pluginName);
       
       logger.info(`Plugin ${pluginName} unloaded successfully`);
       
@@ -497,21 +1210,14 @@ export class MCP implements IMCP {
   }
   
   /**
-   * Emit an event to all plugins
+   * Emit an event on the event bus
    * @param eventName Name of the event
    * @param eventData Data associated with the event
    */
   public async emitEvent(eventName: string, eventData: any): Promise<void> {
     logger.debug(`Emitting event ${eventName}`, { eventData });
     
-    // Notify all plugins
-    for (const [pluginName, plugin] of this.plugins.entries()) {
-      try {
-        await plugin.handleEvent(eventName, eventData);
-      } catch (error) {
-        logger.error(`Error handling event ${eventName} in plugin ${pluginName}`, { error });
-      }
-    }
+    this.events.emit(eventName, eventData);
   }
   
   /**
@@ -525,6 +1231,13 @@ export class MCP implements IMCP {
     
     logger.info('Shutting down MCP system');
     
+    this.jobs.stop();
+    this.unwatchModules();
+    
+    // Let subscribers react before plugins and modules go away
+    this.events.emit('mcp.shutdown', { timestamp: Date.now() });
+    await this.events.drain();
+    
     // Unload all plugins
     for (const pluginName of this.plugins.keys()) {
       await this.unloadPlugin(pluginName);
@@ -535,8 +1248,16 @@ export class MCP implements IMCP {
       await this.unloadModule(moduleName);
     }
     
+    // Previous instances of reloaded modules still finishing their commands
+    await Promise.all(Array.from(this.retiringModules));
+    
+    await this.rateLimiter.flush();
+    await this.audit.flush();
+    
     this.initialized = false;
     
+    await this.events.drain();
+    
     logger.info('MCP system shut down successfully');
   }
 } 
\ No newline at end of file
@@ -0,0 +1,327 @@
+import {
+  IMCPMetricSeries,
+  IMCPMetricSnapshot,
+  IMCPMetrics,
+  MCPMetricLabels,
+  MCPMetricType,
+} from '../interfaces/IMCPMetrics';
+
+/**
+ * Default histogram buckets in seconds, from fast file reads to slow model calls
+ */
+export const DEFAULT_HISTOGRAM_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/**
+ * Metric names and label names allowed by the exposition format
+ */
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Error raised for unknown metrics and conflicting registrations
+ */
+export class MetricsError extends Error {
+  /**
+   * Create a new metrics error
+   * @param message Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetricsError';
+  }
+}
+
+/**
+ * Registered metric with its series, keyed by label values
+ */
+interface Metric {
+  name: string;
+  help: string;
+  type: MCPMetricType;
+  labelNames: string[];
+  buckets: number[];
+  collect?: () => number;
+  series: Map<string, MetricSeries>;
+}
+
+/**
+ * Values of one series; histograms count per bucket, not cumulatively
+ */
+interface MetricSeries {
+  labels: MCPMetricLabels;
+  value: number;
+  bucketCounts: number[];
+  count: number;
+}
+
+/**
+ * Escape a label value for the exposition format
+ * @param value Label value
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Format label values as `{name="value",...}`, or nothing without labels
+ * @param labels Label values
+ */
+function formatLabels(labels: MCPMetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Format a number for the exposition format
+ * @param value Number to format
+ */
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  
+  return String(value);
+}
+
+/**
+ * In-memory registry of counters, gauges and histograms
+ *
+ * Metrics live for the lifetime of the process and are exported with
+ * render() in the Prometheus text exposition format.
+ */
+export class MetricsRegistry implements IMCPMetrics {
+  private metrics: Map<string, Metric> = new Map();
+  
+  /**
+   * Register a counter
+   * @param name Metric name
+   * @param help Description of the metric
+   * @param labelNames Names of the labels of the metric
+   */
+  public registerCounter(name: string, help: string, labelNames: string[] = []): void {
+    this.register({ name, help, type: 'counter', labelNames, buckets: [] });
+  }
+  
+  /**
+   * Register a gauge
+   * @param name Metric name
+   * @param help Description of the metric
+   * @param labelNames Names of the labels of the metric
+   * @param collect Reads the value of an unlabeled gauge whenever metrics are exported
+   */
+  public registerGauge(name: string, help: string, labelNames: string[] = [], collect?: () => number): void {
+    if (collect && labelNames.length > 0) {
+      throw new MetricsError(`Gauge ${name} reads its value with collect and cannot have labels`);
+    }
+    
+    this.register({ name, help, type: 'gauge', labelNames, buckets: [], collect });
+  }
+  
+  /**
+   * Register a histogram
+   * @param name Metric name
+   * @param help Description of the metric
+   * @param labelNames Names of the labels of the metric
+   * @param buckets Upper bounds of the buckets, ascending
+   */
+  public registerHistogram(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    buckets: number[] = DEFAULT_HISTOGRAM_BUCKETS
+  ): void {
+    if (labelNames.includes('le')) {
+      throw new MetricsError(`Histogram ${name} cannot have a label named le`);
+    }
+    
+    this.register({ name, help, type: 'histogram', labelNames, buckets: [...buckets].sort((a, b) => a - b) });
+  }
+  
+  /**
+   * Register a metric, keeping an identical earlier registration
+   * @param metric Metric without series
+   */
+  private register(metric: Omit<Metric, 'series'>): void {
+    if (!METRIC_NAME_PATTERN.test(metric.name)) {
+      throw new MetricsError(`Invalid metric name ${metric.name}`);
+    }
+    
+    const invalidLabel = metric.labelNames.find((label) => !LABEL_NAME_PATTERN.test(label));
+    
+    if (invalidLabel) {
+      throw new MetricsError(`Invalid label name ${invalidLabel} of metric ${metric.name}`);
+    }
+    
+    const existing = this.metrics.get(metric.name);
+    
+    if (existing) {
+      // Modules reloaded in watch mode register their metrics again
+      if (existing.type === metric.type && existing.labelNames.join() === metric.labelNames.join()) {
+        return;
+      }
+      
+      throw new MetricsError(`Metric ${metric.name} is already registered as a different ${existing.type}`);
+    }
+    
+    this.metrics.set(metric.name, { ...metric, series: new Map() });
+  }
+  
+  /**
+   * Add to a counter or gauge
+   * @param name Metric name
+   * @param labels Label values
+   * @param value Amount to add, negative to decrease a gauge
+   */
+  public increment(name: string, labels: MCPMetricLabels = {}, value: number = 1): void {
+    const metric = this.getMetric(name, ['counter', 'gauge']);
+    
+    if (metric.type === 'counter' && value < 0) {
+      throw new MetricsError(`Counter ${name} cannot decrease`);
+    }
+    
+    this.getSeries(metric, labels).value += value;
+  }
+  
+  /**
+   * Set a gauge
+   * @param name Metric name
+   * @param labels Label values
+   * @param value New value
+   */
+  public set(name: string, labels: MCPMetricLabels, value: number): void {
+    this.getSeries(this.getMetric(name, ['gauge']), labels).value = value;
+  }
+  
+  /**
+   * Record an observation in a histogram
+   * @param name Metric name
+   * @param labels Label values
+   * @param value Observed value
+   */
+  public observe(name: string, labels: MCPMetricLabels, value: number): void {
+    const metric = this.getMetric(name, ['histogram']);
+    const series = this.getSeries(metric, labels);
+    const bucket = metric.buckets.findIndex((bound) => value <= bound);
+    
+    // Observations above the last bound only count towards +Inf
+    if (bucket !== -1) {
+      series.bucketCounts[bucket]++;
+    }
+    
+    series.value += value;
+    series.count++;
+  }
+  
+  /**
+   * Get a registered metric of one of the given types
+   * @param name Metric name
+   * @param types Allowed metric types
+   */
+  private getMetric(name: string, types: MCPMetricType[]): Metric {
+    const metric = this.metrics.get(name);
+    
+    if (!metric) {
+      throw new MetricsError(`Metric ${name} is not registered`);
+    }
+    
+    if (!types.includes(metric.type)) {
+      throw new MetricsError(`Metric ${name} is a ${metric.type}`);
+    }
+    
+    return metric;
+  }
+  
+  /**
+   * Get or create the series of a metric for the given label values
+   *
+   * Only the registered labels are kept, missing ones are empty.
+   * @param metric Metric
+   * @param labels Label values
+   */
+  private getSeries(metric: Metric, labels: MCPMetricLabels): MetricSeries {
+    const values = metric.labelNames.map((label) => labels[label] ?? '');
+    const key = JSON.stringify(values);
+    let series = metric.series.get(key);
+    
+    if (!series) {
+      series = {
+        labels: Object.fromEntries(metric.labelNames.map((label, index) => [label, values[index]])),
+        value: 0,
+        bucketCounts: metric.buckets.map(() => 0),
+        count: 0,
+      };
+      metric.series.set(key, series);
+    }
+    
+    return series;
+  }
+  
+  /**
+   * Get the current state of every metric
+   */
+  public snapshot(): IMCPMetricSnapshot[] {
+    return Array.from(this.metrics.values()).map((metric) => ({
+      name: metric.name,
+      help: metric.help,
+      type: metric.type,
+      series: this.collectSeries(metric),
+    }));
+  }
+  
+  /**
+   * Get the series of a metric, reading collected gauges
+   * @param metric Metric
+   */
+  private collectSeries(metric: Metric): IMCPMetricSeries[] {
+    if (metric.collect) {
+      return [{ labels: {}, value: metric.collect() }];
+    }
+    
+    return Array.from(metric.series.values()).map((series) => {
+      if (metric.type !== 'histogram') {
+        return { labels: series.labels, value: series.value };
+      }
+      
+      let cumulative = 0;
+      const buckets = metric.buckets.map((bound, index) => {
+        cumulative += series.bucketCounts[index];
+        return { le: formatValue(bound), count: cumulative };
+      });
+      buckets.push({ le: '+Inf', count: series.count });
+      
+      return { labels: series.labels, buckets, sum: series.value, count: series.count };
+    });
+  }
+  
+  /**
+   * Export every metric in the Prometheus text exposition format
+   */
+  public render(): string {
+    const lines: string[] = [];
+    
+    for (const metric of this.snapshot()) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      
+      for (const series of metric.series) {
+        if (metric.type !== 'histogram') {
+          lines.push(`${metric.name}${formatLabels(series.labels)} ${formatValue(series.value!)}`);
+          continue;
+        }
+        
+        for (const { le, count } of series.buckets!) {
+          lines.push(`${metric.name}_bucket${formatLabels({ ...series.labels, le })} ${count}`);
+        }
+        
+        lines.push(`${metric.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum!)}`);
+        lines.push(`${metric.name}_count${formatLabels(series.labels)} ${series.count}`);
+      }
+    }
+    
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+} 
\ No newline at end of file
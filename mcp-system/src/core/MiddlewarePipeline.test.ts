@@ -0,0 +1,179 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { IMCPCommandResult } from '../interfaces/IMCPCommand';
+import { IMCPInvocation, IMCPMiddleware, MCPNextFunction } from '../interfaces/IMCPMiddleware';
+import { createCommandContext } from '../utils/context';
+import { MCP } from './MCP';
+import { MiddlewarePipeline } from './MiddlewarePipeline';
+
+/**
+ * Build a middleware that records its name before and after the rest of the chain
+ * @param name Middleware name
+ * @param calls Recorded calls
+ * @param handle Replaces calling next()
+ */
+function recorder(
+  name: string,
+  calls: string[],
+  handle?: (invocation: IMCPInvocation, next: MCPNextFunction) => Promise<IMCPCommandResult>
+): IMCPMiddleware {
+  return {
+    name,
+    handle: async (invocation, next) => {
+      calls.push(`>${name}`);
+      const result = handle ? await handle(invocation, next) : await next();
+      calls.push(`<${name}`);
+      return result;
+    },
+  };
+}
+
+/**
+ * Result the pipeline tests end with
+ */
+function ok(): Promise<IMCPCommandResult> {
+  return Promise.resolve({ success: true, timestamp: Date.now() });
+}
+
+describe('MiddlewarePipeline', () => {
+  const invocation = {} as IMCPInvocation;
+  
+  it('runs the middlewares outermost first, honoring positions', async () => {
+    const calls: string[] = [];
+    const pipeline = new MiddlewarePipeline();
+    
+    pipeline.use(recorder('a', calls));
+    pipeline.use(recorder('c', calls));
+    pipeline.use(recorder('b', calls), { before: 'c' });
+    pipeline.use(recorder('d', calls), { after: 'c' });
+    
+    await pipeline.run(invocation, () => {
+      calls.push('command');
+      return ok();
+    });
+    
+    expect(pipeline.list().map((middleware) => middleware.name)).toEqual(['a', 'b', 'c', 'd']);
+    expect(calls).toEqual(['>a', '>b', '>c', '>d', 'command', '<d', '<c', '<b', '<a']);
+  });
+  
+  it('rejects duplicate names and unknown anchors', () => {
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use(recorder('a', []));
+    
+    expect(() => pipeline.use(recorder('a', []))).toThrow('Middleware a is already registered');
+    expect(() => pipeline.use(recorder('b', []), { after: 'x' })).toThrow('middleware x is not registered');
+  });
+  
+  it('lets a middleware short-circuit the chain', async () => {
+    const calls: string[] = [];
+    const pipeline = new MiddlewarePipeline();
+    
+    pipeline.use(recorder('outer', calls));
+    pipeline.use(recorder('gate', calls, async () => ({ success: false, status: 'forbidden', timestamp: Date.now() })));
+    pipeline.use(recorder('inner', calls));
+    
+    const result = await pipeline.run(invocation, ok);
+    
+    expect(result.status).toBe('forbidden');
+    expect(calls).toEqual(['>outer', '>gate', '<gate', '<outer']);
+  });
+  
+  it('turns thrown errors and repeated next() calls into failed results', async () => {
+    const throwing = new MiddlewarePipeline();
+    throwing.use(recorder('boom', [], async () => {
+      throw new Error('boom');
+    }));
+    
+    const twice = new MiddlewarePipeline();
+    twice.use(recorder('twice', [], async (_, next) => {
+      await next();
+      return next();
+    }));
+    
+    expect(await throwing.run(invocation, ok)).toMatchObject({ success: false, error: expect.stringContaining('boom') });
+    expect(await twice.run(invocation, ok)).toMatchObject({ success: false, error: expect.stringContaining('called next() more than once') });
+  });
+});
+
+describe('MCP middleware chain', () => {
+  let directory: string;
+  let mcp: MCP;
+  
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-middleware-'));
+    const configPath = path.join(directory, 'mcp.json');
+    
+    await fs.writeJson(configPath, { rateLimits: { commands: { 'fs.readFile': { perMinute: 1 } } } });
+    await fs.writeFile(path.join(directory, 'notes.txt'), 'hello');
+    
+    mcp = new MCP({ baseDirectory: directory, logLevel: 'error' });
+    await mcp.initialize({ configPath });
+  }, 60000);
+  
+  afterAll(async () => {
+    await mcp.shutdown();
+    await fs.remove(directory);
+  });
+  
+  it('rejects unauthenticated callers before validating their params, and audits the rejection', async () => {
+    const calls: string[] = [];
+    mcp.use(recorder('beforeAuth', calls), { before: 'auth' });
+    mcp.use(recorder('afterAuth', calls), { after: 'auth' });
+    
+    try {
+      const result = await mcp.executeCommand('jobs.status', createCommandContext());
+      
+      expect(result.status).toBe('unauthorized');
+      expect(calls).toEqual(['>beforeAuth', '<beforeAuth']);
+      expect((await mcp.audit.query({ command: 'jobs.status' }))[0]).toMatchObject({ success: false, status: 'unauthorized' });
+    } finally {
+      mcp.removeMiddleware('beforeAuth');
+      mcp.removeMiddleware('afterAuth');
+    }
+  });
+  
+  it('checks declared permissions also for commands that do not require authentication', async () => {
+    const anonymous = await mcp.executeCommand('fs.readFile notes.txt', createCommandContext({ workingDirectory: directory }));
+    const unscoped = await mcp.executeCommand(
+      'fs.readFile notes.txt',
+      createCommandContext({ workingDirectory: directory, userId: 'unscoped', isAuthenticated: true })
+    );
+    const unauthenticated = await mcp.executeCommand(
+      'terminal.execute command=true',
+      createCommandContext({ permissions: ['terminal:execute'] })
+    );
+    
+    expect(anonymous).toMatchObject({ status: 'unauthorized', error: 'Command fs.readFile requires authentication with fs:read' });
+    expect(unscoped).toMatchObject({ status: 'forbidden', error: expect.stringContaining('missing fs:read') });
+    expect(unauthenticated.status).toBe('unauthorized');
+  });
+  
+  it('hands coerced params to the middlewares after validation', async () => {
+    let seen: unknown;
+    mcp.use({ name: 'probe', handle: (invocation, next) => {
+      seen = invocation.params.path;
+      return next();
+    } }, { after: 'validation' });
+    
+    try {
+      await mcp.executeCommand('fs.readFile notes.txt', createCommandContext({ workingDirectory: directory, userId: 'probe', permissions: ['fs:read'] }));
+      
+      expect(seen).toBe(path.join(directory, 'notes.txt'));
+    } finally {
+      mcp.removeMiddleware('probe');
+    }
+  });
+  
+  it('counts only valid executions against rate limits, and rejects them before queueing', async () => {
+    const context = createCommandContext({ workingDirectory: directory, userId: 'limited', permissions: ['fs:read'] });
+    
+    expect((await mcp.executeCommand('fs.readFile', context)).status).toBe('invalid');
+    expect((await mcp.executeCommand('fs.readFile notes.txt', context)).success).toBe(true);
+    
+    const queued = await mcp.executeCommand('fs.readFile notes.txt async=true', context);
+    
+    expect(queued.status).toBe('rate_limited');
+    expect(mcp.jobs.list()).toEqual([]);
+  });
+}); 
\ No newline at end of file
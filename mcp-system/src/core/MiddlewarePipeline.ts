@@ -0,0 +1,102 @@
+import { IMCPCommandResult } from '../interfaces/IMCPCommand';
+import { IMCPInvocation, IMCPMiddleware, IMCPMiddlewarePosition, MCPNextFunction } from '../interfaces/IMCPMiddleware';
+import logger from '../utils/logger';
+
+/**
+ * Ordered chain of middlewares around command execution
+ */
+export class MiddlewarePipeline {
+  private middlewares: IMCPMiddleware[] = [];
+  
+  /**
+   * Add a middleware
+   *
+   * Without a position the middleware is appended, so it runs closest to the command.
+   * @param middleware Middleware to add
+   * @param position Where to insert the middleware
+   */
+  public use(middleware: IMCPMiddleware, position: IMCPMiddlewarePosition = {}): void {
+    if (this.middlewares.some((existing) => existing.name === middleware.name)) {
+      throw new Error(`Middleware ${middleware.name} is already registered`);
+    }
+    
+    const anchor = position.before || position.after;
+    
+    if (!anchor) {
+      this.middlewares.push(middleware);
+      return;
+    }
+    
+    const index = this.middlewares.findIndex((existing) => existing.name === anchor);
+    
+    if (index === -1) {
+      throw new Error(`Cannot position middleware ${middleware.name}: middleware ${anchor} is not registered`);
+    }
+    
+    this.middlewares.splice(position.before ? index : index + 1, 0, middleware);
+  }
+  
+  /**
+   * Remove a middleware
+   * @param name Name of the middleware to remove
+   */
+  public remove(name: string): boolean {
+    const index = this.middlewares.findIndex((middleware) => middleware.name === name);
+    
+    if (index === -1) {
+      return false;
+    }
+    
+    this.middlewares.splice(index, 1);
+    return true;
+  }
+  
+  /**
+   * Get the registered middlewares, outermost first
+   */
+  public list(): IMCPMiddleware[] {
+    return [...this.middlewares];
+  }
+  
+  /**
+   * Run an invocation through the chain
+   *
+   * Errors thrown by middlewares or the command are turned into failed results.
+   * @param invocation Command invocation
+   * @param terminal Executes the command once every middleware has called next()
+   */
+  public async run(invocation: IMCPInvocation, terminal: MCPNextFunction): Promise<IMCPCommandResult> {
+    const middlewares = [...this.middlewares];
+    
+    const dispatch = async (index: number): Promise<IMCPCommandResult> => {
+      const middleware = middlewares[index];
+      
+      if (!middleware) {
+        return terminal();
+      }
+      
+      let called = false;
+      
+      return middleware.handle(invocation, () => {
+        if (called) {
+          throw new Error(`Middleware ${middleware.name} called next() more than once`);
+        }
+        
+        called = true;
+        return dispatch(index + 1);
+      });
+    };
+    
+    try {
+      return await dispatch(0);
+    } catch (error) {
+      logger.error(`Error executing command ${invocation.moduleName}.${invocation.commandName}`, { error });
+      
+      return {
+        success: false,
+        error: `Error executing command ${invocation.commandName}: ${error instanceof Error ? error.message : String(error)}`,
+        timestamp: Date.now(),
+      };
+    }
+  }
+} 
\ No newline at end of file
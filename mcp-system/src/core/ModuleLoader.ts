@@ -0,0 +1,255 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { IMCPModule } from '../interfaces/IMCPModule';
+
+/**
+ * Name of the optional manifest file in a module directory
+ */
+export const MODULE_MANIFEST_FILE = 'module.json';
+
+/**
+ * Module manifest, read from module.json in the module directory
+ */
+export interface ModuleManifest {
+  /** Entry point relative to the module directory (defaults to index) */
+  main?: string;
+  /** Export holding the module class (defaults to the default export) */
+  export?: string;
+}
+
+/**
+ * A module that has been instantiated but not yet initialized
+ */
+export interface ModuleCandidate {
+  path: string;
+  module: IMCPModule;
+}
+
+/**
+ * Error raised when a module cannot be discovered, instantiated or ordered
+ */
+export class ModuleLoadError extends Error {
+  /**
+   * Create a new module load error
+   * @param message Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModuleLoadError';
+  }
+}
+
+/**
+ * Check whether a directory looks like a module (has a manifest or an index file)
+ * @param modulePath Path to the module directory
+ */
+async function isModuleDirectory(modulePath: string): Promise<boolean> {
+  if (await fs.pathExists(path.join(modulePath, MODULE_MANIFEST_FILE))) {
+    return true;
+  }
+  
+  for (const extension of ['.js', '.ts']) {
+    if (await fs.pathExists(path.join(modulePath, `index${extension}`))) {
+      return true;
+    }
+  }
+  
+  return false;
+}
+
+/**
+ * Find module directories in the given parent directories
+ * @param directories Directories containing one subdirectory per module
+ */
+export async function discoverModulePaths(directories: string[]): Promise<string[]> {
+  const modulePaths: string[] = [];
+  
+  for (const directory of directories) {
+    if (!await fs.pathExists(directory)) {
+      continue;
+    }
+    
+    const entries = await fs.readdir(directory);
+    
+    for (const entry of entries.sort()) {
+      const modulePath = path.join(directory, entry);
+      const stats = await fs.stat(modulePath);
+      
+      if (stats.isDirectory() && await isModuleDirectory(modulePath)) {
+        modulePaths.push(modulePath);
+      }
+    }
+  }
+  
+  return modulePaths;
+}
+
+/**
+ * Read the manifest of a module directory, if it has one
+ * @param modulePath Path to the module directory
+ */
+export async function readModuleManifest(modulePath: string): Promise<ModuleManifest> {
+  const manifestPath = path.join(modulePath, MODULE_MANIFEST_FILE);
+  
+  if (!await fs.pathExists(manifestPath)) {
+    return {};
+  }
+  
+  try {
+    return await fs.readJSON(manifestPath);
+  } catch (error) {
+    throw new ModuleLoadError(
+      `Invalid module manifest ${manifestPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Load and instantiate the module class from a module directory
+ * @param modulePath Path to the module directory
+ */
+export async function instantiateModule(modulePath: string): Promise<IMCPModule> {
+  const manifest = await readModuleManifest(modulePath);
+  const entryPath = path.resolve(modulePath, manifest.main || 'index');
+  const exportName = manifest.export || 'default';
+  
+  let exports: any;
+  
+  try {
+    exports = require(entryPath);
+  } catch (error) {
+    throw new ModuleLoadError(
+      `Cannot load module entry ${entryPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  
+  const ModuleClass = exports[exportName];
+  
+  if (typeof ModuleClass !== 'function') {
+    throw new ModuleLoadError(
+      `Module entry ${entryPath} has no "${exportName}" export; export the module class as default or name it in ${MODULE_MANIFEST_FILE}`
+    );
+  }
+  
+  const module: IMCPModule = new ModuleClass();
+  
+  if (!module.meta || !module.meta.name || typeof module.initialize !== 'function') {
+    throw new ModuleLoadError(`Export "${exportName}" of ${entryPath} is not an MCP module`);
+  }
+  
+  return module;
+}
+
+/**
+ * A module that could not be loaded
+ */
+export interface ModuleLoadFailure {
+  candidate: ModuleCandidate;
+  error: ModuleLoadError;
+}
+
+/**
+ * Order modules so that every module comes after its dependencies
+ *
+ * Dependencies may be satisfied by the candidates themselves or by modules
+ * that are already loaded.
+ * @param candidates Modules to order
+ * @param loaded Names of modules that are already loaded
+ * @returns The ordered candidates, and the candidates that cannot be loaded
+ */
+export function sortByDependencies(
+  candidates: ModuleCandidate[],
+  loaded: Set<string> = new Set()
+): { ordered: ModuleCandidate[]; failures: ModuleLoadFailure[] } {
+  const byName = new Map<string, ModuleCandidate>();
+  const failures: ModuleLoadFailure[] = [];
+  const failed = new Set<string>();
+  
+  const fail = (name: string, message: string) => {
+    if (!failed.has(name)) {
+      failed.add(name);
+      failures.push({ candidate: byName.get(name)!, error: new ModuleLoadError(message) });
+    }
+  };
+  
+  for (const candidate of candidates) {
+    const name = candidate.module.meta.name;
+    
+    if (byName.has(name) || loaded.has(name)) {
+      failures.push({
+        candidate,
+        error: new ModuleLoadError(`Duplicate module ${name} at ${candidate.path}`),
+      });
+      continue;
+    }
+    
+    byName.set(name, candidate);
+  }
+  
+  const ordered: ModuleCandidate[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  
+  // Depth-first visit, returns false if the module cannot be loaded
+  const visit = (name: string, trail: string[]): boolean => {
+    if (loaded.has(name)) {
+      return true;
+    }
+    
+    if (state.get(name) === 'done') {
+      return !failed.has(name);
+    }
+    
+    if (state.get(name) === 'visiting') {
+      const members = trail.slice(trail.indexOf(name));
+      const cycle = [...members, name].join(' -> ');
+      
+      for (const member of members) {
+        fail(member, `Circular module dependency: ${cycle}`);
+      }
+      
+      return false;
+    }
+    
+    const candidate = byName.get(name)!;
+    state.set(name, 'visiting');
+    
+    for (const dependency of candidate.module.meta.dependencies || []) {
+      if (!byName.has(dependency) && !loaded.has(dependency)) {
+        fail(name, `Module ${name} depends on missing module ${dependency}`);
+      } else if (!visit(dependency, [...trail, name])) {
+        fail(name, `Module ${name} depends on module ${dependency}, which cannot be loaded`);
+      }
+    }
+    
+    state.set(name, 'done');
+    
+    if (failed.has(name)) {
+      return false;
+    }
+    
+    ordered.push(candidate);
+    return true;
+  };
+  
+  for (const name of byName.keys()) {
+    visit(name, []);
+  }
+  
+  return { ordered, failures };
+} 
+
+/**
+ * Remove the files of a module directory from the require cache
+ *
+ * The next instantiateModule() of the directory then reads the current code.
+ * @param modulePath Path to the module directory
+ */
+export function clearModuleCache(modulePath: string): void {
+  const prefix = path.resolve(modulePath) + path.sep;
+  
+  for (const file of Object.keys(require.cache)) {
+    if (file.startsWith(prefix)) {
+      delete require.cache[file];
+    }
+  }
+}
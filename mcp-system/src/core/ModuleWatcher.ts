@@ -0,0 +1,122 @@
+import fs, { FSWatcher } from 'fs';
+import logger from '../utils/logger';
+
+/**
+ * Reloads a module by name
+ */
+export type ModuleReloader = (moduleName: string) => Promise<unknown>;
+
+/**
+ * Module watcher options
+ */
+export interface ModuleWatcherOptions {
+  /** Milliseconds without changes before a module is reloaded */
+  debounce: number;
+  reload: ModuleReloader;
+}
+
+/**
+ * Watches module directories and reloads a module when its files change
+ *
+ * Changes are debounced, since editors and compilers write several files at
+ * once. Changes made while a module is reloading trigger one more reload
+ * once it has finished.
+ */
+export class ModuleWatcher {
+  private options: ModuleWatcherOptions;
+  private watchers: Map<string, FSWatcher> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private reloading: Set<string> = new Set();
+  private pending: Set<string> = new Set();
+  
+  /**
+   * Create a new module watcher
+   * @param options Module watcher options
+   */
+  constructor(options: ModuleWatcherOptions) {
+    this.options = options;
+  }
+  
+  /**
+   * Start watching a module directory
+   * @param moduleName Name of the module
+   * @param modulePath Path to the module directory
+   */
+  public watch(moduleName: string, modulePath: string): void {
+    this.unwatch(moduleName);
+    
+    try {
+      const watcher = fs.watch(modulePath, { recursive: true }, () => this.schedule(moduleName));
+      
+      watcher.on('error', (error) => {
+        logger.error(`Stopped watching module ${moduleName}`, { error, path: modulePath });
+        this.unwatch(moduleName);
+      });
+      
+      this.watchers.set(moduleName, watcher);
+      logger.debug(`Watching module ${moduleName} in ${modulePath}`);
+    } catch (error) {
+      logger.error(`Cannot watch module ${moduleName}`, { error, path: modulePath });
+    }
+  }
+  
+  /**
+   * Stop watching a module directory
+   * @param moduleName Name of the module
+   */
+  public unwatch(moduleName: string): void {
+    this.watchers.get(moduleName)?.close();
+    this.watchers.delete(moduleName);
+    
+    clearTimeout(this.timers.get(moduleName));
+    this.timers.delete(moduleName);
+    this.pending.delete(moduleName);
+  }
+  
+  /**
+   * Stop watching all module directories
+   */
+  public close(): void {
+    for (const moduleName of Array.from(this.watchers.keys())) {
+      this.unwatch(moduleName);
+    }
+  }
+  
+  /**
+   * Reload a module once its files stop changing
+   * @param moduleName Name of the module
+   */
+  private schedule(moduleName: string): void {
+    clearTimeout(this.timers.get(moduleName));
+    
+    this.timers.set(moduleName, setTimeout(() => {
+      this.timers.delete(moduleName);
+      this.reload(moduleName);
+    }, this.options.debounce));
+  }
+  
+  /**
+   * Reload a module, or mark it for another reload if one is running
+   * @param moduleName Name of the module
+   */
+  private async reload(moduleName: string): Promise<void> {
+    if (this.reloading.has(moduleName)) {
+      this.pending.add(moduleName);
+      return;
+    }
+    
+    this.reloading.add(moduleName);
+    
+    try {
+      await this.options.reload(moduleName);
+    } catch {
+      // Already logged by the reloader, the previous version stays loaded
+    } finally {
+      this.reloading.delete(moduleName);
+    }
+    
+    if (this.pending.delete(moduleName) && this.watchers.has(moduleName)) {
+      await this.reload(moduleName);
+    }
+  }
+} 
\ No newline at end of file
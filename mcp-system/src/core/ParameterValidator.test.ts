@@ -0,0 +1,98 @@
+import path from 'path';
+import { IMCPCommandParameter } from '../interfaces/IMCPCommand';
+import { createCommandContext } from '../utils/context';
+import { validateParameters } from './ParameterValidator';
+
+/**
+ * Build a parameter declaration
+ * @param name Parameter name
+ * @param type Parameter type
+ * @param options Further metadata
+ */
+function parameter(
+  name: string,
+  type: IMCPCommandParameter['type'],
+  options: Partial<IMCPCommandParameter> = {}
+): IMCPCommandParameter {
+  return { name, description: name, type, required: false, ...options };
+}
+
+describe('validateParameters', () => {
+  it('coerces strings from the command line to the declared types', () => {
+    const result = validateParameters(
+      [
+        parameter('count', 'number'),
+        parameter('force', 'boolean'),
+        parameter('quiet', 'boolean'),
+        parameter('name', 'string'),
+        parameter('tags', 'array'),
+        parameter('options', 'object'),
+      ],
+      { count: '42', force: 'true', quiet: 0, name: 7, tags: '["a","b"]', options: '{"deep":true}' }
+    );
+    
+    expect(result.valid).toBe(true);
+    expect(result.params).toEqual({
+      count: 42,
+      force: true,
+      quiet: false,
+      name: '7',
+      tags: ['a', 'b'],
+      options: { deep: true },
+    });
+  });
+  
+  it('wraps a single value of an array parameter', () => {
+    expect(validateParameters([parameter('scopes', 'array')], { scopes: 'fs:read' }).params.scopes).toEqual(['fs:read']);
+  });
+  
+  it('matches enum values as strings', () => {
+    const values = validateParameters([parameter('level', 'enum', { values: ['1', '2'] })], { level: 2 });
+    
+    expect(values.params.level).toBe('2');
+    expect(validateParameters([parameter('level', 'enum', { values: ['1', '2'] })], { level: 3 }).errors).toEqual([
+      { field: 'level', message: 'must be one of: 1, 2' },
+    ]);
+  });
+  
+  it('resolves paths against the working directory of the context', () => {
+    const context = createCommandContext({ workingDirectory: '/srv/project' });
+    const result = validateParameters([parameter('file', 'path')], { file: 'notes.txt' }, context);
+    
+    expect(result.params.file).toBe(path.resolve('/srv/project', 'notes.txt'));
+  });
+  
+  it('applies defaults and reports missing required parameters', () => {
+    const result = validateParameters(
+      [parameter('limit', 'number', { default: 20 }), parameter('id', 'string', { required: true })],
+      { id: '' }
+    );
+    
+    expect(result.valid).toBe(false);
+    expect(result.params.limit).toBe(20);
+    expect(result.errors).toEqual([{ field: 'id', message: 'is required' }]);
+  });
+  
+  it('reports values that cannot be coerced or break constraints', () => {
+    const result = validateParameters(
+      [
+        parameter('count', 'number', { min: 1 }),
+        parameter('ratio', 'number'),
+        parameter('name', 'string', { pattern: '^[a-z]+$' }),
+        parameter('tags', 'array', { max: 1 }),
+      ],
+      { count: 0, ratio: 'half', name: 'Bad', tags: ['a', 'b'] }
+    );
+    
+    expect(result.errors).toEqual([
+      { field: 'count', message: 'must be at least 1' },
+      { field: 'ratio', message: 'must be a number' },
+      { field: 'name', message: 'must match pattern ^[a-z]+$' },
+      { field: 'tags', message: 'must be at most 1 items' },
+    ]);
+  });
+  
+  it('passes undeclared parameters through unchanged', () => {
+    expect(validateParameters([], { extra: '1' }).params).toEqual({ extra: '1' });
+  });
+}); 
\ No newline at end of file
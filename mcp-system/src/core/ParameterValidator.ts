@@ -0,0 +1,265 @@
+import path from 'path';
+import {
+  IMCPCommand,
+  IMCPCommandContext,
+  IMCPCommandParameter,
+  IMCPCommandParams,
+  IMCPValidationError,
+} from '../interfaces/IMCPCommand';
+
+/**
+ * Result of validating command parameters
+ */
+export interface ParameterValidationResult {
+  valid: boolean;
+  params: IMCPCommandParams;
+  errors: IMCPValidationError[];
+}
+
+/**
+ * Coerce a value to a number
+ * @param value Value to coerce
+ */
+function toNumber(value: any): number | undefined {
+  if (typeof value === 'number' && !Number.isNaN(value)) {
+    return value;
+  }
+  
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  
+  return undefined;
+}
+
+/**
+ * Coerce a value to a boolean
+ * @param value Value to coerce
+ */
+function toBoolean(value: any): boolean | undefined {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  
+  if (value === 'true' || value === '1' || value === 1) {
+    return true;
+  }
+  
+  if (value === 'false' || value === '0' || value === 0) {
+    return false;
+  }
+  
+  return undefined;
+}
+
+/**
+ * Parse a JSON string if it decodes to the expected kind of value
+ * @param value Value to parse
+ * @param isExpected Check for the decoded value
+ */
+function fromJson(value: any, isExpected: (decoded: any) => boolean): any {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  
+  try {
+    const decoded = JSON.parse(value);
+    return isExpected(decoded) ? decoded : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check that a value is a plain object
+ * @param value Value to check
+ */
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Coerce a value to the declared parameter type
+ * @param parameter Parameter metadata
+ * @param value Value to coerce
+ * @param context Command execution context
+ * @returns The coerced value, or an error message
+ */
+function coerce(
+  parameter: IMCPCommandParameter,
+  value: any,
+  context?: IMCPCommandContext
+): { value?: any; error?: string } {
+  switch (parameter.type) {
+    case 'string':
+      if (typeof value === 'string') {
+        return { value };
+      }
+      
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        return { value: String(value) };
+      }
+      
+      return { error: 'must be a string' };
+    
+    case 'path':
+      if (typeof value !== 'string' || value.length === 0) {
+        return { error: 'must be a non-empty path' };
+      }
+      
+      // Relative paths are resolved against the caller's working directory
+      return { value: context ? path.resolve(context.workingDirectory, value) : value };
+    
+    case 'number': {
+      const number = toNumber(value);
+      return number === undefined ? { error: 'must be a number' } : { value: number };
+    }
+    
+    case 'boolean': {
+      const boolean = toBoolean(value);
+      return boolean === undefined ? { error: 'must be a boolean' } : { value: boolean };
+    }
+    
+    case 'array':
+      if (Array.isArray(value)) {
+        return { value };
+      }
+      
+      // A JSON-encoded array, or a single value standing for a one-element array
+      return { value: fromJson(value, Array.isArray) ?? [value] };
+    
+    case 'object': {
+      if (isPlainObject(value)) {
+        return { value };
+      }
+      
+      const object = fromJson(value, isPlainObject);
+      return object === undefined ? { error: 'must be an object' } : { value: object };
+    }
+    
+    case 'enum': {
+      const values = parameter.values || [];
+      // Values from the command line may arrive typed, compare them as strings too
+      const match = values.find((allowed) => allowed === value || String(allowed) === String(value));
+      
+      return match === undefined
+        ? { error: `must be one of: ${values.map(String).join(', ')}` }
+        : { value: match };
+    }
+    
+    default:
+      return { value };
+  }
+}
+
+/**
+ * Check min, max and pattern constraints on a coerced value
+ * @param parameter Parameter metadata
+ * @param value Coerced value
+ * @returns An error message, or undefined if the value satisfies the constraints
+ */
+function checkConstraints(parameter: IMCPCommandParameter, value: any): string | undefined {
+  const isNumber = typeof value === 'number';
+  const size = isNumber ? value : value?.length;
+  const unit = isNumber ? '' : Array.isArray(value) ? ' items' : ' characters';
+  
+  if (typeof size === 'number') {
+    if (parameter.min !== undefined && size < parameter.min) {
+      return `must be at least ${parameter.min}${unit}`;
+    }
+    
+    if (parameter.max !== undefined && size > parameter.max) {
+      return `must be at most ${parameter.max}${unit}`;
+    }
+  }
+  
+  if (parameter.pattern && typeof value === 'string' && !new RegExp(parameter.pattern).test(value)) {
+    return `must match pattern ${parameter.pattern}`;
+  }
+  
+  return undefined;
+}
+
+/**
+ * Validate and coerce parameters against the declared parameter metadata
+ *
+ * Missing optional parameters receive their defaults. Parameters that are not
+ * declared are passed through unchanged.
+ * @param parameters Declared parameters
+ * @param params Command parameters
+ * @param context Command execution context, used to resolve paths
+ */
+export function validateParameters(
+  parameters: IMCPCommandParameter[],
+  params: IMCPCommandParams,
+  context?: IMCPCommandContext
+): ParameterValidationResult {
+  const coerced: IMCPCommandParams = { ...params };
+  const errors: IMCPValidationError[] = [];
+  
+  for (const parameter of parameters) {
+    const value = params[parameter.name];
+    
+    if (value === undefined || value === null || value === '') {
+      if (parameter.default !== undefined) {
+        coerced[parameter.name] = parameter.default;
+      } else if (parameter.required) {
+        errors.push({ field: parameter.name, message: 'is required' });
+      }
+      
+      continue;
+    }
+    
+    const result = coerce(parameter, value, context);
+    
+    if (result.error) {
+      errors.push({ field: parameter.name, message: result.error });
+      continue;
+    }
+    
+    const constraintError = checkConstraints(parameter, result.value);
+    
+    if (constraintError) {
+      errors.push({ field: parameter.name, message: constraintError });
+      continue;
+    }
+    
+    coerced[parameter.name] = result.value;
+  }
+  
+  return { valid: errors.length === 0, params: coerced, errors };
+}
+
+/**
+ * Validate parameters for a command
+ *
+ * Runs the schema validation from the command metadata first, then the
+ * command's own validate() method as an extra check on the coerced parameters.
+ * @param command Command to validate for
+ * @param params Command parameters
+ * @param context Command execution context
+ */
+export function validateCommandParams(
+  command: IMCPCommand,
+  params: IMCPCommandParams,
+  context?: IMCPCommandContext
+): ParameterValidationResult {
+  const result = validateParameters(command.meta.parameters || [], params, context);
+  
+  if (result.valid && command.validate && !command.validate(result.params)) {
+    result.valid = false;
+    result.errors.push({ field: '*', message: `rejected by ${command.meta.name} validation` });
+  }
+  
+  return result;
+}
+
+/**
+ * Format validation errors into a single message
+ * @param commandName Name of the command
+ * @param errors Validation errors
+ */
+export function formatValidationErrors(commandName: string, errors: IMCPValidationError[]): string {
+  const details = errors.map((error) => `${error.field} ${error.message}`).join('; ');
+  return `Invalid parameters for command ${commandName}: ${details}`;
+} 
\ No newline at end of file
@@ -0,0 +1,129 @@
+/**
+ * Error raised when a path expression is malformed or cannot be resolved
+ */
+export class PathExpressionError extends Error {
+  /**
+   * Create a new path expression error
+   * @param message Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'PathExpressionError';
+  }
+}
+
+/**
+ * A parsed reference to (part of) the previous pipeline step's result data
+ *
+ * Written as `$`, `$.content` or `$.files[0].name`.
+ */
+export class PathReference {
+  /**
+   * Expression as written, e.g. `$.data.content`
+   */
+  public expression: string;
+  
+  /**
+   * Property names and array indices to follow, in order
+   */
+  public segments: (string | number)[];
+  
+  /**
+   * Create a new path reference
+   * @param expression Expression as written
+   * @param segments Property names and array indices to follow
+   */
+  constructor(expression: string, segments: (string | number)[]) {
+    this.expression = expression;
+    this.segments = segments;
+  }
+}
+
+/**
+ * Check whether a string looks like a path expression
+ * @param value Value to check
+ */
+export function isPathExpression(value: string): boolean {
+  return value === '$' || value.startsWith('$.') || value.startsWith('$[');
+}
+
+/**
+ * Parse a path expression
+ * @param expression Expression starting with `$`
+ */
+export function parsePathExpression(expression: string): PathReference {
+  if (!isPathExpression(expression)) {
+    throw new PathExpressionError(`Path expression ${expression} must start with $`);
+  }
+  
+  const segments: (string | number)[] = [];
+  let i = 1;
+  
+  while (i < expression.length) {
+    if (expression[i] === '.') {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$-]*/.exec(expression.slice(i + 1));
+      
+      if (!match) {
+        throw new PathExpressionError(`Expected a property name after "." in ${expression}`);
+      }
+      
+      segments.push(match[0]);
+      i += 1 + match[0].length;
+    } else if (expression[i] === '[') {
+      const match = /^\[(\d+)\]/.exec(expression.slice(i));
+      
+      if (!match) {
+        throw new PathExpressionError(`Expected an array index inside [] in ${expression}`);
+      }
+      
+      segments.push(parseInt(match[1], 10));
+      i += match[0].length;
+    } else {
+      throw new PathExpressionError(`Unexpected "${expression[i]}" in ${expression}`);
+    }
+  }
+  
+  return new PathReference(expression, segments);
+}
+
+/**
+ * Resolve a path reference against a value
+ * @param reference Path reference
+ * @param root Value that `$` refers to
+ */
+export function resolvePathReference(reference: PathReference, root: any): any {
+  let value = root;
+  
+  for (const segment of reference.segments) {
+    if (value === null || value === undefined || !(segment in Object(value))) {
+      throw new PathExpressionError(`Path ${reference.expression} does not exist`);
+    }
+    
+    value = value[segment];
+  }
+  
+  return value;
+}
+
+/**
+ * Replace every path reference in a set of parameters with its value
+ * @param params Parameters, possibly containing path references (also inside arrays)
+ * @param root Value that `$` refers to
+ */
+export function resolvePathReferences<T extends Record<string, any>>(params: T, root: any): T {
+  const resolve = (value: any): any => {
+    if (value instanceof PathReference) {
+      return resolvePathReference(value, root);
+    }
+    
+    return Array.isArray(value) ? value.map(resolve) : value;
+  };
+  
+  const resolved: Record<string, any> = {};
+  
+  for (const [key, value] of Object.entries(params)) {
+    resolved[key] = resolve(value);
+  }
+  
+  return resolved as T;
+} 
\ No newline at end of file
@@ -0,0 +1,187 @@
+import fs from 'fs-extra';
+import path from 'path';
+import semver from 'semver';
+import { IMCPPlugin, IMCPPluginManifest } from '../interfaces/IMCPPlugin';
+
+/**
+ * Name of the plugin manifest file in a plugin directory
+ */
+export const PLUGIN_MANIFEST_FILE = 'plugin.json';
+
+/**
+ * A plugin that has been resolved and instantiated but not yet initialized
+ */
+export interface PluginCandidate {
+  path: string;
+  manifest: IMCPPluginManifest;
+  plugin: IMCPPlugin;
+}
+
+/**
+ * Error raised when a plugin cannot be resolved, instantiated or initialized
+ */
+export class PluginLoadError extends Error {
+  /**
+   * Create a new plugin load error
+   * @param message Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'PluginLoadError';
+  }
+}
+
+/**
+ * Find plugin directories in the plugins directory
+ * @param directory Directory containing one subdirectory per plugin
+ */
+export async function discoverPluginPaths(directory: string): Promise<string[]> {
+  if (!await fs.pathExists(directory)) {
+    return [];
+  }
+  
+  const pluginPaths: string[] = [];
+  
+  for (const entry of (await fs.readdir(directory)).sort()) {
+    const pluginPath = path.join(directory, entry);
+    
+    if ((await fs.stat(pluginPath)).isDirectory()) {
+      pluginPaths.push(pluginPath);
+    }
+  }
+  
+  return pluginPaths;
+}
+
+/**
+ * Resolve a plugin specifier to a directory
+ *
+ * The specifier is either a path to the plugin directory or the name of an
+ * installed npm package.
+ * @param specifier Plugin path or package name
+ */
+export async function resolvePluginPath(specifier: string): Promise<string> {
+  const candidatePath = path.resolve(specifier);
+  
+  if (await fs.pathExists(candidatePath)) {
+    return candidatePath;
+  }
+  
+  try {
+    return path.dirname(require.resolve(`${specifier}/package.json`, { paths: [process.cwd()] }));
+  } catch {
+    throw new PluginLoadError(`Plugin ${specifier} is neither a directory nor an installed package`);
+  }
+}
+
+/**
+ * Read and check the manifest of a plugin directory
+ * @param pluginPath Path to the plugin directory
+ */
+export async function readPluginManifest(pluginPath: string): Promise<IMCPPluginManifest> {
+  const manifestPath = path.join(pluginPath, PLUGIN_MANIFEST_FILE);
+  const packagePath = path.join(pluginPath, 'package.json');
+  let manifest: Partial<IMCPPluginManifest> | undefined;
+  
+  try {
+    if (await fs.pathExists(manifestPath)) {
+      manifest = await fs.readJSON(manifestPath);
+    } else if (await fs.pathExists(packagePath)) {
+      const pkg = await fs.readJSON(packagePath);
+      
+      if (pkg.mcpPlugin) {
+        manifest = { name: pkg.name, version: pkg.version, main: pkg.main, ...pkg.mcpPlugin };
+      }
+    }
+  } catch (error) {
+    throw new PluginLoadError(
+      `Invalid plugin manifest in ${pluginPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  
+  if (!manifest) {
+    throw new PluginLoadError(
+      `${pluginPath} is not an MCP plugin: no ${PLUGIN_MANIFEST_FILE} or "mcpPlugin" field in package.json`
+    );
+  }
+  
+  for (const field of ['name', 'version', 'mcpVersion'] as const) {
+    if (typeof manifest[field] !== 'string' || manifest[field]!.length === 0) {
+      throw new PluginLoadError(`Plugin manifest in ${pluginPath} is missing "${field}"`);
+    }
+  }
+  
+  if (manifest.permissions !== undefined && !Array.isArray(manifest.permissions)) {
+    throw new PluginLoadError(`Plugin manifest in ${pluginPath} has invalid "permissions", expected an array`);
+  }
+  
+  return manifest as IMCPPluginManifest;
+}
+
+/**
+ * Check that a plugin supports the running MCP version
+ * @param manifest Plugin manifest
+ * @param mcpVersion Running MCP version
+ */
+export function checkPluginCompatibility(manifest: IMCPPluginManifest, mcpVersion: string): void {
+  if (!semver.validRange(manifest.mcpVersion)) {
+    throw new PluginLoadError(`Plugin ${manifest.name} has an invalid mcpVersion range "${manifest.mcpVersion}"`);
+  }
+  
+  if (!semver.satisfies(mcpVersion, manifest.mcpVersion)) {
+    throw new PluginLoadError(
+      `Plugin ${manifest.name}@${manifest.version} requires MCP ${manifest.mcpVersion}, running ${mcpVersion}`
+    );
+  }
+}
+
+/**
+ * Check that every permission a plugin needs has been granted
+ * @param manifest Plugin manifest
+ * @param granted Permissions granted to the plugin
+ */
+export function checkPluginPermissions(manifest: IMCPPluginManifest, granted: string[]): void {
+  const missing = (manifest.permissions || []).filter((permission) => !granted.includes(permission));
+  
+  if (missing.length > 0) {
+    throw new PluginLoadError(
+      `Plugin ${manifest.name} needs permissions that have not been granted: ${missing.join(', ')}`
+    );
+  }
+}
+
+/**
+ * Load and instantiate the plugin class from a plugin directory
+ * @param pluginPath Path to the plugin directory
+ * @param manifest Plugin manifest
+ */
+export function instantiatePlugin(pluginPath: string, manifest: IMCPPluginManifest): IMCPPlugin {
+  const entryPath = path.resolve(pluginPath, manifest.main || 'index');
+  const exportName = manifest.export || 'default';
+  
+  let exports: any;
+  
+  try {
+    exports = require(entryPath);
+  } catch (error) {
+    throw new PluginLoadError(
+      `Cannot load plugin entry ${entryPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  
+  const PluginClass = exports[exportName];
+  
+  if (typeof PluginClass !== 'function') {
+    throw new PluginLoadError(`Plugin entry ${entryPath} has no "${exportName}" export`);
+  }
+  
+  const plugin: IMCPPlugin = new PluginClass();
+  
+  for (const method of ['initialize', 'unload', 'getProvidedModules', 'handleEvent'] as const) {
+    if (typeof plugin[method] !== 'function') {
+      throw new PluginLoadError(`Plugin ${manifest.name} does not implement ${method}()`);
+    }
+  }
+  
+  return plugin;
+} 
\ No newline at end of file
@@ -0,0 +1,109 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { IMCPRateLimitConfig } from '../interfaces/IMCPRateLimit';
+import { RateLimiter } from './RateLimiter';
+
+describe('RateLimiter', () => {
+  const start = Date.UTC(2024, 4, 1, 12, 0, 0);
+  let directory: string;
+  let file: string;
+  let now: number;
+  
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-limits-'));
+    file = path.join(directory, 'quotas.json');
+    now = start;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(directory);
+  });
+  
+  /**
+   * Create and load a rate limiter on the test quota file
+   * @param config Rate limit rules
+   */
+  async function createLimiter(config: IMCPRateLimitConfig): Promise<RateLimiter> {
+    const limiter = new RateLimiter({ file, config, resolveUsername: (userId) => (userId === 'u1' ? 'alice' : undefined) });
+    await limiter.load();
+    return limiter;
+  }
+  
+  it('allows a burst, then refills the bucket over time', async () => {
+    const limiter = await createLimiter({ default: { perMinute: 6, burst: 2 } });
+    
+    expect(limiter.consume('fs', 'readFile', 'u1').allowed).toBe(true);
+    expect(limiter.consume('fs', 'readFile', 'u1').allowed).toBe(true);
+    expect(limiter.consume('fs', 'readFile', 'u1')).toEqual({ allowed: false, retryAfter: 10, reason: '6 per minute (default)' });
+    
+    now += 10 * 1000;
+    
+    expect(limiter.consume('fs', 'readFile', 'u1').allowed).toBe(true);
+    expect(limiter.consume('fs', 'readFile', 'u1').allowed).toBe(false);
+  });
+  
+  it('counts each caller separately', async () => {
+    const limiter = await createLimiter({ default: { perMinute: 1 } });
+    
+    expect(limiter.consume('fs', 'readFile', 'u1').allowed).toBe(true);
+    expect(limiter.consume('fs', 'readFile', 'u2').allowed).toBe(true);
+    expect(limiter.consume('fs', 'readFile').allowed).toBe(true);
+    expect(limiter.consume('fs', 'readFile').allowed).toBe(false);
+  });
+  
+  it('enforces daily quotas until the next UTC day, also after a restart', async () => {
+    const limiter = await createLimiter({ commands: { 'ai.claude': { perDay: 2 } } });
+    
+    expect(limiter.consume('ai', 'claude', 'u1').allowed).toBe(true);
+    expect(limiter.consume('ai', 'claude', 'u1').allowed).toBe(true);
+    expect(limiter.consume('ai', 'claude', 'u1')).toEqual({
+      allowed: false,
+      retryAfter: 12 * 60 * 60,
+      reason: '2 per day (command:ai.claude)',
+    });
+    expect(limiter.consume('fs', 'readFile', 'u1').allowed).toBe(true);
+    
+    await limiter.flush();
+    const restarted = await createLimiter({ commands: { 'ai.claude': { perDay: 2 } } });
+    
+    expect(restarted.status('u1', 'ai', 'claude')[0].perDay).toEqual({ limit: 2, remaining: 0, resetsAt: Date.UTC(2024, 4, 2) });
+    expect(restarted.consume('ai', 'claude', 'u1').allowed).toBe(false);
+    
+    now = Date.UTC(2024, 4, 2);
+    
+    expect(restarted.consume('ai', 'claude', 'u1').allowed).toBe(true);
+  });
+  
+  it('consumes nothing when one of the matching rules rejects', async () => {
+    const limiter = await createLimiter({ default: { perDay: 10 }, users: { alice: { perMinute: 1 } } });
+    
+    expect(limiter.consume('fs', 'readFile', 'u1').allowed).toBe(true);
+    expect(limiter.consume('fs', 'readFile', 'u1')).toMatchObject({ allowed: false, reason: '1 per minute (user:alice)' });
+    expect(limiter.status('u1').find((status) => status.scope === 'default')!.perDay!.remaining).toBe(9);
+  });
+  
+  it('limits an API key on top of its user', async () => {
+    const limiter = await createLimiter({ apiKeys: { mcp_1a2b3c4d: { perMinute: 1 } } });
+    
+    expect(limiter.consume('fs', 'readFile', 'u1', 'mcp_1a2b3c4d').allowed).toBe(true);
+    expect(limiter.consume('fs', 'readFile', 'u1', 'mcp_1a2b3c4d')).toMatchObject({
+      allowed: false,
+      reason: '1 per minute (apiKey:mcp_1a2b3c4d)',
+    });
+    expect(limiter.consume('fs', 'readFile', 'u1').allowed).toBe(true);
+    expect(limiter.status('u1', undefined, undefined, 'mcp_1a2b3c4d').map((status) => status.scope)).toEqual(['apiKey:mcp_1a2b3c4d']);
+  });
+  
+  it('reports only the rules of the given module', async () => {
+    const limiter = await createLimiter({
+      default: { perMinute: 60 },
+      modules: { web: { perMinute: 10 } },
+      commands: { 'ai.claude': { perDay: 100 } },
+    });
+    
+    expect(limiter.status('u1', 'web').map((status) => status.scope)).toEqual(['default', 'module:web']);
+  });
+}); 
\ No newline at end of file
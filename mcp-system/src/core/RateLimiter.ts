@@ -0,0 +1,411 @@
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  IMCPAllowance,
+  IMCPRateLimitConfig,
+  IMCPRateLimitDecision,
+  IMCPRateLimitRule,
+  IMCPRateLimitStatus,
+  IMCPRateLimiter,
+} from '../interfaces/IMCPRateLimit';
+import logger from '../utils/logger';
+
+/**
+ * Milliseconds to wait before writing changed quotas to disk
+ */
+const QUOTA_SAVE_DELAY = 1000;
+
+/**
+ * Subject of callers without a user id
+ */
+const ANONYMOUS = 'anonymous';
+
+/**
+ * Rate limiter options
+ */
+export interface RateLimiterOptions {
+  /** File the daily and monthly quota counts are kept in */
+  file: string;
+  /** Rate limit rules */
+  config: IMCPRateLimitConfig;
+  /** Look up the username of a user id, to match the `users` rules */
+  resolveUsername: (userId: string) => string | undefined;
+}
+
+/**
+ * Rule matching an execution
+ */
+interface MatchedRule {
+  scope: string;
+  rule: IMCPRateLimitRule;
+}
+
+/**
+ * Token bucket of a per-minute limit
+ */
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Quota counts for the current UTC day and month
+ */
+interface QuotaCount {
+  day: string;
+  dayCount: number;
+  month: string;
+  monthCount: number;
+}
+
+/**
+ * Get the UTC day of a time, e.g. `2024-05-01`
+ * @param time Milliseconds since the epoch
+ */
+function dayOf(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Get the UTC month of a time, e.g. `2024-05`
+ * @param time Milliseconds since the epoch
+ */
+function monthOf(time: number): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
+
+/**
+ * Get the start of the next UTC day
+ * @param time Milliseconds since the epoch
+ */
+function nextDay(time: number): number {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Get the start of the next UTC month
+ * @param time Milliseconds since the epoch
+ */
+function nextMonth(time: number): number {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+/**
+ * Token-bucket rate limits and daily and monthly quotas per caller
+ *
+ * Token buckets live in memory and are full again after a restart. Quota
+ * counts are written to disk shortly after they change and on flush().
+ */
+export class RateLimiter implements IMCPRateLimiter {
+  private options: RateLimiterOptions;
+  private buckets: Map<string, TokenBucket> = new Map();
+  private quotas: Map<string, QuotaCount> = new Map();
+  private saveTimer?: NodeJS.Timeout;
+  /** Whether quota counts changed since they were last written */
+  private dirty: boolean = false;
+  
+  /**
+   * Create a new rate limiter
+   * @param options Rate limiter options
+   */
+  constructor(options: RateLimiterOptions) {
+    this.options = options;
+  }
+  
+  /**
+   * Load the quota counts from disk
+   */
+  public async load(): Promise<void> {
+    if (!await fs.pathExists(this.options.file)) {
+      return;
+    }
+    
+    try {
+      const data = await fs.readJSON(this.options.file);
+      this.quotas = new Map(Object.entries(data.quotas || {}));
+    } catch (error) {
+      logger.error(`Failed to load quotas from ${this.options.file}, starting from zero`, { error });
+    }
+  }
+  
+  /**
+   * Count a command execution against every matching rule, unless one of them rejects it
+   * @param moduleName Name of the module
+   * @param commandName Name of the command
+   * @param userId Id of the caller, anonymous callers share one allowance
+   * @param apiKey Prefix of the API key the caller authenticated with
+   */
+  public consume(moduleName: string, commandName: string, userId?: string, apiKey?: string): IMCPRateLimitDecision {
+    const now = Date.now();
+    const subject = userId || ANONYMOUS;
+    const matched = this.matchRules(moduleName, commandName, userId, apiKey);
+    let rejection: IMCPRateLimitDecision | undefined;
+    
+    // Check every rule first, so a rejected execution consumes nothing
+    for (const { scope, rule } of matched) {
+      const key = `${scope}|${subject}`;
+      const waits: [number, string][] = [];
+      
+      if (rule.perMinute !== undefined) {
+        const bucket = this.refill(key, rule, now);
+        
+        if (bucket.tokens < 1) {
+          waits.push([((1 - bucket.tokens) * 60000) / rule.perMinute, `${rule.perMinute} per minute`]);
+        }
+      }
+      
+      const quota = this.getQuota(key, now);
+      
+      if (rule.perDay !== undefined && quota.dayCount >= rule.perDay) {
+        waits.push([nextDay(now) - now, `${rule.perDay} per day`]);
+      }
+      
+      if (rule.perMonth !== undefined && quota.monthCount >= rule.perMonth) {
+        waits.push([nextMonth(now) - now, `${rule.perMonth} per month`]);
+      }
+      
+      for (const [wait, limit] of waits) {
+        const retryAfter = Math.ceil(wait / 1000);
+        
+        if (!rejection || retryAfter > rejection.retryAfter!) {
+          rejection = { allowed: false, retryAfter, reason: `${limit} (${scope})` };
+        }
+      }
+    }
+    
+    if (rejection) {
+      return rejection;
+    }
+    
+    for (const { scope, rule } of matched) {
+      const key = `${scope}|${subject}`;
+      
+      if (rule.perMinute !== undefined) {
+        this.buckets.get(key)!.tokens -= 1;
+      }
+      
+      if (rule.perDay !== undefined || rule.perMonth !== undefined) {
+        const quota = this.getQuota(key, now);
+        quota.dayCount++;
+        quota.monthCount++;
+        this.quotas.set(key, quota);
+        this.dirty = true;
+        this.scheduleSave();
+      }
+    }
+    
+    return { allowed: true };
+  }
+  
+  /**
+   * Get the remaining allowance of a caller
+   * @param userId Id of the caller
+   * @param moduleName Only the rules for this module's commands
+   * @param commandName Only the rules for this command, with moduleName
+   * @param apiKey Prefix of the API key the caller authenticated with
+   */
+  public status(userId?: string, moduleName?: string, commandName?: string, apiKey?: string): IMCPRateLimitStatus[] {
+    const now = Date.now();
+    const subject = userId || ANONYMOUS;
+    let matched: MatchedRule[];
+    
+    if (moduleName && commandName) {
+      matched = this.matchRules(moduleName, commandName, userId, apiKey);
+    } else {
+      // Module and command rules of other modules do not apply
+      matched = this.allRules(userId, apiKey).filter(({ scope }) =>
+        !moduleName
+        || !(scope.startsWith('module:') || scope.startsWith('command:'))
+        || scope === `module:${moduleName}`
+        || scope.startsWith(`command:${moduleName}.`)
+      );
+    }
+    
+    return matched.map(({ scope, rule }) => {
+      const key = `${scope}|${subject}`;
+      const status: IMCPRateLimitStatus = { scope, rule };
+      
+      if (rule.perMinute !== undefined) {
+        const bucket = this.refill(key, rule, now);
+        const capacity = rule.burst ?? rule.perMinute;
+        
+        status.perMinute = {
+          limit: capacity,
+          remaining: Math.floor(bucket.tokens),
+          resetsAt: now + Math.ceil(((capacity - bucket.tokens) * 60000) / rule.perMinute),
+        };
+      }
+      
+      const quota = this.getQuota(key, now);
+      
+      if (rule.perDay !== undefined) {
+        status.perDay = this.allowance(rule.perDay, quota.dayCount, nextDay(now));
+      }
+      
+      if (rule.perMonth !== undefined) {
+        status.perMonth = this.allowance(rule.perMonth, quota.monthCount, nextMonth(now));
+      }
+      
+      return status;
+    });
+  }
+  
+  /**
+   * Build the allowance of a quota
+   * @param limit Quota limit
+   * @param used Executions counted in the current period
+   * @param resetsAt Start of the next period
+   */
+  private allowance(limit: number, used: number, resetsAt: number): IMCPAllowance {
+    return { limit, remaining: Math.max(0, limit - used), resetsAt };
+  }
+  
+  /**
+   * Get the rules that apply to an execution
+   * @param moduleName Name of the module
+   * @param commandName Name of the command
+   * @param userId Id of the caller
+   * @param apiKey Prefix of the API key the caller authenticated with
+   */
+  private matchRules(moduleName: string, commandName: string, userId?: string, apiKey?: string): MatchedRule[] {
+    const { config } = this.options;
+    const matched: MatchedRule[] = [];
+    const fullName = `${moduleName}.${commandName}`;
+    
+    if (config.default) {
+      matched.push({ scope: 'default', rule: config.default });
+    }
+    
+    if (config.commands?.[fullName]) {
+      matched.push({ scope: `command:${fullName}`, rule: config.commands[fullName] });
+    }
+    
+    if (config.modules?.[moduleName]) {
+      matched.push({ scope: `module:${moduleName}`, rule: config.modules[moduleName] });
+    }
+    
+    return [...matched, ...this.userRules(userId), ...this.apiKeyRules(apiKey)];
+  }
+  
+  /**
+   * Get every rule that can apply to a caller
+   * @param userId Id of the caller
+   * @param apiKey Prefix of the API key the caller authenticated with
+   */
+  private allRules(userId?: string, apiKey?: string): MatchedRule[] {
+    const { config } = this.options;
+    
+    return [
+      ...(config.default ? [{ scope: 'default', rule: config.default }] : []),
+      ...Object.entries(config.commands || {}).map(([name, rule]) => ({ scope: `command:${name}`, rule })),
+      ...Object.entries(config.modules || {}).map(([name, rule]) => ({ scope: `module:${name}`, rule })),
+      ...this.userRules(userId),
+      ...this.apiKeyRules(apiKey),
+    ];
+  }
+  
+  /**
+   * Get the rule of a user, by username or else by user id
+   * @param userId Id of the caller
+   */
+  private userRules(userId?: string): MatchedRule[] {
+    const users = this.options.config.users || {};
+    
+    if (!userId) {
+      return [];
+    }
+    
+    const username = this.options.resolveUsername(userId);
+    const name = username && users[username] ? username : userId;
+    
+    return users[name] ? [{ scope: `user:${name}`, rule: users[name] }] : [];
+  }
+  
+  /**
+   * Get the rule of an API key, which has its own allowance next to its user's
+   * @param apiKey Prefix of the API key the caller authenticated with
+   */
+  private apiKeyRules(apiKey?: string): MatchedRule[] {
+    const rule = apiKey ? this.options.config.apiKeys?.[apiKey] : undefined;
+    
+    return rule ? [{ scope: `apiKey:${apiKey}`, rule }] : [];
+  }
+  
+  /**
+   * Get the token bucket of a key, refilled up to now
+   * @param key Rule scope and subject
+   * @param rule Rule with a per-minute limit
+   * @param now Current time
+   */
+  private refill(key: string, rule: IMCPRateLimitRule, now: number): TokenBucket {
+    const capacity = rule.burst ?? rule.perMinute!;
+    let bucket = this.buckets.get(key);
+    
+    if (!bucket) {
+      bucket = { tokens: capacity, updatedAt: now };
+      this.buckets.set(key, bucket);
+    }
+    
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) * rule.perMinute!) / 60000);
+    bucket.updatedAt = now;
+    
+    return bucket;
+  }
+  
+  /**
+   * Get the quota counts of a key for the current day and month
+   * @param key Rule scope and subject
+   * @param now Current time
+   */
+  private getQuota(key: string, now: number): QuotaCount {
+    const day = dayOf(now);
+    const month = monthOf(now);
+    const quota = this.quotas.get(key);
+    
+    return {
+      day,
+      dayCount: quota?.day === day ? quota.dayCount : 0,
+      month,
+      monthCount: quota?.month === month ? quota.monthCount : 0,
+    };
+  }
+  
+  /**
+   * Write the quota counts to disk after a short delay
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    
+    this.saveTimer = setTimeout(() => {
+      this.flush().catch((error) => logger.error('Failed to save quotas', { error }));
+    }, QUOTA_SAVE_DELAY);
+    this.saveTimer.unref();
+  }
+  
+  /**
+   * Write changed quota counts of the current month to disk
+   */
+  public async flush(): Promise<void> {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+    
+    if (!this.dirty) {
+      return;
+    }
+    
+    this.dirty = false;
+    
+    const month = monthOf(Date.now());
+    const quotas = Object.fromEntries(Array.from(this.quotas).filter(([, quota]) => quota.month === month));
+    
+    await fs.ensureDir(path.dirname(this.options.file));
+    
+    const tempPath = `${this.options.file}.tmp`;
+    await fs.writeJSON(tempPath, { quotas });
+    await fs.move(tempPath, this.options.file, { overwrite: true });
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { IMCPCommandResult } from '../../interfaces/IMCPCommand';
+import { IMCPInvocation, IMCPMiddleware, MCPNextFunction } from '../../interfaces/IMCPMiddleware';
+import { IMCPJobQueue } from '../../interfaces/IMCPJob';
+
+/**
+ * Middleware that hands commands called with `async=true` to the job queue
+ *
+ * Registered after validation, so invalid or unauthorized commands are
+ * rejected right away instead of failing later as a job.
+ */
+export class AsyncMiddleware implements IMCPMiddleware {
+  public name = 'async';
+  private getJobs: () => IMCPJobQueue;
+  
+  /**
+   * Create a new async middleware
+   * @param getJobs Returns the job queue running the commands
+   */
+  constructor(getJobs: () => IMCPJobQueue) {
+    this.getJobs = getJobs;
+  }
+  
+  /**
+   * Queue the command and answer with the job id, or continue synchronously
+   * @param invocation Command invocation
+   * @param next Continue with the rest of the chain
+   */
+  public async handle(invocation: IMCPInvocation, next: MCPNextFunction): Promise<IMCPCommandResult> {
+    if (!('async' in invocation.params)) {
+      return next();
+    }
+    
+    // The flag is for the MCP, not for the command
+    const { async: runAsync, ...params } = invocation.params;
+    invocation.params = params;
+    
+    if (runAsync !== true && runAsync !== 'true') {
+      return next();
+    }
+    
+    // Job files keep the result, which must not hold credentials
+    if (invocation.command.meta.sensitive) {
+      return {
+        success: false,
+        error: `Command ${invocation.moduleName}.${invocation.commandName} cannot run as a job`,
+        status: 'invalid',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const job = await this.getJobs().enqueue(invocation.moduleName, invocation.commandName, params, invocation.context);
+    
+    return {
+      success: true,
+      data: {
+        jobId: job.id,
+        status: job.status,
+      },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { IMCPAuditLog } from '../../interfaces/IMCPAudit';
+import { IMCPCommandResult } from '../../interfaces/IMCPCommand';
+import { IMCPInvocation, IMCPMiddleware, MCPNextFunction } from '../../interfaces/IMCPMiddleware';
+import logger from '../../utils/logger';
+import { redactSecrets } from '../../utils/redact';
+
+/**
+ * Middleware that logs every command execution and its outcome, and records it in the audit log
+ *
+ * Registered outside auth, validation and rate limiting, so rejected commands are recorded too.
+ */
+export class AuditMiddleware implements IMCPMiddleware {
+  public name = 'audit';
+  private getAuditLog: () => IMCPAuditLog;
+  
+  /**
+   * Create a new audit middleware
+   * @param getAuditLog Returns the audit log of the current configuration
+   */
+  constructor(getAuditLog: () => IMCPAuditLog) {
+    this.getAuditLog = getAuditLog;
+  }
+  
+  /**
+   * Log the invocation and its result
+   * @param invocation Command invocation
+   * @param next Continue with the rest of the chain
+   */
+  public async handle(invocation: IMCPInvocation, next: MCPNextFunction): Promise<IMCPCommandResult> {
+    const { moduleName, commandName, context } = invocation;
+    const startTime = Date.now();
+    
+    logger.debug(`Executing command ${moduleName}.${commandName}`, {
+      // Passwords and tokens, e.g. those of auth.login
+      params: redactSecrets(invocation.params),
+      userId: context.userId,
+      sessionId: context.sessionId,
+    });
+    
+    const result = await next();
+    
+    if (result.success) {
+      logger.debug(`Command ${moduleName}.${commandName} executed successfully`, {
+        executionTime: Date.now() - startTime,
+        userId: context.userId,
+        sessionId: context.sessionId,
+      });
+    } else {
+      logger.warn(`Command ${moduleName}.${commandName} failed: ${result.error}`, {
+        executionTime: Date.now() - startTime,
+        userId: context.userId,
+        sessionId: context.sessionId,
+      });
+    }
+    
+    try {
+      await this.getAuditLog().append({
+        userId: context.userId,
+        sessionId: context.sessionId,
+        command: `${moduleName}.${commandName}`,
+        params: invocation.params,
+        success: result.success,
+        status: result.status,
+        error: result.error,
+        duration: Date.now() - startTime,
+      });
+    } catch (error) {
+      // The command has run, losing its record must not turn it into a failure
+      logger.error(`Failed to record command ${moduleName}.${commandName} in the audit log`, { error });
+    }
+    
+    return result;
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { IMCPCommandResult } from '../../interfaces/IMCPCommand';
+import { IMCPInvocation, IMCPMiddleware, MCPNextFunction } from '../../interfaces/IMCPMiddleware';
+import { SecurityManager } from '../../security/SecurityManager';
+import { normalizeScope, scopesAllow } from '../../security/Scope';
+
+/**
+ * Middleware that enforces authentication and permissions declared in command metadata
+ */
+export class AuthMiddleware implements IMCPMiddleware {
+  public name = 'auth';
+  private getSecurityManager: () => SecurityManager | undefined;
+  
+  /**
+   * Create a new auth middleware
+   * @param getSecurityManager Returns the security manager, or undefined when security is disabled
+   */
+  constructor(getSecurityManager: () => SecurityManager | undefined) {
+    this.getSecurityManager = getSecurityManager;
+  }
+  
+  /**
+   * Reject the invocation if the caller may not run the command
+   *
+   * Declared permissions are checked whenever security is enabled, also for
+   * commands that do not require authentication; callers without credentials
+   * have no scopes, so they are asked to authenticate.
+   * @param invocation Command invocation
+   * @param next Continue with the rest of the chain
+   */
+  public async handle(invocation: IMCPInvocation, next: MCPNextFunction): Promise<IMCPCommandResult> {
+    const { command, context, moduleName, commandName } = invocation;
+    const securityManager = this.getSecurityManager();
+    
+    if (!securityManager) {
+      return next();
+    }
+    
+    if (command.meta.requiresAuth && !context.securityContext.isAuthenticated) {
+      return {
+        success: false,
+        error: `Command ${moduleName}.${commandName} requires authentication`,
+        status: 'unauthorized',
+        timestamp: Date.now(),
+      };
+    }
+    
+    // Sessions that logged out or expired since the context was created
+    const { authToken } = context.securityContext;
+    const validation = authToken ? securityManager.validateToken(authToken) : undefined;
+    
+    if (validation && !validation.valid) {
+      return {
+        success: false,
+        error: `Command ${moduleName}.${commandName} requires authentication: ${validation.error}`,
+        status: 'unauthorized',
+        timestamp: Date.now(),
+      };
+    }
+    
+    // Check the scopes the caller authenticated with against the required ones
+    const missing = (command.meta.permissions || [])
+      .map(normalizeScope)
+      .filter((scope) => !scopesAllow(context.securityContext.permissions, scope));
+    
+    if (missing.length > 0 && !context.securityContext.isAuthenticated) {
+      return {
+        success: false,
+        error: `Command ${moduleName}.${commandName} requires authentication with ${missing.join(', ')}`,
+        status: 'unauthorized',
+        timestamp: Date.now(),
+      };
+    }
+    
+    if (missing.length > 0) {
+      return {
+        success: false,
+        error: `Insufficient permissions to execute command ${moduleName}.${commandName}, missing ${missing.join(', ')}`,
+        status: 'forbidden',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return next();
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { IMCPCommandResult } from '../../interfaces/IMCPCommand';
+import { IMCPCommandOutcome, IMCPEventBus } from '../../interfaces/IMCPEventBus';
+import { IMCPInvocation, IMCPMiddleware, MCPNextFunction } from '../../interfaces/IMCPMiddleware';
+
+/**
+ * Middleware that emits the command lifecycle events
+ */
+export class EventMiddleware implements IMCPMiddleware {
+  public name = 'events';
+  private events: IMCPEventBus;
+  
+  /**
+   * Create a new event middleware
+   * @param events Event bus to emit on
+   */
+  constructor(events: IMCPEventBus) {
+    this.events = events;
+  }
+  
+  /**
+   * Emit command.started before and command.completed/failed after the rest of the chain, without the result data
+   * @param invocation Command invocation
+   * @param next Continue with the rest of the chain
+   */
+  public async handle(invocation: IMCPInvocation, next: MCPNextFunction): Promise<IMCPCommandResult> {
+    const payload = {
+      executionId: invocation.executionId,
+      moduleName: invocation.moduleName,
+      commandName: invocation.commandName,
+      sessionId: invocation.context.sessionId,
+      userId: invocation.context.userId,
+    };
+    
+    this.events.emit('command.started', payload);
+    
+    const startTime = Date.now();
+    const result = await next();
+    const outcome: IMCPCommandOutcome = {
+      command: `${invocation.moduleName}.${invocation.commandName}`,
+      success: result.success,
+      status: result.status,
+      error: result.error,
+      duration: Date.now() - startTime,
+    };
+    
+    this.events.emit(result.success ? 'command.completed' : 'command.failed', { ...payload, ...outcome });
+    
+    return result;
+  }
+} 
\ No newline at end of file
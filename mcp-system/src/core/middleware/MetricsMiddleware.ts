@@ -0,0 +1,60 @@
+import { IMCPCommandResult } from '../../interfaces/IMCPCommand';
+import { IMCPInvocation, IMCPMiddleware, MCPNextFunction } from '../../interfaces/IMCPMiddleware';
+import { IMCPMetrics } from '../../interfaces/IMCPMetrics';
+
+/**
+ * Names of the command metrics
+ */
+export const COMMAND_EXECUTIONS_METRIC = 'mcp_command_executions_total';
+export const COMMAND_DURATION_METRIC = 'mcp_command_duration_seconds';
+export const COMMANDS_IN_FLIGHT_METRIC = 'mcp_commands_in_flight';
+
+/**
+ * Middleware that counts command executions and records their latency
+ *
+ * The outcome label is `success`, the result's status (e.g. `invalid`,
+ * `forbidden`, `timeout`) or `error`. Callers without a user id are
+ * labeled `anonymous`.
+ */
+export class MetricsMiddleware implements IMCPMiddleware {
+  public name = 'metrics';
+  private metrics: IMCPMetrics;
+  
+  /**
+   * Create a new metrics middleware, registering the command metrics
+   * @param metrics Metrics registry to record in
+   */
+  constructor(metrics: IMCPMetrics) {
+    this.metrics = metrics;
+    
+    const labels = ['module', 'command', 'outcome', 'user'];
+    metrics.registerCounter(COMMAND_EXECUTIONS_METRIC, 'Executed commands', labels);
+    metrics.registerHistogram(COMMAND_DURATION_METRIC, 'Command execution time in seconds', labels);
+    metrics.registerGauge(COMMANDS_IN_FLIGHT_METRIC, 'Commands currently executing', ['module', 'command']);
+  }
+  
+  /**
+   * Record the execution of the rest of the chain
+   * @param invocation Command invocation
+   * @param next Continue with the rest of the chain
+   */
+  public async handle(invocation: IMCPInvocation, next: MCPNextFunction): Promise<IMCPCommandResult> {
+    const command = { module: invocation.moduleName, command: invocation.commandName };
+    const startTime = performance.now();
+    let outcome = 'error';
+    
+    this.metrics.increment(COMMANDS_IN_FLIGHT_METRIC, command);
+    
+    try {
+      const result = await next();
+      outcome = result.success ? 'success' : result.status || 'error';
+      return result;
+    } finally {
+      const labels = { ...command, outcome, user: invocation.context.userId || 'anonymous' };
+      
+      this.metrics.increment(COMMANDS_IN_FLIGHT_METRIC, command, -1);
+      this.metrics.increment(COMMAND_EXECUTIONS_METRIC, labels);
+      this.metrics.observe(COMMAND_DURATION_METRIC, labels, (performance.now() - startTime) / 1000);
+    }
+  }
+} 
\ No newline at end of file
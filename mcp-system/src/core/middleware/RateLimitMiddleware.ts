@@ -0,0 +1,60 @@
+import { IMCPCommandResult } from '../../interfaces/IMCPCommand';
+import { IMCPInvocation, IMCPMiddleware, MCPNextFunction } from '../../interfaces/IMCPMiddleware';
+import { IMCPRateLimiter } from '../../interfaces/IMCPRateLimit';
+
+/**
+ * Middleware that enforces the rate limits and quotas before a command runs
+ *
+ * Registered before async, so commands over a limit are rejected instead of
+ * queued. Jobs are counted when queued and not again when they run.
+ */
+export class RateLimitMiddleware implements IMCPMiddleware {
+  public name = 'rateLimit';
+  private getRateLimiter: () => IMCPRateLimiter;
+  
+  /**
+   * Create a new rate limit middleware
+   * @param getRateLimiter Returns the rate limiter of the current configuration
+   */
+  constructor(getRateLimiter: () => IMCPRateLimiter) {
+    this.getRateLimiter = getRateLimiter;
+  }
+  
+  /**
+   * Reject the invocation if the caller is over a limit
+   * @param invocation Command invocation
+   * @param next Continue with the rest of the chain
+   */
+  public async handle(invocation: IMCPInvocation, next: MCPNextFunction): Promise<IMCPCommandResult> {
+    const { moduleName, commandName, command, context } = invocation;
+    
+    // The commands a job runs in turn, e.g. workflow steps, are counted again
+    if (context.rateLimitApplied) {
+      invocation.context = { ...context, rateLimitApplied: undefined };
+      return next();
+    }
+    
+    if (command.meta.rateLimited === false) {
+      return next();
+    }
+    
+    const decision = this.getRateLimiter().consume(
+      moduleName,
+      commandName,
+      context.userId,
+      context.securityContext.apiKey
+    );
+    
+    if (!decision.allowed) {
+      return {
+        success: false,
+        error: `Rate limit exceeded for command ${moduleName}.${commandName}: ${decision.reason}, retry after ${decision.retryAfter} s`,
+        status: 'rate_limited',
+        retryAfter: decision.retryAfter,
+        timestamp: Date.now(),
+      };
+    }
+    
+    return next();
+  }
+} 
\ No newline at end of file
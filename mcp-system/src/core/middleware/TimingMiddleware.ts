@@ -0,0 +1,27 @@
+import { IMCPCommandResult } from '../../interfaces/IMCPCommand';
+import { IMCPInvocation, IMCPMiddleware, MCPNextFunction } from '../../interfaces/IMCPMiddleware';
+
+/**
+ * Middleware that stamps results with their start time and execution time
+ */
+export class TimingMiddleware implements IMCPMiddleware {
+  public name = 'timing';
+  
+  /**
+   * Time the rest of the chain
+   * @param invocation Command invocation
+   * @param next Continue with the rest of the chain
+   */
+  public async handle(invocation: IMCPInvocation, next: MCPNextFunction): Promise<IMCPCommandResult> {
+    const startTime = Date.now();
+    invocation.state.startTime = startTime;
+    
+    const result = await next();
+    
+    return {
+      ...result,
+      timestamp: startTime,
+      executionTime: Date.now() - startTime,
+    };
+  }
+} 
\ No newline at end of file
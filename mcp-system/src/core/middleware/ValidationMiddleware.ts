@@ -0,0 +1,33 @@
+import { IMCPCommandResult } from '../../interfaces/IMCPCommand';
+import { IMCPInvocation, IMCPMiddleware, MCPNextFunction } from '../../interfaces/IMCPMiddleware';
+import { formatValidationErrors, validateCommandParams } from '../ParameterValidator';
+
+/**
+ * Middleware that validates and coerces parameters against the command metadata
+ */
+export class ValidationMiddleware implements IMCPMiddleware {
+  public name = 'validation';
+  
+  /**
+   * Replace the params with their coerced values, or reject them
+   * @param invocation Command invocation
+   * @param next Continue with the rest of the chain
+   */
+  public async handle(invocation: IMCPInvocation, next: MCPNextFunction): Promise<IMCPCommandResult> {
+    const validation = validateCommandParams(invocation.command, invocation.params, invocation.context);
+    
+    if (!validation.valid) {
+      return {
+        success: false,
+        error: formatValidationErrors(invocation.commandName, validation.errors),
+        validationErrors: validation.errors,
+        status: 'invalid',
+        timestamp: Date.now(),
+      };
+    }
+    
+    invocation.params = validation.params;
+    
+    return next();
+  }
+} 
\ No newline at end of file
@@ -1,18 +1,62 @@
 import { IMCPCommand, IMCPCommandContext, IMCPCommandParams, IMCPCommandResult } from './IMCPCommand';
 import { IMCPModule, IMCPModuleInitOptions } from './IMCPModule';
 import { IMCPPlugin, IMCPPluginInitOptions } from './IMCPPlugin';
+import { IMCPEventBus } from './IMCPEventBus';
+import { IMCPJobQueue } from './IMCPJob';
+import { IMCPMiddleware, IMCPMiddlewarePosition } from './IMCPMiddleware';
+import { IMCPStreamEvent } from './IMCPStream';
+import { IMCPHealthReport } from './IMCPHealth';
+import { IMCPMetrics } from './IMCPMetrics';
+import { IMCPRateLimitConfig, IMCPRateLimiter } from './IMCPRateLimit';
+import { IMCPAuditLog } from './IMCPAudit';
+import { SecurityManager } from '../security/SecurityManager';
+import { EncryptionService, KeyRotation } from '../security/EncryptionService';
 
 /**
  * Interface for MCP system configuration
  */
 export interface IMCPConfig {
+  /** Directory relative paths are resolved against */
+  baseDirectory: string;
+  /** Config file that was loaded, if any */
+  configPath?: string;
   logLevel: string;
   logDirectory: string;
   configDirectory: string;
+  /** Directory holding the data of the MCP and its modules */
+  dataDirectory: string;
   modulesDirectory: string;
+  /** Extra directories searched for modules */
+  moduleDirectories: string[];
+  /** Per-module initialization options, keyed by module name */
+  moduleOptions: Record<string, IMCPModuleInitOptions>;
   pluginsDirectory: string;
+  /** Extra plugins to load, as npm package names or paths */
+  plugins: string[];
+  /** Per-plugin initialization options, keyed by plugin name */
+  pluginOptions: Record<string, IMCPPluginInitOptions>;
+  /** Permissions granted to each plugin, keyed by plugin name */
+  pluginPermissions: Record<string, string[]>;
+  /** Directory holding one data directory per plugin */
+  pluginDataDirectory: string;
+  /** Directory holding the queued and finished asynchronous jobs */
+  jobsDirectory: string;
+  /** Maximum number of asynchronous jobs running at the same time */
+  jobConcurrency: number;
+  /** How long finished jobs are kept, in milliseconds */
+  jobRetention: number;
+  /** Reload modules when the files in their directory change */
+  watchModules: boolean;
   securityEnabled: boolean;
   defaultPermissions: string[];
+  /** Passphrase the encryption keys are derived from, random keys are stored if omitted */
+  encryptionPassphrase?: string;
+  /** Rate limits and quotas per command, module and user */
+  rateLimits: IMCPRateLimitConfig;
+  /** HTTP server port */
+  port: number;
+  /** HTTP server host */
+  host: string;
   [key: string]: any;
 }
 
@@ -33,6 +77,11 @@ export interface IMCP {
   modules: Map<string, IMCPModule>;
   plugins: Map<string, IMCPPlugin>;
   config: IMCPConfig;
+  events: IMCPEventBus;
+  jobs: IMCPJobQueue;
+  metrics: IMCPMetrics;
+  rateLimiter: IMCPRateLimiter;
+  audit: IMCPAuditLog;
   
   /**
    * Initialize the MCP system
@@ -61,6 +110,42 @@ export interface IMCP {
     context: IMCPCommandContext
   ): Promise<IMCPCommandResult>;
   
+  /**
+   * Execute a command, reading its output as it arrives
+   * @param commandString Full command string (e.g., "terminal.execute command=ls")
+   * @param context Command execution context
+   * @returns Chunk, progress and log events, ending with the command result
+   */
+  streamCommand(commandString: string, context: IMCPCommandContext): AsyncIterable<IMCPStreamEvent>;
+  
+  /**
+   * Execute a command with explicit module, command, and parameters, reading its output as it arrives
+   * @param moduleName Name of the module
+   * @param commandName Name of the command
+   * @param params Command parameters
+   * @param context Command execution context
+   * @returns Chunk, progress and log events, ending with the command result
+   */
+  streamCommandExplicit(
+    moduleName: string,
+    commandName: string,
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): AsyncIterable<IMCPStreamEvent>;
+  
+  /**
+   * Add a middleware to the chain around every command
+   * @param middleware Middleware to add
+   * @param position Where to insert the middleware, appended (innermost) by default
+   */
+  use(middleware: IMCPMiddleware, position?: IMCPMiddlewarePosition): void;
+  
+  /**
+   * Remove a middleware from the chain
+   * @param name Name of the middleware to remove
+   */
+  removeMiddleware(name: string): boolean;
+  
   /**
    * Load a module
    * @param modulePath Path to the module
@@ -74,6 +159,12 @@ export interface IMCP {
    */
   unloadModule(moduleName: string): Promise<boolean>;
   
+  /**
+   * Reload a module from its directory, keeping the loaded version if the new one fails
+   * @param moduleName Name of the module to reload
+   */
+  reloadModule(moduleName: string): Promise<IMCPModule>;
+  
   /**
    * Load a plugin
    * @param pluginPath Path to the plugin
@@ -95,7 +186,31 @@ export interface IMCP {
   getCommand(moduleName: string, commandName: string): IMCPCommand | undefined;
   
   /**
-   * Emit an event to all plugins
+   * Run the health checks of the loaded modules
+   * @param moduleNames Only check these modules, all modules if omitted
+   */
+  checkHealth(moduleNames?: string[]): Promise<IMCPHealthReport>;
+  
+  /**
+   * Get the security manager, for commands that manage users and roles
+   * @returns The security manager, or undefined when security is disabled
+   */
+  getSecurityManager(): SecurityManager | undefined;
+  
+  /**
+   * Get the encryption service, for modules that store data encrypted
+   * @returns The encryption service, or undefined before initialization
+   */
+  getEncryptionService(): EncryptionService | undefined;
+  
+  /**
+   * Create a new encryption key and re-encrypt the data of the loaded modules with it
+   * @param options Whether to delete the retired keys once every module succeeded
+   */
+  rotateEncryptionKey(options?: { prune?: boolean }): Promise<KeyRotation>;
+  
+  /**
+   * Emit an event on the event bus
    * @param eventName Name of the event
    * @param eventData Data associated with the event
    */
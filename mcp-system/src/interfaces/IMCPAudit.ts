@@ -0,0 +1,99 @@
+import { MCPCommandStatus } from './IMCPCommand';
+
+/**
+ * Interface for one command execution, as given to the audit log
+ */
+export interface IMCPAuditEntry {
+  /** Id of the caller, absent for anonymous callers */
+  userId?: string;
+  sessionId?: string;
+  /** Full command name, e.g. `fs.readFile` */
+  command: string;
+  /** Command parameters, only their hash is recorded */
+  params: Record<string, any>;
+  success: boolean;
+  /** Kind of failure, see MCPCommandStatus */
+  status?: MCPCommandStatus;
+  error?: string;
+  /** Execution time in milliseconds */
+  duration: number;
+}
+
+/**
+ * Interface for a record of the audit log
+ *
+ * `hash` covers every other field including `prevHash`, the hash of the
+ * record before it, so changing or removing a record breaks the chain.
+ */
+export interface IMCPAuditRecord {
+  /** Position in the log, starting at 1 */
+  seq: number;
+  /** Time the command finished (milliseconds since the epoch) */
+  timestamp: number;
+  userId?: string;
+  /** Username of the caller at the time, if known */
+  username?: string;
+  sessionId?: string;
+  command: string;
+  /** SHA-256 of the parameters with secrets redacted, as canonical JSON */
+  paramsHash: string;
+  success: boolean;
+  status?: MCPCommandStatus;
+  error?: string;
+  duration: number;
+  prevHash: string;
+  hash: string;
+}
+
+/**
+ * Interface for an audit log query, every given filter must match
+ */
+export interface IMCPAuditQuery {
+  /** User id or username */
+  user?: string;
+  /** Module name (e.g. `fs`) or full command name (e.g. `fs.readFile`) */
+  command?: string;
+  /** Earliest time (milliseconds since the epoch) */
+  since?: number;
+  /** Latest time (milliseconds since the epoch) */
+  until?: number;
+  /** Maximum number of records, the newest are returned */
+  limit?: number;
+}
+
+/**
+ * Interface for the outcome of checking the audit log
+ */
+export interface IMCPAuditVerification {
+  valid: boolean;
+  /** Number of records checked */
+  records: number;
+  /** Hash of the last record, compare with a copy kept elsewhere to detect truncation */
+  lastHash: string;
+  /** Line of the first record that does not match, when invalid */
+  brokenAt?: number;
+  /** Why the chain is broken, when invalid */
+  error?: string;
+}
+
+/**
+ * Interface for the MCP audit log
+ */
+export interface IMCPAuditLog {
+  /**
+   * Append a record for a command execution
+   * @param entry Command execution
+   */
+  append(entry: IMCPAuditEntry): Promise<IMCPAuditRecord>;
+  
+  /**
+   * Find records, newest first
+   * @param query Filters
+   */
+  query(query?: IMCPAuditQuery): Promise<IMCPAuditRecord[]>;
+  
+  /**
+   * Check that no record was changed, inserted or removed
+   */
+  verify(): Promise<IMCPAuditVerification>;
+} 
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { IMCPCommandStream, IMCPStreamEvent } from './IMCPStream';
+
 /**
  * Interface for MCP command execution results
  */
@@ -5,8 +7,50 @@ export interface IMCPCommandResult {
   success: boolean;
   data?: any;
   error?: string;
+  validationErrors?: IMCPValidationError[];
   timestamp: number;
   executionTime?: number;
+  /** Set when the command did not run to completion, see MCPCommandStatus */
+  status?: MCPCommandStatus;
+  /** Per-step trace, set on the result of a pipeline of commands */
+  steps?: IMCPPipelineStep[];
+  /** Seconds until a `rate_limited` command may be retried */
+  retryAfter?: number;
+}
+
+/**
+ * Why a command failed, when the failure has a known kind: `cancelled` through
+ * the context's signal, `timeout` because the context's deadline (or the
+ * command's own timeout) passed, `invalid` for malformed commands or
+ * parameters, `unauthorized` and `forbidden` for missing authentication or
+ * permissions, `not_found` for unknown modules, commands or resources,
+ * `rate_limited` when the caller is over a rate limit or quota
+ */
+export type MCPCommandStatus =
+  | 'cancelled'
+  | 'timeout'
+  | 'invalid'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'rate_limited';
+
+/**
+ * Interface for one executed step of a command pipeline
+ */
+export interface IMCPPipelineStep {
+  command: string;
+  success: boolean;
+  error?: string;
+  executionTime?: number;
+}
+
+/**
+ * Interface for a single parameter validation failure
+ */
+export interface IMCPValidationError {
+  field: string;
+  message: string;
 }
 
 /**
@@ -16,6 +60,30 @@ export interface IMCPCommandParams {
   [key: string]: any;
 }
 
+/**
+ * Supported MCP command parameter types
+ */
+export type MCPParameterType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'enum' | 'path';
+
+/**
+ * Interface for MCP command parameter metadata
+ */
+export interface IMCPCommandParameter {
+  name: string;
+  description: string;
+  type: MCPParameterType;
+  required: boolean;
+  default?: any;
+  /** Allowed values for enum parameters */
+  values?: any[];
+  /** Minimum value for numbers, minimum length for strings and arrays */
+  min?: number;
+  /** Maximum value for numbers, maximum length for strings and arrays */
+  max?: number;
+  /** Regular expression that string and path values must match */
+  pattern?: string;
+}
+
 /**
  * Interface for MCP command metadata
  */
@@ -24,16 +92,14 @@ export interface IMCPCommandMeta {
   description: string;
   version?: string;
   author?: string;
-  parameters?: Array<{
-    name: string;
-    description: string;
-    type: string;
-    required: boolean;
-    default?: any;
-  }>;
+  parameters?: IMCPCommandParameter[];
   category?: string;
   requiresAuth?: boolean;
   permissions?: string[];
+  /** Whether rate limits and quotas apply to the command, default true */
+  rateLimited?: boolean;
+  /** Whether the result holds credentials, which are kept out of job files and workflow runs */
+  sensitive?: boolean;
 }
 
 /**
@@ -44,10 +110,20 @@ export interface IMCPCommandContext {
   sessionId: string;
   workingDirectory: string;
   environmentVars: Record<string, string>;
+  /** Aborts the command when the caller cancels it */
+  signal?: AbortSignal;
+  /** Time (milliseconds since the epoch) by which the command must finish */
+  deadline?: number;
+  /** Streaming channel, set when the caller reads output as it arrives */
+  stream?: IMCPCommandStream;
+  /** Set when the command was counted against the rate limits already, as a job is when queued */
+  rateLimitApplied?: boolean;
   securityContext: {
     permissions: string[];
     isAuthenticated: boolean;
     authToken?: string;
+    /** Prefix of the API key the caller authenticated with */
+    apiKey?: string;
   };
 }
 
@@ -57,6 +133,7 @@ export interface IMCPCommandContext {
 export interface IMCPCommand {
   meta: IMCPCommandMeta;
   execute(params: IMCPCommandParams, context: IMCPCommandContext): Promise<IMCPCommandResult>;
+  stream?(params: IMCPCommandParams, context: IMCPCommandContext): AsyncIterable<IMCPStreamEvent>;
   validate?(params: IMCPCommandParams): boolean;
   help(): string;
 } 
\ No newline at end of file
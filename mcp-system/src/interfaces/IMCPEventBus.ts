@@ -0,0 +1,113 @@
+import { MCPCommandStatus } from './IMCPCommand';
+import { MCPJobStatus } from './IMCPJob';
+
+/**
+ * Payload shared by all command lifecycle events
+ */
+export interface IMCPCommandEventPayload {
+  executionId: string;
+  moduleName: string;
+  commandName: string;
+  sessionId: string;
+  userId?: string;
+}
+
+/**
+ * Outcome of a finished command, in command.completed and command.failed
+ *
+ * The result data is left out: events reach every plugin and event stream
+ * subscriber, while the data belongs to the caller alone.
+ */
+export interface IMCPCommandOutcome {
+  /** Full command name, e.g. `fs.readFile` */
+  command: string;
+  success: boolean;
+  status?: MCPCommandStatus;
+  error?: string;
+  /** Execution time in milliseconds */
+  duration: number;
+}
+
+/**
+ * Payload shared by all job lifecycle events
+ */
+export interface IMCPJobEventPayload {
+  jobId: string;
+  moduleName: string;
+  commandName: string;
+  status: MCPJobStatus;
+  /** User who queued the job */
+  userId?: string;
+}
+
+/**
+ * Payloads of the events emitted by the MCP core, keyed by topic
+ */
+export interface IMCPEventMap {
+  'command.started': IMCPCommandEventPayload;
+  'command.completed': IMCPCommandEventPayload & IMCPCommandOutcome;
+  'command.failed': IMCPCommandEventPayload & IMCPCommandOutcome;
+  'job.queued': IMCPJobEventPayload;
+  'job.started': IMCPJobEventPayload;
+  'job.completed': IMCPJobEventPayload;
+  'job.failed': IMCPJobEventPayload;
+  'job.cancelled': IMCPJobEventPayload;
+  'module.loaded': { moduleName: string; version: string; path: string };
+  'module.unloaded': { moduleName: string };
+  'module.reloaded': { moduleName: string; version: string; path: string };
+  'module.reloadFailed': { moduleName: string; path: string; error: string };
+  'mcp.shutdown': { timestamp: number };
+}
+
+/**
+ * Topics of the events emitted by the MCP core
+ */
+export type MCPEventTopic = keyof IMCPEventMap;
+
+/**
+ * Interface for an event delivered to subscribers
+ */
+export interface IMCPEvent<T = any> {
+  id: string;
+  topic: string;
+  payload: T;
+  timestamp: number;
+}
+
+/**
+ * Event handler, may return a promise that the bus will not wait for
+ */
+export type MCPEventHandler<T = any> = (event: IMCPEvent<T>) => void | Promise<void>;
+
+/**
+ * Interface for the MCP event bus
+ */
+export interface IMCPEventBus {
+  /**
+   * Subscribe to events
+   *
+   * Topic patterns are dot-separated: `*` matches exactly one segment and
+   * `**` matches any number of segments, e.g. `command.*` or `**`.
+   * @param pattern Topic pattern
+   * @param handler Event handler
+   * @returns Function that removes the subscription
+   */
+  subscribe<K extends MCPEventTopic>(pattern: K, handler: MCPEventHandler<IMCPEventMap[K]>): () => void;
+  subscribe(pattern: string, handler: MCPEventHandler): () => void;
+  
+  /**
+   * Emit an event
+   *
+   * Handlers are called asynchronously and in isolation: emit returns before
+   * any handler runs, and a failing or slow handler does not affect others.
+   * @param topic Event topic
+   * @param payload Event payload
+   */
+  emit<K extends MCPEventTopic>(topic: K, payload: IMCPEventMap[K]): void;
+  emit(topic: string, payload: any): void;
+  
+  /**
+   * Wait until every event emitted so far has been delivered
+   */
+  drain(): Promise<void>;
+} 
\ No newline at end of file
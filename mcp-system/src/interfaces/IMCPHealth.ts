@@ -0,0 +1,57 @@
+/**
+ * Health of a module or dependency: `ok`, `degraded` when it works with
+ * reduced functionality (e.g. a missing optional binary), `failed` when it
+ * cannot work
+ */
+export type MCPHealthStatus = 'ok' | 'degraded' | 'failed';
+
+/**
+ * Outcome of a health probe
+ */
+export interface IMCPHealthProbeResult {
+  status: MCPHealthStatus;
+  /** Why the status is not ok, or details of an ok check */
+  reason?: string;
+}
+
+/**
+ * Health probe checking one dependency of a module, failing when it throws
+ */
+export type MCPHealthProbe = () => Promise<IMCPHealthProbeResult>;
+
+/**
+ * Interface for the result of one health check
+ */
+export interface IMCPHealthCheck extends IMCPHealthProbeResult {
+  name: string;
+  /** Milliseconds the check took */
+  duration: number;
+}
+
+/**
+ * Interface for the health of a module
+ */
+export interface IMCPModuleHealth {
+  /** Worst status of the module's checks */
+  status: MCPHealthStatus;
+  checks: IMCPHealthCheck[];
+  /** Milliseconds all checks of the module took */
+  duration: number;
+}
+
+/**
+ * Interface for the aggregated health report of the MCP system
+ */
+export interface IMCPHealthReport {
+  /**
+   * `ok` when every module is ok, `degraded` when some module is degraded or
+   * failed, `failed` when the MCP is not initialized
+   */
+  status: MCPHealthStatus;
+  modules: Record<string, IMCPModuleHealth>;
+  /** Seconds the process has been running */
+  uptime: number;
+  /** Milliseconds the health check took */
+  duration: number;
+  timestamp: number;
+} 
\ No newline at end of file
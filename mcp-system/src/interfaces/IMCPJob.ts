@@ -0,0 +1,89 @@
+import { IMCPCommandContext, IMCPCommandParams, IMCPCommandResult } from './IMCPCommand';
+
+/**
+ * Status of an asynchronous job
+ */
+export type MCPJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Execution context stored with a job
+ *
+ * Environment variables and the security context are not persisted, jobs run
+ * with the environment of the process that executes them and with the grants
+ * their session holds when they start. The caller's signal and deadline do not
+ * apply to the job, use jobs.cancel instead, and its output is not streamed.
+ */
+export type IMCPJobContext = Omit<
+  IMCPCommandContext,
+  'environmentVars' | 'securityContext' | 'signal' | 'deadline' | 'stream'
+>;
+
+/**
+ * Session a job was queued in, checked for revocation when the job starts
+ */
+export interface IMCPJobSession {
+  /** Id of the session, shared by its tokens */
+  sessionId: string;
+  /** Prefix of the API key the session was opened with */
+  apiKey?: string;
+}
+
+/**
+ * Interface for a command executed asynchronously
+ */
+export interface IMCPJob {
+  id: string;
+  moduleName: string;
+  commandName: string;
+  params: IMCPCommandParams;
+  context: IMCPJobContext;
+  /** User who queued the job, who may see and cancel it */
+  userId?: string;
+  /** Session of an authenticated caller */
+  session?: IMCPJobSession;
+  status: MCPJobStatus;
+  /** Command result, once the job has finished */
+  result?: IMCPCommandResult;
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+/**
+ * Interface for the MCP job queue
+ */
+export interface IMCPJobQueue {
+  /**
+   * Queue a command for asynchronous execution
+   * @param moduleName Name of the module
+   * @param commandName Name of the command
+   * @param params Command parameters
+   * @param context Command execution context
+   */
+  enqueue(
+    moduleName: string,
+    commandName: string,
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPJob>;
+  
+  /**
+   * Get a job by id
+   * @param jobId Id of the job
+   */
+  get(jobId: string): IMCPJob | undefined;
+  
+  /**
+   * List jobs, most recent first
+   * @param status Only list jobs with this status
+   */
+  list(status?: MCPJobStatus): IMCPJob[];
+  
+  /**
+   * Cancel a queued or running job
+   * @param jobId Id of the job
+   * @returns The cancelled job
+   */
+  cancel(jobId: string): Promise<IMCPJob>;
+} 
\ No newline at end of file
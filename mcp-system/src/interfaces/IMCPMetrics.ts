@@ -0,0 +1,100 @@
+/**
+ * Kind of metric: `counter` only goes up, `gauge` goes up and down,
+ * `histogram` counts observations in buckets
+ */
+export type MCPMetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Label values of a metric series, by label name
+ */
+export type MCPMetricLabels = Record<string, string>;
+
+/**
+ * Interface for one labeled series of a metric
+ */
+export interface IMCPMetricSeries {
+  labels: MCPMetricLabels;
+  /** Value of a counter or gauge */
+  value?: number;
+  /** Cumulative observation counts of a histogram by upper bound, ending with `+Inf` */
+  buckets?: { le: string; count: number }[];
+  /** Sum of the observations of a histogram */
+  sum?: number;
+  /** Number of observations of a histogram */
+  count?: number;
+}
+
+/**
+ * Interface for the current state of a metric
+ */
+export interface IMCPMetricSnapshot {
+  name: string;
+  help: string;
+  type: MCPMetricType;
+  series: IMCPMetricSeries[];
+}
+
+/**
+ * Interface for the MCP metrics registry
+ */
+export interface IMCPMetrics {
+  /**
+   * Register a counter
+   * @param name Metric name, e.g. `mcp_command_executions_total`
+   * @param help Description of the metric
+   * @param labelNames Names of the labels of the metric
+   */
+  registerCounter(name: string, help: string, labelNames?: string[]): void;
+  
+  /**
+   * Register a gauge
+   * @param name Metric name
+   * @param help Description of the metric
+   * @param labelNames Names of the labels of the metric
+   * @param collect Reads the value of an unlabeled gauge whenever metrics are exported
+   */
+  registerGauge(name: string, help: string, labelNames?: string[], collect?: () => number): void;
+  
+  /**
+   * Register a histogram
+   * @param name Metric name, e.g. `mcp_command_duration_seconds`
+   * @param help Description of the metric
+   * @param labelNames Names of the labels of the metric
+   * @param buckets Upper bounds of the buckets, ascending
+   */
+  registerHistogram(name: string, help: string, labelNames?: string[], buckets?: number[]): void;
+  
+  /**
+   * Add to a counter or gauge
+   * @param name Metric name
+   * @param labels Label values
+   * @param value Amount to add, negative to decrease a gauge
+   */
+  increment(name: string, labels?: MCPMetricLabels, value?: number): void;
+  
+  /**
+   * Set a gauge
+   * @param name Metric name
+   * @param labels Label values
+   * @param value New value
+   */
+  set(name: string, labels: MCPMetricLabels, value: number): void;
+  
+  /**
+   * Record an observation in a histogram
+   * @param name Metric name
+   * @param labels Label values
+   * @param value Observed value
+   */
+  observe(name: string, labels: MCPMetricLabels, value: number): void;
+  
+  /**
+   * Get the current state of every metric
+   */
+  snapshot(): IMCPMetricSnapshot[];
+  
+  /**
+   * Export every metric in the Prometheus text exposition format
+   */
+  render(): string;
+} 
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { IMCPCommand, IMCPCommandContext, IMCPCommandParams, IMCPCommandResult } from './IMCPCommand';
+import { IMCPModule } from './IMCPModule';
+
+/**
+ * Interface for a single command invocation passing through the middleware chain
+ *
+ * Middlewares may replace params and context before calling next().
+ */
+export interface IMCPInvocation {
+  executionId: string;
+  moduleName: string;
+  commandName: string;
+  module: IMCPModule;
+  command: IMCPCommand;
+  params: IMCPCommandParams;
+  context: IMCPCommandContext;
+  /** Scratch space for middlewares to share state during the invocation */
+  state: Record<string, any>;
+}
+
+/**
+ * Continue with the next middleware, or the command itself at the end of the chain
+ */
+export type MCPNextFunction = () => Promise<IMCPCommandResult>;
+
+/**
+ * Interface for MCP middleware implementation
+ */
+export interface IMCPMiddleware {
+  /** Unique name, used to order and remove middlewares */
+  name: string;
+  
+  /**
+   * Handle an invocation
+   *
+   * Return the result of next() to continue, return a result without calling
+   * next() to short-circuit, or post-process the result of next().
+   * @param invocation Command invocation
+   * @param next Continue with the rest of the chain
+   */
+  handle(invocation: IMCPInvocation, next: MCPNextFunction): Promise<IMCPCommandResult>;
+}
+
+/**
+ * Where to insert a middleware in the chain
+ */
+export interface IMCPMiddlewarePosition {
+  /** Insert before the middleware with this name */
+  before?: string;
+  /** Insert after the middleware with this name */
+  after?: string;
+} 
\ No newline at end of file
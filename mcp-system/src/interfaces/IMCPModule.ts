@@ -1,4 +1,9 @@
 import { IMCPCommand, IMCPCommandContext, IMCPCommandParams, IMCPCommandResult } from './IMCPCommand';
+import { IMCP } from './IMCP';
+import { IMCPEventBus } from './IMCPEventBus';
+import { IMCPModuleHealth } from './IMCPHealth';
+import { IMCPMiddleware, IMCPMiddlewarePosition } from './IMCPMiddleware';
+import { EncryptionService } from '../security/EncryptionService';
 
 /**
  * Interface for MCP module metadata
@@ -17,6 +22,14 @@ export interface IMCPModuleMeta {
 export interface IMCPModuleInitOptions {
   configPath?: string;
   logLevel?: string;
+  /** MCP configuration directory */
+  configDirectory?: string;
+  /** MCP data directory, modules keep their data in a subdirectory */
+  dataDirectory?: string;
+  /** MCP event bus, for modules and their commands to subscribe to */
+  events?: IMCPEventBus;
+  /** MCP instance, for modules that execute other commands */
+  mcp?: IMCP;
   [key: string]: any;
 }
 
@@ -63,6 +76,25 @@ export interface IMCPModule {
     context: IMCPCommandContext
   ): Promise<IMCPCommandResult>;
   
+  /**
+   * Add a middleware around the commands of this module
+   * @param middleware Middleware to add
+   * @param position Where to insert the middleware, appended (innermost) by default
+   */
+  use?(middleware: IMCPMiddleware, position?: IMCPMiddlewarePosition): void;
+  
+  /**
+   * Check that the module's dependencies (directories, binaries, API keys) are usable
+   */
+  healthCheck?(): Promise<IMCPModuleHealth>;
+  
+  /**
+   * Re-encrypt the module's encrypted data with the active key, after a key rotation
+   * @param encryption Encryption service
+   * @returns The number of items re-encrypted
+   */
+  reencrypt?(encryption: EncryptionService): Promise<number>;
+  
   /**
    * Shutdown the module
    */
@@ -11,12 +11,35 @@ export interface IMCPPluginMeta {
   dependencies?: string[];
 }
 
+/**
+ * Interface for an MCP plugin manifest
+ *
+ * Read from plugin.json in the plugin directory, or from the "mcpPlugin"
+ * field of the plugin's package.json.
+ */
+export interface IMCPPluginManifest {
+  name: string;
+  version: string;
+  /** Entry point relative to the plugin directory */
+  main?: string;
+  /** Export holding the plugin class (defaults to the default export) */
+  export?: string;
+  /** Semver range of MCP versions the plugin works with */
+  mcpVersion: string;
+  /** Permissions the plugin needs, which must be granted in the MCP config */
+  permissions?: string[];
+}
+
 /**
  * Interface for MCP plugin initialization options
  */
 export interface IMCPPluginInitOptions {
   configPath?: string;
   logLevel?: string;
+  /** Directory where the plugin keeps its state */
+  dataDirectory?: string;
+  /** Permissions granted to the plugin */
+  permissions?: string[];
   [key: string]: any;
 }
 
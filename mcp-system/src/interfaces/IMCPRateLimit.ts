@@ -0,0 +1,85 @@
+/**
+ * Interface for a rate limit rule
+ *
+ * `perMinute` refills a token bucket holding up to `burst` requests (default:
+ * `perMinute`); `perDay` and `perMonth` are quotas reset at the start of each
+ * UTC day and month.
+ */
+export interface IMCPRateLimitRule {
+  perMinute?: number;
+  burst?: number;
+  perDay?: number;
+  perMonth?: number;
+}
+
+/**
+ * Interface for the `rateLimits` config section
+ *
+ * Every matching rule applies, each counted per caller: `default` to every
+ * command, `commands` by full command name (e.g. `ai.claude`), `modules` by
+ * module name, `users` by username or user id and `apiKeys` by the prefix of
+ * the API key the caller authenticated with, across all commands.
+ */
+export interface IMCPRateLimitConfig {
+  default?: IMCPRateLimitRule;
+  commands?: Record<string, IMCPRateLimitRule>;
+  modules?: Record<string, IMCPRateLimitRule>;
+  users?: Record<string, IMCPRateLimitRule>;
+  apiKeys?: Record<string, IMCPRateLimitRule>;
+}
+
+/**
+ * Interface for the remaining allowance of one limit
+ */
+export interface IMCPAllowance {
+  limit: number;
+  remaining: number;
+  /** When the allowance is full again (milliseconds since the epoch) */
+  resetsAt: number;
+}
+
+/**
+ * Interface for the state of one rule for a caller
+ */
+export interface IMCPRateLimitStatus {
+  /** Rule the status belongs to, e.g. `command:ai.claude`, `module:web`, `user:alice`, `apiKey:mcp_1a2b3c4d` or `default` */
+  scope: string;
+  rule: IMCPRateLimitRule;
+  perMinute?: IMCPAllowance;
+  perDay?: IMCPAllowance;
+  perMonth?: IMCPAllowance;
+}
+
+/**
+ * Interface for the decision on one command execution
+ */
+export interface IMCPRateLimitDecision {
+  allowed: boolean;
+  /** Seconds until the command may be retried, when not allowed */
+  retryAfter?: number;
+  /** Limit that rejected the command, when not allowed */
+  reason?: string;
+}
+
+/**
+ * Interface for the MCP rate limiter
+ */
+export interface IMCPRateLimiter {
+  /**
+   * Count a command execution against every matching rule, unless one of them rejects it
+   * @param moduleName Name of the module
+   * @param commandName Name of the command
+   * @param userId Id of the caller, anonymous callers share one allowance
+   * @param apiKey Prefix of the API key the caller authenticated with
+   */
+  consume(moduleName: string, commandName: string, userId?: string, apiKey?: string): IMCPRateLimitDecision;
+  
+  /**
+   * Get the remaining allowance of a caller
+   * @param userId Id of the caller
+   * @param moduleName Only the rules for this module's commands
+   * @param commandName Only the rules for this command, with moduleName
+   * @param apiKey Prefix of the API key the caller authenticated with
+   */
+  status(userId?: string, moduleName?: string, commandName?: string, apiKey?: string): IMCPRateLimitStatus[];
+} 
\ No newline at end of file
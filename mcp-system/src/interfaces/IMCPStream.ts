@@ -0,0 +1,44 @@
+import { IMCPCommandResult } from './IMCPCommand';
+
+/**
+ * Interface for an event on a command's streaming channel
+ *
+ * - `chunk`: a piece of output, e.g. shell output or model tokens
+ * - `progress`: completion percentage (0-100) with an optional message
+ * - `log`: a human-readable log line
+ * - `result`: the final command result, always the last event
+ */
+export type IMCPStreamEvent =
+  | { type: 'chunk'; data: any; channel?: string }
+  | { type: 'progress'; percent: number; message?: string }
+  | { type: 'log'; message: string; level: string }
+  | { type: 'result'; result: IMCPCommandResult };
+
+/**
+ * Interface for the streaming channel commands write to while they run
+ *
+ * Streaming is optional: commands write to `context.stream` only when it is
+ * set, and always assemble their final result as they would without it.
+ */
+export interface IMCPCommandStream {
+  /**
+   * Send a piece of output
+   * @param data Output chunk
+   * @param channel Output channel, e.g. `stdout` or `stderr`
+   */
+  chunk(data: any, channel?: string): void;
+  
+  /**
+   * Report progress
+   * @param percent Completion percentage, 0-100
+   * @param message Optional description of the current stage
+   */
+  progress(percent: number, message?: string): void;
+  
+  /**
+   * Send a log line
+   * @param message Log message
+   * @param level Log level
+   */
+  log(message: string, level?: string): void;
+} 
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { IMCPCommandParams } from './IMCPCommand';
+
+/**
+ * Condition deciding whether a workflow step runs
+ *
+ * Either an expression such as `steps.read.success` or `vars.count >= 3`,
+ * or a combination of conditions.
+ */
+export type MCPWorkflowCondition = string | { all: MCPWorkflowCondition[] } | { any: MCPWorkflowCondition[] };
+
+/**
+ * Interface for the retry policy of a workflow step
+ */
+export interface IMCPWorkflowRetry {
+  /** Total number of attempts, including the first one */
+  attempts: number;
+  /** Delay between attempts in milliseconds */
+  delay?: number;
+}
+
+/**
+ * Interface for a workflow step
+ *
+ * A step runs exactly one of: a command, a set of parallel branches, or a
+ * loop running its nested steps once per array item.
+ */
+export interface IMCPWorkflowStep {
+  id: string;
+  description?: string;
+  /** Skip the step unless the condition holds */
+  if?: MCPWorkflowCondition;
+  /** Command to run, as module.command */
+  command?: string;
+  /** Command parameters, may contain `${...}` expressions */
+  params?: IMCPCommandParams;
+  /** Steps to run concurrently */
+  parallel?: IMCPWorkflowStep[];
+  /** Expression evaluating to the array to loop over */
+  forEach?: string;
+  /** Variable name of the current item inside the loop, `item` by default */
+  as?: string;
+  /** Steps to run for each item */
+  steps?: IMCPWorkflowStep[];
+  retry?: IMCPWorkflowRetry;
+  /** Timeout in milliseconds for a single attempt of the step */
+  timeout?: number;
+}
+
+/**
+ * Interface for a workflow definition
+ */
+export interface IMCPWorkflow {
+  name: string;
+  description?: string;
+  /** Default values of the workflow variables */
+  variables?: Record<string, any>;
+  steps: IMCPWorkflowStep[];
+}
+
+/**
+ * Status of a workflow run or step
+ */
+export type MCPWorkflowStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+/**
+ * Interface for the recorded state of a top-level workflow step
+ */
+export interface IMCPWorkflowStepState {
+  status: MCPWorkflowStatus;
+  attempts: number;
+  data?: any;
+  /** Whether the data held credentials and was not persisted, the step runs again on resume */
+  redacted?: boolean;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+/**
+ * Interface for a persisted workflow run
+ */
+export interface IMCPWorkflowRun {
+  id: string;
+  workflow: IMCPWorkflow;
+  status: MCPWorkflowStatus;
+  variables: Record<string, any>;
+  steps: Record<string, IMCPWorkflowStepState>;
+  /** User who started the run, who may see and resume it */
+  userId?: string;
+  /** Id of the step that failed the run */
+  failedStep?: string;
+  error?: string;
+  startedAt: number;
+  finishedAt?: number;
+} 
\ No newline at end of file
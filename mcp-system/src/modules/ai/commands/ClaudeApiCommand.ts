@@ -3,6 +3,7 @@ import fs from 'fs-extra';
 import path from 'path';
 import { BaseCommand } from '../../../core/BaseCommand';
 import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { IMCPCommandStream } from '../../../interfaces/IMCPStream';
 import logger from '../../../utils/logger';
 
 /**
@@ -11,11 +12,54 @@ import logger from '../../../utils/logger';
 const CLAUDE_API_COMMAND_META: IMCPCommandMeta = {
   name: 'claude',
   description: 'Make a request to the Claude API',
+  parameters: [
+    {
+      name: 'prompt',
+      description: 'The prompt to send to Claude',
+      type: 'string',
+      required: true,
+      min: 1,
+    },
+    {
+      name: 'model',
+      description: 'The Claude model to use',
+      type: 'string',
+      required: false,
+    },
+    {
+      name: 'maxTokens',
+      description: 'Maximum number of tokens to generate',
+      type: 'number',
+      required: false,
+      default: 1000,
+      min: 1,
+    },
+    {
+      name: 'temperature',
+      description: 'Sampling temperature',
+      type: 'number',
+      required: false,
+      default: 0.7,
+      min: 0,
+      max: 1,
+    },
+    {
+      name: 'system',
+      description: 'System prompt',
+      type: 'string',
+      required: false,
+    },
+  ],
   category: 'ai',
   requiresAuth: true,
-  permissions: ['ai.claude'],
+  permissions: ['ai:claude'],
 };
 
+/**
+ * Claude Messages API endpoint
+ */
+const CLAUDE_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+
 /**
  * Claude API models
  */
@@ -32,13 +76,18 @@ enum ClaudeModel {
  * Command to make a request to the Claude API
  */
 export class ClaudeApiCommand extends BaseCommand {
-  private apiKey: string | null = null;
+  private apiKey: string | null;
+  private configDirectory: string;
   
   /**
    * Create a new Claude API command
+   * @param configDirectory Directory holding claude.json with the API key
+   * @param apiKey API key, used before the environment and claude.json
    */
-  constructor() {
+  constructor(configDirectory: string, apiKey?: string) {
     super(CLAUDE_API_COMMAND_META);
+    this.configDirectory = configDirectory;
+    this.apiKey = apiKey || null;
   }
   
   /**
@@ -104,14 +153,16 @@ export class ClaudeApiCommand extends BaseCommand {
         requestBody.system = system;
       }
       
-      // Make request
-      const response = await axios.post('https://api.anthropic.com/v1/messages', requestBody, {
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-      });
+      const headers = {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      };
+      
+      // Make request, streaming the tokens when the caller reads them as they arrive
+      const message = context.stream
+        ? await this.streamMessage(requestBody, headers, context.stream, context.signal)
+        : (await axios.post(CLAUDE_MESSAGES_URL, requestBody, { headers, signal: context.signal })).data;
       
       // Log response
       logger.debug('Claude API response received', {
@@ -123,10 +174,10 @@ export class ClaudeApiCommand extends BaseCommand {
       return {
         success: true,
         data: {
-          response: response.data,
-          content: response.data.content[0].text,
-          model: response.data.model,
-          usage: response.data.usage,
+          response: message,
+          content: message.content[0].text,
+          model: message.model,
+          usage: message.usage,
         },
         timestamp: Date.now(),
       };
@@ -141,6 +192,85 @@ export class ClaudeApiCommand extends BaseCommand {
     }
   }
   
+  /**
+   * Make a streaming request, sending text deltas to the stream
+   *
+   * The streamed events are assembled into the same message a non-streaming
+   * request returns.
+   * @param requestBody Request body
+   * @param headers Request headers
+   * @param stream Streaming channel of the command
+   * @param signal Signal that cancels the request
+   */
+  private async streamMessage(
+    requestBody: any,
+    headers: Record<string, string>,
+    stream: IMCPCommandStream,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const response = await axios.post(CLAUDE_MESSAGES_URL, { ...requestBody, stream: true }, {
+      headers,
+      signal,
+      responseType: 'stream',
+    });
+    
+    let message: any = { content: [] };
+    let buffer = '';
+    
+    for await (const data of response.data) {
+      buffer += data.toString();
+      
+      // Server-Sent Events are separated by a blank line
+      let boundary: number;
+      
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        
+        const line = frame.split('\n').find((candidate) => candidate.startsWith('data:'));
+        
+        if (!line) {
+          continue;
+        }
+        
+        const event = JSON.parse(line.slice('data:'.length));
+        
+        switch (event.type) {
+          case 'message_start':
+            message = event.message;
+            break;
+          
+          case 'content_block_start':
+            message.content[event.index] = event.content_block;
+            break;
+          
+          case 'content_block_delta':
+            if (event.delta.type === 'text_delta') {
+              message.content[event.index].text += event.delta.text;
+              stream.chunk(event.delta.text);
+            }
+            break;
+          
+          case 'message_delta':
+            message = { ...message, ...event.delta, usage: { ...message.usage, ...event.usage } };
+            break;
+          
+          case 'error':
+            throw new Error(event.error?.message || 'Stream error');
+        }
+      }
+    }
+    
+    return message;
+  }
+  
+  /**
+   * Whether an API key is configured, from the options, environment or claude.json
+   */
+  public async hasApiKey(): Promise<boolean> {
+    return (await this.getApiKey()) !== null;
+  }
+  
   /**
    * Get the Claude API key
    * @param providedApiKey API key provided in the command
@@ -165,7 +295,7 @@ export class ClaudeApiCommand extends BaseCommand {
     
     // Try to get API key from config file
     try {
-      const configPath = path.join(process.cwd(), 'config', 'claude.json');
+      const configPath = path.join(this.configDirectory, 'claude.json');
       
       if (await fs.pathExists(configPath)) {
         const config = await fs.readJSON(configPath);
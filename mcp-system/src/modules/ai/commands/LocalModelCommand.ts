@@ -50,10 +50,13 @@ const LOCAL_MODEL_COMMAND_META: IMCPCommandMeta = {
 export class LocalModelCommand extends BaseCommand {
   private modelsDirectory: string;
   
-  constructor() {
+  /**
+   * Create a new local model command
+   * @param modelsDirectory Directory holding the model files
+   */
+  constructor(modelsDirectory: string) {
     super(LOCAL_MODEL_COMMAND_META);
-    // Set the models directory to ~/Library/Application Support/Janet/models
-    this.modelsDirectory = path.join(process.env.HOME || '~', 'Library', 'Application Support', 'Janet', 'models');
+    this.modelsDirectory = modelsDirectory;
   }
   
   public validate(params: IMCPCommandParams): boolean {
@@ -90,7 +93,7 @@ export class LocalModelCommand extends BaseCommand {
       // Execute llama.cpp with the model
       const llamaCommand = `llama -m ${modelPath} -n ${maxTokens} -t ${temperature} -p "${prompt.replace(/"/g, '\\"')}"`;
       
-      const { stdout, stderr } = await execAsync(llamaCommand);
+      const { stdout, stderr } = await execAsync(llamaCommand, { signal: context.signal });
       
       if (stderr) {
         logger.warn(`Local model execution warning: ${stderr}`);
@@ -1,6 +1,9 @@
 import { BaseModule } from '../../core/BaseModule';
+import { findExecutable } from '../../core/HealthCheck';
 import { IMCPModuleMeta, IMCPModuleInitOptions } from '../../interfaces/IMCPModule';
+import { MCPHealthProbe } from '../../interfaces/IMCPHealth';
 import logger from '../../utils/logger';
+import path from 'path';
 import { ClaudeApiCommand } from './commands/ClaudeApiCommand';
 
 /**
@@ -18,6 +21,10 @@ const AI_MODULE_META: IMCPModuleMeta = {
  * AI module for MCP
  */
 export default class AIModule extends BaseModule {
+  private claude?: ClaudeApiCommand;
+  /** llama.cpp binary used for local models */
+  private llamaBinary: string = 'llama';
+  
   /**
    * Create a new AI module
    */
@@ -27,6 +34,10 @@ export default class AIModule extends BaseModule {
   
   /**
    * Initialize the AI module
+   *
+   * Options: `apiKey` for the Claude API, otherwise read from `CLAUDE_API_KEY`
+   * or `<configDirectory>/claude.json`; `llamaBinary`, the llama.cpp binary
+   * the health check looks for (default `llama` in the PATH).
    * @param options Initialization options
    */
   protected async onInitialize(options?: IMCPModuleInitOptions): Promise<boolean> {
@@ -34,7 +45,10 @@ export default class AIModule extends BaseModule {
       logger.info('Initializing AI module');
       
       // Register commands
-      this.registerCommand(new ClaudeApiCommand());
+      const configDirectory = options?.configDirectory || path.join(process.cwd(), 'config');
+      this.claude = new ClaudeApiCommand(configDirectory, options?.apiKey);
+      this.registerCommand(this.claude);
+      this.llamaBinary = options?.llamaBinary || this.llamaBinary;
       
       logger.info(`Registered ${this.commands.size} AI commands`);
       
@@ -45,6 +59,26 @@ export default class AIModule extends BaseModule {
     }
   }
   
+  /**
+   * Check the Claude API key and the llama.cpp binary
+   *
+   * Either one missing leaves the other backend usable, so the module is
+   * degraded rather than failed.
+   */
+  protected getHealthProbes(): Record<string, MCPHealthProbe> {
+    return {
+      claudeApiKey: async () => (await this.claude?.hasApiKey())
+        ? { status: 'ok' }
+        : { status: 'degraded', reason: 'No Claude API key in the options, CLAUDE_API_KEY or claude.json' },
+      llamaBinary: async () => {
+        const binary = await findExecutable(this.llamaBinary);
+        return binary
+          ? { status: 'ok', reason: binary }
+          : { status: 'degraded', reason: `${this.llamaBinary} not found, local models are unavailable` };
+      },
+    };
+  }
+  
   /**
    * Shutdown the AI module
    */
@@ -0,0 +1,97 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCPAuditLog } from '../../../interfaces/IMCPAudit';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const QUERY_AUDIT_COMMAND_META: IMCPCommandMeta = {
+  name: 'query',
+  description: 'List audit records of command executions, newest first',
+  category: 'security',
+  requiresAuth: true,
+  permissions: ['audit:read'],
+  parameters: [
+    {
+      name: 'user',
+      description: 'Only records of this username or user id',
+      type: 'string',
+      required: false,
+    },
+    {
+      name: 'command',
+      description: 'Only records of this module (e.g. fs) or command (e.g. fs.readFile)',
+      type: 'string',
+      required: false,
+    },
+    {
+      name: 'since',
+      description: 'Only records from this time on, as an ISO date or milliseconds since the epoch',
+      type: 'string',
+      required: false,
+    },
+    {
+      name: 'until',
+      description: 'Only records up to this time, as an ISO date or milliseconds since the epoch',
+      type: 'string',
+      required: false,
+    },
+    {
+      name: 'limit',
+      description: 'Maximum number of records to list',
+      type: 'number',
+      required: false,
+      default: 100,
+      min: 1,
+    },
+  ],
+};
+
+/**
+ * Parse a time given as an ISO date or as milliseconds since the epoch
+ * @param value Time
+ * @returns Milliseconds since the epoch, NaN if the value is not a time
+ */
+function parseTime(value: string): number {
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+/**
+ * Command to query the audit log
+ */
+export class QueryAuditCommand extends BaseCommand {
+  private audit: IMCPAuditLog;
+  
+  constructor(audit: IMCPAuditLog) {
+    super(QUERY_AUDIT_COMMAND_META);
+    this.audit = audit;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const since = params.since === undefined ? undefined : parseTime(params.since);
+    const until = params.until === undefined ? undefined : parseTime(params.until);
+    
+    if (Number.isNaN(since) || Number.isNaN(until)) {
+      return {
+        success: false,
+        error: `Invalid time ${Number.isNaN(since) ? params.since : params.until}, expected an ISO date or milliseconds`,
+        status: 'invalid',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const records = await this.audit.query({
+      user: params.user,
+      command: params.command,
+      since,
+      until,
+      limit: params.limit,
+    });
+    
+    return {
+      success: true,
+      data: { records },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCPAuditLog } from '../../../interfaces/IMCPAudit';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const VERIFY_AUDIT_COMMAND_META: IMCPCommandMeta = {
+  name: 'verify',
+  description: 'Check the hash chain of the audit log for changed, inserted or removed records',
+  category: 'security',
+  requiresAuth: true,
+  permissions: ['audit:read'],
+  parameters: [],
+};
+
+/**
+ * Command to verify the audit log
+ */
+export class VerifyAuditCommand extends BaseCommand {
+  private audit: IMCPAuditLog;
+  
+  constructor(audit: IMCPAuditLog) {
+    super(VERIFY_AUDIT_COMMAND_META);
+    this.audit = audit;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const verification = await this.audit.verify();
+    
+    // A broken chain is a finding, not a failure of the command
+    return {
+      success: true,
+      data: verification,
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { BaseModule } from '../../core/BaseModule';
+import { IMCPModuleMeta, IMCPModuleInitOptions } from '../../interfaces/IMCPModule';
+import logger from '../../utils/logger';
+import { QueryAuditCommand } from './commands/QueryAuditCommand';
+import { VerifyAuditCommand } from './commands/VerifyAuditCommand';
+
+const AUDIT_MODULE_META: IMCPModuleMeta = {
+  name: 'audit',
+  description: 'Audit module for querying and verifying the log of command executions',
+  author: 'MCP System',
+  version: '1.0.0',
+};
+
+/**
+ * Audit module for MCP
+ * Exposes the MCP audit log as commands
+ */
+export default class AuditModule extends BaseModule {
+  constructor() {
+    super(AUDIT_MODULE_META);
+  }
+  
+  /**
+   * Initialize the audit module
+   */
+  protected async onInitialize(options?: IMCPModuleInitOptions): Promise<boolean> {
+    logger.info('Initializing audit module');
+    
+    if (!options?.mcp) {
+      logger.error('Audit module requires the MCP instance to access the audit log');
+      return false;
+    }
+    
+    const audit = options.mcp.audit;
+    
+    // Register commands
+    this.registerCommand(new QueryAuditCommand(audit));
+    this.registerCommand(new VerifyAuditCommand(audit));
+    
+    logger.info('Audit module initialized successfully');
+    return true;
+  }
+  
+  /**
+   * Shutdown the audit module
+   */
+  protected async onShutdown(): Promise<void> {
+    logger.info('Audit module shut down successfully');
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { exceedingScopes, scopesAllow } from '../../../security/Scope';
+
+const CREATE_API_KEY_COMMAND_META: IMCPCommandMeta = {
+  name: 'apiKey.create',
+  description: 'Create an API key for the caller, or for another user with user:write; the key is only shown once',
+  category: 'security',
+  sensitive: true,
+  requiresAuth: true,
+  parameters: [
+    {
+      name: 'name',
+      description: 'What the key is used for',
+      type: 'string',
+      required: false,
+    },
+    {
+      name: 'roles',
+      description: 'Roles to restrict the key to, all of the user\'s scopes if omitted; repeat the parameter for several',
+      type: 'array',
+      required: false,
+    },
+    {
+      name: 'user',
+      description: 'Username of another user, requires user:write',
+      type: 'string',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to create an API key
+ */
+export class CreateApiKeyCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(CREATE_API_KEY_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      return {
+        success: false,
+        error: 'Security is disabled',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const { permissions } = context.securityContext;
+    const caller = context.userId ? securityManager.getUser(context.userId) : undefined;
+    const username = params.user || caller?.username;
+    
+    if (username !== caller?.username && !scopesAllow(permissions, 'user:write')) {
+      return {
+        success: false,
+        error: 'Creating API keys for another user requires user:write',
+        status: 'forbidden',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const user = username ? securityManager.findUser(username) : undefined;
+    
+    if (!user) {
+      return {
+        success: false,
+        error: `User ${username} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const roles: string[] | undefined = Array.isArray(params.roles) ? params.roles.map(String) : undefined;
+    const unknownRole = roles?.find((role) => !securityManager.getRole(role));
+    
+    if (unknownRole) {
+      return {
+        success: false,
+        error: `Role ${unknownRole} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    // A key must not carry more than the session creating it, e.g. one from a restricted key
+    const scopes = securityManager.getScopes(user.id, roles);
+    const exceeding = exceedingScopes(permissions, scopes);
+    
+    if (exceeding.length > 0) {
+      return {
+        success: false,
+        error: `The key would carry scopes the caller does not hold: ${exceeding.join(', ')}`,
+        status: 'forbidden',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const created = await securityManager.createApiKey(user.username, { roles, name: params.name });
+    
+    return {
+      success: true,
+      data: {
+        key: created!.key,
+        prefix: created!.apiKey.prefix,
+        name: created!.apiKey.name,
+        user: user.username,
+        scopes,
+      },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
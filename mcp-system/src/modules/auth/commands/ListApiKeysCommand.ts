@@ -0,0 +1,76 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { scopesAllow } from '../../../security/Scope';
+
+const LIST_API_KEYS_COMMAND_META: IMCPCommandMeta = {
+  name: 'apiKey.list',
+  description: 'List the API keys of the caller, or of another user with user:read, by prefix',
+  category: 'security',
+  requiresAuth: true,
+  parameters: [
+    {
+      name: 'user',
+      description: 'Username of another user, requires user:read',
+      type: 'string',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to list API keys
+ */
+export class ListApiKeysCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(LIST_API_KEYS_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      return {
+        success: false,
+        error: 'Security is disabled',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const caller = context.userId ? securityManager.getUser(context.userId) : undefined;
+    const username = params.user || caller?.username;
+    
+    if (username !== caller?.username && !scopesAllow(context.securityContext.permissions, 'user:read')) {
+      return {
+        success: false,
+        error: 'Listing the API keys of another user requires user:read',
+        status: 'forbidden',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const apiKeys = username ? securityManager.listApiKeys(username) : undefined;
+    
+    if (!apiKeys) {
+      return {
+        success: false,
+        error: `User ${username} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      // The hash stays on the server
+      data: apiKeys.map(({ hash, ...apiKey }) => apiKey),
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const LOGIN_COMMAND_META: IMCPCommandMeta = {
+  name: 'login',
+  description: 'Log in with a username and password, returning a session token and a refresh token',
+  category: 'security',
+  sensitive: true,
+  parameters: [
+    {
+      name: 'username',
+      description: 'Username',
+      type: 'string',
+      required: true,
+    },
+    {
+      name: 'password',
+      description: 'Password',
+      type: 'string',
+      required: true,
+    },
+  ],
+};
+
+/**
+ * Command to start a session
+ */
+export class LoginCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(LOGIN_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      return {
+        success: false,
+        error: 'Security is disabled',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const result = await securityManager.authenticate(params.username, params.password);
+    
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+        status: 'unauthorized',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: {
+        userId: result.userId,
+        token: result.token,
+        refreshToken: result.refreshToken,
+        expiresAt: result.expiresAt,
+        scopes: result.scopes,
+      },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
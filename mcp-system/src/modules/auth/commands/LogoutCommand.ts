@@ -0,0 +1,70 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const LOGOUT_COMMAND_META: IMCPCommandMeta = {
+  name: 'logout',
+  description: 'Log out, revoking the session token and its refresh token at once',
+  category: 'security',
+  parameters: [
+    {
+      name: 'token',
+      description: 'Access or refresh token of the session, the caller\'s session token by default',
+      type: 'string',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to end a session
+ */
+export class LogoutCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(LOGOUT_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      return {
+        success: false,
+        error: 'Security is disabled',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const token = params.token || context.securityContext.authToken;
+    
+    if (!token) {
+      return {
+        success: false,
+        error: 'Not logged in, pass the token of the session to end',
+        status: 'unauthorized',
+        timestamp: Date.now(),
+      };
+    }
+    
+    if (!await securityManager.logout(token)) {
+      return {
+        success: false,
+        error: 'Invalid, expired or already revoked token',
+        status: 'unauthorized',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: { loggedOut: true },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const REFRESH_COMMAND_META: IMCPCommandMeta = {
+  name: 'refresh',
+  description: 'Exchange a refresh token for a new session token and refresh token',
+  category: 'security',
+  sensitive: true,
+  parameters: [
+    {
+      name: 'refreshToken',
+      description: 'Refresh token, which can only be used once',
+      type: 'string',
+      required: true,
+    },
+  ],
+};
+
+/**
+ * Command to renew a session
+ */
+export class RefreshCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(REFRESH_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      return {
+        success: false,
+        error: 'Security is disabled',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const result = await securityManager.refresh(params.refreshToken);
+    
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Cannot refresh the session: ${result.error}`,
+        status: 'unauthorized',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: {
+        userId: result.userId,
+        token: result.token,
+        refreshToken: result.refreshToken,
+        expiresAt: result.expiresAt,
+        scopes: result.scopes,
+      },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
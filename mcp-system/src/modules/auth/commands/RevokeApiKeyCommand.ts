@@ -0,0 +1,64 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { scopesAllow } from '../../../security/Scope';
+
+const REVOKE_API_KEY_COMMAND_META: IMCPCommandMeta = {
+  name: 'apiKey.revoke',
+  description: 'Revoke an API key of the caller, or of any user with user:write',
+  category: 'security',
+  requiresAuth: true,
+  parameters: [
+    {
+      name: 'key',
+      description: 'API key, or its prefix as shown by auth.apiKey.list',
+      type: 'string',
+      required: true,
+    },
+  ],
+};
+
+/**
+ * Command to revoke an API key
+ */
+export class RevokeApiKeyCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(REVOKE_API_KEY_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      return {
+        success: false,
+        error: 'Security is disabled',
+        timestamp: Date.now(),
+      };
+    }
+    
+    // Without user:write only the caller's own keys can be revoked
+    const owner = scopesAllow(context.securityContext.permissions, 'user:write') ? undefined : context.userId;
+    
+    if (!await securityManager.revokeApiKey(params.key, owner)) {
+      return {
+        success: false,
+        error: 'API key not found',
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: { revoked: true },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const WHOAMI_COMMAND_META: IMCPCommandMeta = {
+  name: 'whoami',
+  description: 'Show who the caller is authenticated as, with their roles and scopes',
+  category: 'security',
+};
+
+/**
+ * Command to show the caller's identity
+ */
+export class WhoamiCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(WHOAMI_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    const { isAuthenticated, permissions, authToken } = context.securityContext;
+    
+    if (!securityManager || !isAuthenticated || !context.userId) {
+      return {
+        success: true,
+        data: { authenticated: false, securityEnabled: Boolean(securityManager) },
+        timestamp: Date.now(),
+      };
+    }
+    
+    const user = securityManager.getUser(context.userId);
+    const session = authToken ? securityManager.validateToken(authToken) : undefined;
+    
+    return {
+      success: true,
+      data: {
+        authenticated: true,
+        userId: context.userId,
+        username: user?.username,
+        // A session from a restricted API key only carries the key's roles
+        roles: session?.roles || user?.roles || [],
+        scopes: permissions,
+        expiresAt: session?.expiresAt,
+      },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
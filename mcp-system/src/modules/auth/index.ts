@@ -0,0 +1,58 @@
+import { BaseModule } from '../../core/BaseModule';
+import { IMCPModuleMeta, IMCPModuleInitOptions } from '../../interfaces/IMCPModule';
+import logger from '../../utils/logger';
+import { LoginCommand } from './commands/LoginCommand';
+import { LogoutCommand } from './commands/LogoutCommand';
+import { RefreshCommand } from './commands/RefreshCommand';
+import { WhoamiCommand } from './commands/WhoamiCommand';
+import { CreateApiKeyCommand } from './commands/CreateApiKeyCommand';
+import { ListApiKeysCommand } from './commands/ListApiKeysCommand';
+import { RevokeApiKeyCommand } from './commands/RevokeApiKeyCommand';
+
+const AUTH_MODULE_META: IMCPModuleMeta = {
+  name: 'auth',
+  description: 'Authentication module for logging in, managing session tokens and API keys',
+  author: 'MCP System',
+  version: '1.0.0',
+};
+
+/**
+ * Authentication module for MCP
+ * Manages the sessions and API keys of the security manager
+ */
+export default class AuthModule extends BaseModule {
+  constructor() {
+    super(AUTH_MODULE_META);
+  }
+  
+  /**
+   * Initialize the authentication module
+   */
+  protected async onInitialize(options?: IMCPModuleInitOptions): Promise<boolean> {
+    logger.info('Initializing authentication module');
+    
+    if (!options?.mcp) {
+      logger.error('Authentication module requires the MCP instance to reach the security manager');
+      return false;
+    }
+    
+    // Register commands
+    this.registerCommand(new LoginCommand(options.mcp));
+    this.registerCommand(new LogoutCommand(options.mcp));
+    this.registerCommand(new RefreshCommand(options.mcp));
+    this.registerCommand(new WhoamiCommand(options.mcp));
+    this.registerCommand(new CreateApiKeyCommand(options.mcp));
+    this.registerCommand(new ListApiKeysCommand(options.mcp));
+    this.registerCommand(new RevokeApiKeyCommand(options.mcp));
+    
+    logger.info('Authentication module initialized successfully');
+    return true;
+  }
+  
+  /**
+   * Shutdown the authentication module
+   */
+  protected async onShutdown(): Promise<void> {
+    logger.info('Authentication module shut down successfully');
+  }
+} 
\ No newline at end of file
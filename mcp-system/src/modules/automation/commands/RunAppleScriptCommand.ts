@@ -10,6 +10,14 @@ const RUN_APPLESCRIPT_COMMAND_META: IMCPCommandMeta = {
   name: 'runAppleScript',
   description: 'Execute an AppleScript command or script',
   author: 'MCP System',
+  parameters: [
+    {
+      name: 'script',
+      description: 'The AppleScript source to execute',
+      type: 'string',
+      required: true,
+    },
+  ],
 };
 
 /**
@@ -38,7 +46,9 @@ export class RunAppleScriptCommand extends BaseCommand {
       logger.info('Executing AppleScript', { scriptLength: script.length });
       
       // Execute the AppleScript
-      const { stdout, stderr } = await execAsync(`osascript -e '${script.replace(/'/g, "'\\''")}'`);
+      const { stdout, stderr } = await execAsync(`osascript -e '${script.replace(/'/g, "'\\''")}'`, {
+        signal: context.signal,
+      });
       
       if (stderr) {
         logger.warn(`AppleScript execution warning: ${stderr}`);
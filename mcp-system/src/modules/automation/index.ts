@@ -18,7 +18,7 @@ const AUTOMATION_MODULE_META: IMCPModuleMeta = {
  * Automation module for MCP
  * Handles system automation tasks using AppleScript and other macOS technologies
  */
-export class AutomationModule extends BaseModule {
+export default class AutomationModule extends BaseModule {
   constructor() {
     super(AUTOMATION_MODULE_META);
   }
@@ -0,0 +1,69 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { PathExpressionError, parsePathExpression, resolvePathReference } from '../../../core/PathExpression';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { redactSecrets } from '../../../utils/redact';
+
+const GET_CONFIG_COMMAND_META: IMCPCommandMeta = {
+  name: 'get',
+  description: 'Show the effective configuration, with secrets redacted',
+  category: 'system',
+  requiresAuth: true,
+  permissions: ['system:read'],
+  parameters: [
+    {
+      name: 'key',
+      description: 'Setting to show, e.g. "jobConcurrency" or "moduleOptions.memory" (default: all settings)',
+      type: 'string',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to show the effective configuration
+ */
+export class GetConfigCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(GET_CONFIG_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const config = redactSecrets(this.mcp.config);
+    
+    if (!params.key) {
+      return {
+        success: true,
+        data: config,
+        timestamp: Date.now(),
+      };
+    }
+    
+    try {
+      return {
+        success: true,
+        data: {
+          key: params.key,
+          value: resolvePathReference(parsePathExpression(`$.${params.key}`), config),
+        },
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      if (!(error instanceof PathExpressionError)) {
+        throw error;
+      }
+      
+      return {
+        success: false,
+        error: `Unknown config setting ${params.key}`,
+        timestamp: Date.now(),
+      };
+    }
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { BaseModule } from '../../core/BaseModule';
+import { IMCPModuleMeta, IMCPModuleInitOptions } from '../../interfaces/IMCPModule';
+import logger from '../../utils/logger';
+import { GetConfigCommand } from './commands/GetConfigCommand';
+
+const CONFIG_MODULE_META: IMCPModuleMeta = {
+  name: 'config',
+  description: 'Configuration module for inspecting the effective MCP configuration',
+  author: 'MCP System',
+  version: '1.0.0',
+};
+
+/**
+ * Config module for MCP
+ * Exposes the layered MCP configuration as commands
+ */
+export default class ConfigModule extends BaseModule {
+  constructor() {
+    super(CONFIG_MODULE_META);
+  }
+  
+  /**
+   * Initialize the config module
+   */
+  protected async onInitialize(options?: IMCPModuleInitOptions): Promise<boolean> {
+    logger.info('Initializing config module');
+    
+    if (!options?.mcp) {
+      logger.error('Config module requires the MCP instance to read the configuration');
+      return false;
+    }
+    
+    // Register commands
+    this.registerCommand(new GetConfigCommand(options.mcp));
+    
+    logger.info('Config module initialized successfully');
+    return true;
+  }
+  
+  /**
+   * Shutdown the config module
+   */
+  protected async onShutdown(): Promise<void> {
+    logger.info('Config module shut down successfully');
+  }
+} 
\ No newline at end of file
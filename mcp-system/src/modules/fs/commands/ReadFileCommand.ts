@@ -10,9 +10,25 @@ import logger from '../../../utils/logger';
 const READ_FILE_COMMAND_META: IMCPCommandMeta = {
   name: 'readFile',
   description: 'Read the contents of a file',
+  parameters: [
+    {
+      name: 'path',
+      description: 'Path of the file to read, relative to the working directory',
+      type: 'path',
+      required: true,
+    },
+    {
+      name: 'encoding',
+      description: 'Encoding used to decode the file',
+      type: 'enum',
+      required: false,
+      default: 'utf8',
+      values: ['utf8', 'ascii', 'base64', 'hex', 'latin1', 'utf16le'],
+    },
+  ],
   category: 'file',
   requiresAuth: false,
-  permissions: ['fs.read'],
+  permissions: ['fs:read'],
 };
 
 /**
@@ -69,7 +85,7 @@ export class ReadFileCommand extends BaseCommand {
       
       // Read file
       const encoding = params.encoding as BufferEncoding || 'utf8';
-      const content = await fs.readFile(filePath, { encoding });
+      const content = await fs.promises.readFile(filePath, { encoding, signal: context.signal });
       
       // Get file info
       const fileInfo = {
@@ -1,5 +1,9 @@
+import os from 'os';
+import path from 'path';
 import { BaseModule } from '../../core/BaseModule';
+import { checkDirectoryWritable } from '../../core/HealthCheck';
 import { IMCPModuleMeta, IMCPModuleInitOptions } from '../../interfaces/IMCPModule';
+import { MCPHealthProbe } from '../../interfaces/IMCPHealth';
 import logger from '../../utils/logger';
 import { ReadFileCommand } from './commands/ReadFileCommand';
 
@@ -18,6 +22,9 @@ const FS_MODULE_META: IMCPModuleMeta = {
  * File system module for MCP
  */
 export default class FileSystemModule extends BaseModule {
+  /** Directories the health check expects to be writable */
+  private writableDirectories: string[] = [];
+  
   /**
    * Create a new file system module
    */
@@ -27,12 +34,20 @@ export default class FileSystemModule extends BaseModule {
   
   /**
    * Initialize the file system module
+   *
+   * Options: `writableDirectories`, the directory or directories the health
+   * check expects to be writable (default: the data directory and the temp
+   * directory).
    * @param options Initialization options
    */
   protected async onInitialize(options?: IMCPModuleInitOptions): Promise<boolean> {
     try {
       logger.info('Initializing file system module');
       
+      const dataDirectory = options?.dataDirectory || path.join(process.cwd(), 'data');
+      const writableDirectories = options?.writableDirectories || [dataDirectory, os.tmpdir()];
+      this.writableDirectories = Array.isArray(writableDirectories) ? writableDirectories : [writableDirectories];
+      
       // Register commands
       this.registerCommand(new ReadFileCommand());
       
@@ -45,6 +60,15 @@ export default class FileSystemModule extends BaseModule {
     }
   }
   
+  /**
+   * Check that the configured directories are writable
+   */
+  protected getHealthProbes(): Record<string, MCPHealthProbe> {
+    return Object.fromEntries(
+      this.writableDirectories.map((directory) => [`writable:${directory}`, () => checkDirectoryWritable(directory)])
+    );
+  }
+  
   /**
    * Shutdown the file system module
    */
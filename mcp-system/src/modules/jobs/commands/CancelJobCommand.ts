@@ -0,0 +1,63 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { IMCPJobQueue } from '../../../interfaces/IMCPJob';
+import { mayAccessJob, summarizeJob } from './JobStatusCommand';
+
+const CANCEL_JOB_COMMAND_META: IMCPCommandMeta = {
+  name: 'cancel',
+  description: 'Cancel a queued or running asynchronous job',
+  category: 'jobs',
+  requiresAuth: true,
+  parameters: [
+    {
+      name: 'jobId',
+      description: 'Id of the job',
+      type: 'string',
+      required: true,
+    },
+  ],
+};
+
+/**
+ * Command to cancel a job
+ */
+export class CancelJobCommand extends BaseCommand {
+  private jobs: IMCPJobQueue;
+  
+  constructor(jobs: IMCPJobQueue) {
+    super(CANCEL_JOB_COMMAND_META);
+    this.jobs = jobs;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const existing = this.jobs.get(params.jobId);
+    
+    if (!existing || !mayAccessJob(existing, context)) {
+      return {
+        success: false,
+        error: `Job ${params.jobId} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    try {
+      const job = await this.jobs.cancel(params.jobId);
+      
+      return {
+        success: true,
+        data: summarizeJob(job),
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Failed to cancel job: ${error.message}`,
+        timestamp: Date.now(),
+      };
+    }
+  }
+} 
\ No newline at end of file
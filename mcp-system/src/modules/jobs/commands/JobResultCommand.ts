@@ -0,0 +1,73 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { IMCPJobQueue } from '../../../interfaces/IMCPJob';
+import { mayAccessJob } from './JobStatusCommand';
+
+const JOB_RESULT_COMMAND_META: IMCPCommandMeta = {
+  name: 'result',
+  description: 'Get the result of a finished asynchronous job',
+  category: 'jobs',
+  requiresAuth: true,
+  parameters: [
+    {
+      name: 'jobId',
+      description: 'Id of the job',
+      type: 'string',
+      required: true,
+    },
+  ],
+};
+
+/**
+ * Command to get the result of a job
+ *
+ * Answers with the job's own command result, so a finished job reads the
+ * same as if the command had been run synchronously.
+ */
+export class JobResultCommand extends BaseCommand {
+  private jobs: IMCPJobQueue;
+  
+  constructor(jobs: IMCPJobQueue) {
+    super(JOB_RESULT_COMMAND_META);
+    this.jobs = jobs;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const job = this.jobs.get(params.jobId);
+    
+    if (!job || !mayAccessJob(job, context)) {
+      return {
+        success: false,
+        error: `Job ${params.jobId} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    if (job.status === 'queued' || job.status === 'running') {
+      return {
+        success: false,
+        data: { jobId: job.id, status: job.status },
+        error: `Job ${job.id} has not finished yet`,
+        timestamp: Date.now(),
+      };
+    }
+    
+    if (!job.result) {
+      return {
+        success: false,
+        data: { jobId: job.id, status: job.status },
+        error: job.error || `Job ${job.id} has no result`,
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      ...job.result,
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { IMCPJob, IMCPJobQueue } from '../../../interfaces/IMCPJob';
+import { scopesAllow } from '../../../security/Scope';
+
+/**
+ * Scope letting a caller see and cancel the jobs of every user
+ */
+export const JOBS_ADMIN_SCOPE = 'jobs:*';
+
+const JOB_STATUS_COMMAND_META: IMCPCommandMeta = {
+  name: 'status',
+  description: 'Show the status of an asynchronous job',
+  category: 'jobs',
+  requiresAuth: true,
+  parameters: [
+    {
+      name: 'jobId',
+      description: 'Id of the job',
+      type: 'string',
+      required: true,
+    },
+  ],
+};
+
+/**
+ * Summarize a job without its parameters and result
+ * @param job Job to summarize
+ */
+export function summarizeJob(job: IMCPJob) {
+  return {
+    jobId: job.id,
+    command: `${job.moduleName}.${job.commandName}`,
+    status: job.status,
+    error: job.error,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  };
+}
+
+/**
+ * Check whether a caller may see and cancel a job
+ * @param job Job
+ * @param context Command execution context of the caller
+ */
+export function mayAccessJob(job: IMCPJob, context: IMCPCommandContext): boolean {
+  return job.userId === context.userId || scopesAllow(context.securityContext.permissions, JOBS_ADMIN_SCOPE);
+}
+
+/**
+ * Command to show the status of a job
+ */
+export class JobStatusCommand extends BaseCommand {
+  private jobs: IMCPJobQueue;
+  
+  constructor(jobs: IMCPJobQueue) {
+    super(JOB_STATUS_COMMAND_META);
+    this.jobs = jobs;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const job = this.jobs.get(params.jobId);
+    
+    // Jobs of other users are not revealed
+    if (!job || !mayAccessJob(job, context)) {
+      return {
+        success: false,
+        error: `Job ${params.jobId} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: summarizeJob(job),
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { IMCPJobQueue } from '../../../interfaces/IMCPJob';
+import { mayAccessJob, summarizeJob } from './JobStatusCommand';
+
+const LIST_JOBS_COMMAND_META: IMCPCommandMeta = {
+  name: 'list',
+  description: 'List the caller\'s asynchronous jobs, or those of every user with jobs:*, most recent first',
+  category: 'jobs',
+  requiresAuth: true,
+  parameters: [
+    {
+      name: 'status',
+      description: 'Only list jobs with this status',
+      type: 'enum',
+      required: false,
+      values: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+    },
+    {
+      name: 'limit',
+      description: 'Maximum number of jobs to list',
+      type: 'number',
+      required: false,
+      default: 50,
+      min: 1,
+    },
+  ],
+};
+
+/**
+ * Command to list jobs
+ */
+export class ListJobsCommand extends BaseCommand {
+  private jobs: IMCPJobQueue;
+  
+  constructor(jobs: IMCPJobQueue) {
+    super(LIST_JOBS_COMMAND_META);
+    this.jobs = jobs;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const jobs = this.jobs.list(params.status)
+      .filter((job) => mayAccessJob(job, context))
+      .slice(0, params.limit)
+      .map(summarizeJob);
+    
+    return {
+      success: true,
+      data: { jobs },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
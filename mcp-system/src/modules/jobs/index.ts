@@ -0,0 +1,54 @@
+import { BaseModule } from '../../core/BaseModule';
+import { IMCPModuleMeta, IMCPModuleInitOptions } from '../../interfaces/IMCPModule';
+import logger from '../../utils/logger';
+import { JobStatusCommand } from './commands/JobStatusCommand';
+import { JobResultCommand } from './commands/JobResultCommand';
+import { ListJobsCommand } from './commands/ListJobsCommand';
+import { CancelJobCommand } from './commands/CancelJobCommand';
+
+const JOBS_MODULE_META: IMCPModuleMeta = {
+  name: 'jobs',
+  description: 'Jobs module for inspecting and cancelling commands run with async=true',
+  author: 'MCP System',
+  version: '1.0.0',
+};
+
+/**
+ * Jobs module for MCP
+ * Exposes the MCP job queue as commands
+ */
+export default class JobsModule extends BaseModule {
+  constructor() {
+    super(JOBS_MODULE_META);
+  }
+  
+  /**
+   * Initialize the jobs module
+   */
+  protected async onInitialize(options?: IMCPModuleInitOptions): Promise<boolean> {
+    logger.info('Initializing jobs module');
+    
+    if (!options?.mcp) {
+      logger.error('Jobs module requires the MCP instance to access the job queue');
+      return false;
+    }
+    
+    const jobs = options.mcp.jobs;
+    
+    // Register commands
+    this.registerCommand(new JobStatusCommand(jobs));
+    this.registerCommand(new JobResultCommand(jobs));
+    this.registerCommand(new ListJobsCommand(jobs));
+    this.registerCommand(new CancelJobCommand(jobs));
+    
+    logger.info('Jobs module initialized successfully');
+    return true;
+  }
+  
+  /**
+   * Shutdown the jobs module
+   */
+  protected async onShutdown(): Promise<void> {
+    logger.info('Jobs module shut down successfully');
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { commandToJsonSchema } from '../../../core/CommandSchema';
+import { IMCP } from '../../../interfaces/IMCP';
+import {
+  IMCPCommand,
+  IMCPCommandContext,
+  IMCPCommandMeta,
+  IMCPCommandParams,
+  IMCPCommandResult,
+} from '../../../interfaces/IMCPCommand';
+import { IMCPModule } from '../../../interfaces/IMCPModule';
+
+const DESCRIBE_COMMAND_META: IMCPCommandMeta = {
+  name: 'describe',
+  description: 'Describe a module or a command, including the JSON Schema of its parameters',
+  category: 'system',
+  parameters: [
+    {
+      name: 'name',
+      description: 'Module name (e.g. "fs") or full command name (e.g. "fs.readFile")',
+      type: 'string',
+      required: true,
+    },
+  ],
+};
+
+/**
+ * Find the module, and the command if the name has one
+ * @param mcp MCP instance
+ * @param name Module name or full command name
+ * @returns The module and command, or an error message
+ */
+export function findTarget(
+  mcp: IMCP,
+  name: string
+): { module?: IMCPModule; command?: IMCPCommand; error?: string } {
+  const separator = name.indexOf('.');
+  const moduleName = separator === -1 ? name : name.slice(0, separator);
+  const module = mcp.modules.get(moduleName);
+  
+  if (!module) {
+    return { error: `Module ${moduleName} not found` };
+  }
+  
+  if (separator === -1) {
+    return { module };
+  }
+  
+  const commandName = name.slice(separator + 1);
+  const command = module.getCommand(commandName);
+  
+  return command ? { module, command } : { error: `Command ${commandName} not found in module ${moduleName}` };
+}
+
+/**
+ * Command to describe a module or a command
+ */
+export class DescribeCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(DESCRIBE_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const { module, command, error } = findTarget(this.mcp, params.name);
+    
+    if (!module) {
+      return {
+        success: false,
+        error,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    if (command) {
+      return {
+        success: true,
+        data: {
+          module: module.meta.name,
+          ...command.meta,
+          schema: commandToJsonSchema(module.meta.name, command.meta),
+        },
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: {
+        ...module.meta,
+        commands: Array.from(module.commands.values()).map((moduleCommand) => ({
+          ...moduleCommand.meta,
+          schema: commandToJsonSchema(module.meta.name, moduleCommand.meta),
+        })),
+      },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
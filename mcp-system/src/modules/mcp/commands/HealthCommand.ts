@@ -0,0 +1,49 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const HEALTH_COMMAND_META: IMCPCommandMeta = {
+  name: 'health',
+  description: 'Run the health checks of the modules and report ok, degraded or failed per module',
+  category: 'system',
+  parameters: [
+    {
+      name: 'module',
+      description: 'Only check this module',
+      type: 'string',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to report the health of the loaded modules
+ */
+export class HealthCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(HEALTH_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    if (params.module && !this.mcp.modules.has(params.module)) {
+      return {
+        success: false,
+        error: `Module ${params.module} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: await this.mcp.checkHealth(params.module ? [params.module] : undefined),
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { IMCPModule } from '../../../interfaces/IMCPModule';
+import { findTarget } from './DescribeCommand';
+
+const HELP_COMMAND_META: IMCPCommandMeta = {
+  name: 'help',
+  description: 'Show help for the MCP, a module or a command',
+  category: 'system',
+  parameters: [
+    {
+      name: 'name',
+      description: 'Module name (e.g. "fs") or full command name (e.g. "fs.readFile")',
+      type: 'string',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to show help text
+ */
+export class HelpCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(HELP_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    if (!params.name) {
+      const modules = Array.from(this.mcp.modules.values())
+        .map((module) => `  ${module.meta.name}: ${module.meta.description}`)
+        .join('\n');
+      
+      return {
+        success: true,
+        data: `Modules:\n${modules}\n\nRun mcp.help <module> to list its commands, or mcp.help <module>.<command> for a command.`,
+        timestamp: Date.now(),
+      };
+    }
+    
+    const { module, command, error } = findTarget(this.mcp, params.name);
+    
+    if (!module) {
+      return {
+        success: false,
+        error,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: command ? command.help() : this.moduleHelp(module),
+      timestamp: Date.now(),
+    };
+  }
+  
+  /**
+   * Build the help text of a module
+   * @param module Module to describe
+   */
+  private moduleHelp(module: IMCPModule): string {
+    const commands = Array.from(module.commands.values())
+      .map((command) => `  ${module.meta.name}.${command.meta.name}: ${command.meta.description}`)
+      .join('\n');
+    
+    return `
+Module: ${module.meta.name}
+Description: ${module.meta.description}
+Version: ${module.meta.version}
+Commands:
+${commands || '  None'}
+    `.trim();
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const LIST_COMMANDS_COMMAND_META: IMCPCommandMeta = {
+  name: 'listCommands',
+  description: 'List the available commands',
+  category: 'system',
+  parameters: [
+    {
+      name: 'module',
+      description: 'Only list the commands of this module',
+      type: 'string',
+      required: false,
+    },
+    {
+      name: 'category',
+      description: 'Only list the commands in this category',
+      type: 'string',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to list the available commands
+ */
+export class ListCommandsCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(LIST_COMMANDS_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    if (params.module && !this.mcp.modules.has(params.module)) {
+      return {
+        success: false,
+        error: `Module ${params.module} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const commands = Array.from(this.mcp.modules.values())
+      .filter((module) => !params.module || module.meta.name === params.module)
+      .flatMap((module) =>
+        Array.from(module.commands.values()).map((command) => ({
+          command: `${module.meta.name}.${command.meta.name}`,
+          description: command.meta.description,
+          category: command.meta.category,
+          requiresAuth: command.meta.requiresAuth || false,
+        }))
+      )
+      .filter((command) => !params.category || command.category === params.category);
+    
+    return {
+      success: true,
+      data: { commands },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
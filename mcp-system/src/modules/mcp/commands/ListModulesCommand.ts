@@ -0,0 +1,38 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const LIST_MODULES_COMMAND_META: IMCPCommandMeta = {
+  name: 'listModules',
+  description: 'List the loaded modules',
+  category: 'system',
+  parameters: [],
+};
+
+/**
+ * Command to list the loaded modules
+ */
+export class ListModulesCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(LIST_MODULES_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const modules = Array.from(this.mcp.modules.values()).map((module) => ({
+      ...module.meta,
+      commands: Array.from(module.commands.keys()),
+    }));
+    
+    return {
+      success: true,
+      data: { modules },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const METRICS_COMMAND_META: IMCPCommandMeta = {
+  name: 'metrics',
+  description: 'Show command counters, latency histograms and gauges',
+  category: 'system',
+  parameters: [
+    {
+      name: 'format',
+      description: 'prometheus for the text exposition format, json for the metric series',
+      type: 'enum',
+      values: ['prometheus', 'json'],
+      required: false,
+      default: 'prometheus',
+    },
+  ],
+  requiresAuth: true,
+  permissions: ['metrics:read'],
+};
+
+/**
+ * Command to export the metrics registry
+ */
+export class MetricsCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(METRICS_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    return {
+      success: true,
+      data: params.format === 'json' ? this.mcp.metrics.snapshot() : this.mcp.metrics.render(),
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { catalogToJsonSchema } from '../../../core/CommandSchema';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const SCHEMA_COMMAND_META: IMCPCommandMeta = {
+  name: 'schema',
+  description: 'Export the parameters of every command as a JSON Schema document',
+  category: 'system',
+  parameters: [
+    {
+      name: 'module',
+      description: 'Only export the commands of this module',
+      type: 'string',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to export the command catalog as JSON Schema
+ */
+export class SchemaCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(SCHEMA_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const modules = Array.from(this.mcp.modules.values()).filter(
+      (module) => !params.module || module.meta.name === params.module
+    );
+    
+    if (params.module && modules.length === 0) {
+      return {
+        success: false,
+        error: `Module ${params.module} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: catalogToJsonSchema(modules),
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { BaseModule } from '../../core/BaseModule';
+import { IMCPModuleMeta, IMCPModuleInitOptions } from '../../interfaces/IMCPModule';
+import logger from '../../utils/logger';
+import { ListModulesCommand } from './commands/ListModulesCommand';
+import { ListCommandsCommand } from './commands/ListCommandsCommand';
+import { DescribeCommand } from './commands/DescribeCommand';
+import { HelpCommand } from './commands/HelpCommand';
+import { SchemaCommand } from './commands/SchemaCommand';
+import { HealthCommand } from './commands/HealthCommand';
+import { MetricsCommand } from './commands/MetricsCommand';
+
+const MCP_MODULE_META: IMCPModuleMeta = {
+  name: 'mcp',
+  description: 'Introspection module listing and describing the available modules and commands, and reporting their health and metrics',
+  author: 'MCP System',
+  version: '1.0.0',
+};
+
+/**
+ * MCP introspection module
+ * Exposes the module and command registry as commands
+ */
+export default class McpModule extends BaseModule {
+  constructor() {
+    super(MCP_MODULE_META);
+  }
+  
+  /**
+   * Initialize the MCP introspection module
+   */
+  protected async onInitialize(options?: IMCPModuleInitOptions): Promise<boolean> {
+    logger.info('Initializing MCP introspection module');
+    
+    if (!options?.mcp) {
+      logger.error('MCP introspection module requires the MCP instance to read the registry');
+      return false;
+    }
+    
+    // Register commands
+    this.registerCommand(new ListModulesCommand(options.mcp));
+    this.registerCommand(new ListCommandsCommand(options.mcp));
+    this.registerCommand(new DescribeCommand(options.mcp));
+    this.registerCommand(new HelpCommand(options.mcp));
+    this.registerCommand(new SchemaCommand(options.mcp));
+    this.registerCommand(new HealthCommand(options.mcp));
+    this.registerCommand(new MetricsCommand(options.mcp));
+    
+    logger.info('MCP introspection module initialized successfully');
+    return true;
+  }
+  
+  /**
+   * Shutdown the MCP introspection module
+   */
+  protected async onShutdown(): Promise<void> {
+    logger.info('MCP introspection module shut down successfully');
+  }
+} 
\ No newline at end of file
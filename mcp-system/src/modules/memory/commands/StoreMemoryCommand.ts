@@ -4,6 +4,7 @@ import fs from 'fs-extra';
 import path from 'path';
 import crypto from 'crypto';
 import logger from '../../../utils/logger';
+import { EncryptionService } from '../../../security/EncryptionService';
 
 const STORE_MEMORY_COMMAND_META: IMCPCommandMeta = {
   name: 'storeMemory',
@@ -44,10 +45,12 @@ const STORE_MEMORY_COMMAND_META: IMCPCommandMeta = {
  */
 export class StoreMemoryCommand extends BaseCommand {
   private memoryDirectory: string;
+  private encryption?: EncryptionService;
   
-  constructor(memoryDirectory: string) {
+  constructor(memoryDirectory: string, encryption?: EncryptionService) {
     super(STORE_MEMORY_COMMAND_META);
     this.memoryDirectory = memoryDirectory;
+    this.encryption = encryption;
   }
   
   public validate(params: IMCPCommandParams): boolean {
@@ -68,13 +71,21 @@ export class StoreMemoryCommand extends BaseCommand {
       const tags = (params.tags as string[]) || [];
       const encrypt = (params.encrypt as boolean) || false;
       
+      if (encrypt && !this.encryption) {
+        return {
+          success: false,
+          error: 'Encryption is not available',
+          timestamp: Date.now(),
+        };
+      }
+      
       // Create a unique ID for the memory
       const id = crypto.randomUUID();
       
       // Create the memory object
       const memory = {
         id,
-        content: encrypt ? this.encryptContent(content) : content,
+        content: encrypt ? this.encryption!.encrypt(content) : content,
         type,
         tags,
         encrypted: encrypt,
@@ -116,27 +127,4 @@ export class StoreMemoryCommand extends BaseCommand {
       };
     }
   }
-  
-  /**
-   * Encrypt memory content
-   * @param content The content to encrypt
-   * @returns The encrypted content
-   */
-  private encryptContent(content: string): string {
-    try {
-      // In a real implementation, this would use a proper encryption key
-      // For now, we'll use a simple encryption for demonstration
-      const algorithm = 'aes-256-ctr';
-      const secretKey = 'JanetMemoryEncryptionKey'; // This should be stored securely
-      const iv = crypto.randomBytes(16);
-      
-      const cipher = crypto.createCipheriv(algorithm, secretKey, iv);
-      const encrypted = Buffer.concat([cipher.update(content), cipher.final()]);
-      
-      return `${iv.toString('hex')}:${encrypted.toString('hex')}`;
-    } catch (error) {
-      logger.error('Error encrypting content', { error });
-      return content; // Fall back to unencrypted content on error
-    }
-  }
 } 
\ No newline at end of file
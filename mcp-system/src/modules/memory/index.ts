@@ -1,12 +1,16 @@
 import { BaseModule } from '../../core/BaseModule';
+import { checkDirectoryWritable } from '../../core/HealthCheck';
 import { IMCPModuleMeta, IMCPModuleInitOptions } from '../../interfaces/IMCPModule';
+import { MCPHealthProbe } from '../../interfaces/IMCPHealth';
 import logger from '../../utils/logger';
+import { EncryptionService } from '../../security/EncryptionService';
 import { StoreMemoryCommand } from './commands/StoreMemoryCommand';
 // TODO: Implement these commands
 // import { RetrieveMemoryCommand } from './commands/RetrieveMemoryCommand';
 // import { SearchMemoryCommand } from './commands/SearchMemoryCommand';
 // import { DeleteMemoryCommand } from './commands/DeleteMemoryCommand';
 import fs from 'fs-extra';
+import os from 'os';
 import path from 'path';
 
 const MEMORY_MODULE_META: IMCPModuleMeta = {
@@ -16,32 +20,40 @@ const MEMORY_MODULE_META: IMCPModuleMeta = {
   version: '1.0.0',
 };
 
+/**
+ * Where memories were stored before the directory was configurable, the Janet app still reads them there
+ */
+const LEGACY_MEMORY_DIRECTORY = path.join(os.homedir(), 'Library', 'Application Support', 'Janet', 'memory');
+
 /**
  * Memory module for MCP
  * Handles persistent storage and retrieval of AI memories
  */
-export class MemoryModule extends BaseModule {
-  private memoryDirectory: string;
+export default class MemoryModule extends BaseModule {
+  private memoryDirectory: string = '';
   
   constructor() {
     super(MEMORY_MODULE_META);
-    
-    // Set the memory directory to ~/Library/Application Support/Janet/memory
-    this.memoryDirectory = path.join(process.env.HOME || '~', 'Library', 'Application Support', 'Janet', 'memory');
   }
   
   /**
    * Initialize the memory module
+   *
+   * Options: `memoryDirectory`, relative to the data directory (default `memory`).
+   * Without it, an existing `~/Library/Application Support/Janet/memory` is kept.
    */
   protected async onInitialize(options?: IMCPModuleInitOptions): Promise<boolean> {
     try {
       logger.info('Initializing memory module');
       
+      const dataDirectory = options?.dataDirectory || path.join(process.cwd(), 'data');
+      this.memoryDirectory = await this.resolveMemoryDirectory(dataDirectory, options?.memoryDirectory);
+      
       // Ensure the memory directory exists
       await fs.ensureDir(this.memoryDirectory);
       
       // Register commands
-      this.registerCommand(new StoreMemoryCommand(this.memoryDirectory));
+      this.registerCommand(new StoreMemoryCommand(this.memoryDirectory, options?.mcp?.getEncryptionService()));
       // this.registerCommand(new RetrieveMemoryCommand(this.memoryDirectory));
       // this.registerCommand(new SearchMemoryCommand(this.memoryDirectory));
       // this.registerCommand(new DeleteMemoryCommand(this.memoryDirectory));
@@ -54,6 +66,20 @@ export class MemoryModule extends BaseModule {
     }
   }
   
+  /**
+   * Resolve the directory memories are stored in
+   * @param dataDirectory Data directory
+   * @param memoryDirectory Configured memory directory, relative to the data directory
+   */
+  private async resolveMemoryDirectory(dataDirectory: string, memoryDirectory?: string): Promise<string> {
+    if (!memoryDirectory && await fs.pathExists(LEGACY_MEMORY_DIRECTORY)) {
+      logger.info(`Using the existing memory directory ${LEGACY_MEMORY_DIRECTORY}`);
+      return LEGACY_MEMORY_DIRECTORY;
+    }
+    
+    return path.resolve(dataDirectory, memoryDirectory || 'memory');
+  }
+  
   /**
    * Get the memory directory
    */
@@ -61,6 +87,63 @@ export class MemoryModule extends BaseModule {
     return this.memoryDirectory;
   }
 
+  /**
+   * Re-encrypt the encrypted memories with the active key
+   *
+   * Memories stored with `encrypt=true` by earlier versions were written as
+   * plaintext when encryption failed, so those are encrypted now.
+   * @param encryption Encryption service
+   */
+  public async reencrypt(encryption: EncryptionService): Promise<number> {
+    let count = 0;
+    
+    for (const type of await fs.readdir(this.memoryDirectory)) {
+      const typeDirectory = path.join(this.memoryDirectory, type);
+      
+      if (!(await fs.stat(typeDirectory)).isDirectory()) {
+        continue;
+      }
+      
+      for (const file of await fs.readdir(typeDirectory)) {
+        if (!file.endsWith('.json')) {
+          continue;
+        }
+        
+        const memoryPath = path.join(typeDirectory, file);
+        const memory = await fs.readJson(memoryPath);
+        
+        if (!memory.encrypted || typeof memory.content !== 'string') {
+          continue;
+        }
+        
+        const content = encryption.isEncrypted(memory.content)
+          ? encryption.reencrypt(memory.content)
+          : encryption.encrypt(memory.content);
+        
+        if (content === memory.content) {
+          continue;
+        }
+        
+        const tempPath = `${memoryPath}.tmp`;
+        await fs.writeJson(tempPath, { ...memory, content }, { spaces: 2 });
+        await fs.move(tempPath, memoryPath, { overwrite: true });
+        count++;
+      }
+    }
+    
+    logger.info(`Re-encrypted ${count} memories`);
+    return count;
+  }
+  
+  /**
+   * Check that the memory directory is writable
+   */
+  protected getHealthProbes(): Record<string, MCPHealthProbe> {
+    return {
+      memoryDirectory: () => checkDirectoryWritable(this.memoryDirectory),
+    };
+  }
+  
   /**
    * Shutdown the memory module
    */
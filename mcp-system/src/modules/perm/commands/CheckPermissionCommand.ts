@@ -0,0 +1,146 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { isValidScope, normalizeScope, scopeMatches, scopesAllow } from '../../../security/Scope';
+
+const CHECK_PERMISSION_COMMAND_META: IMCPCommandMeta = {
+  name: 'check',
+  description: 'Check whether the caller, or another user, holds a scope or may run a command',
+  category: 'security',
+  parameters: [
+    {
+      name: 'scope',
+      description: 'Scope to check, e.g. fs:read',
+      type: 'string',
+      required: false,
+    },
+    {
+      name: 'command',
+      description: 'Command whose permissions to check, e.g. terminal.execute',
+      type: 'string',
+      required: false,
+    },
+    {
+      name: 'user',
+      description: 'Check this user instead of the caller, requires role:read',
+      type: 'string',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to check permissions
+ */
+export class CheckPermissionCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(CHECK_PERMISSION_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      return {
+        success: false,
+        error: 'Security is disabled, every command is allowed',
+        timestamp: Date.now(),
+      };
+    }
+    
+    if (!params.scope === !params.command) {
+      return {
+        success: false,
+        error: 'Pass either a scope or a command to check',
+        status: 'invalid',
+        timestamp: Date.now(),
+      };
+    }
+    
+    if (params.scope && !isValidScope(params.scope)) {
+      return {
+        success: false,
+        error: `Invalid scope ${params.scope}, expected <resource>:<action>`,
+        status: 'invalid',
+        timestamp: Date.now(),
+      };
+    }
+    
+    // Scopes and authentication of the subject
+    const { securityContext } = context;
+    let username = context.userId ? securityManager.getUser(context.userId)?.username || context.userId : 'anonymous';
+    let granted = securityContext.isAuthenticated ? securityContext.permissions : [];
+    let authenticated = securityContext.isAuthenticated;
+    
+    if (params.user) {
+      const user = securityManager.findUser(params.user);
+      
+      if ((!user || user.id !== context.userId) && !scopesAllow(granted, 'role:read')) {
+        return {
+          success: false,
+          error: 'Checking the permissions of another user requires role:read',
+          status: 'forbidden',
+          timestamp: Date.now(),
+        };
+      }
+      
+      if (!user) {
+        return {
+          success: false,
+          error: `User ${params.user} not found`,
+          status: 'not_found',
+          timestamp: Date.now(),
+        };
+      }
+      
+      username = user.username;
+      granted = securityManager.getScopes(user.id);
+      authenticated = true;
+    }
+    
+    // Scopes required by the scope or command, evaluated like the auth middleware
+    let required = params.scope ? [normalizeScope(params.scope)] : [];
+    let requiresAuth = true;
+    
+    if (params.command) {
+      // Command names may contain dots, e.g. auth.apiKey.create
+      const separator = params.command.indexOf('.');
+      const command = separator === -1
+        ? undefined
+        : this.mcp.getCommand(params.command.slice(0, separator), params.command.slice(separator + 1));
+      
+      if (!command) {
+        return {
+          success: false,
+          error: `Command ${params.command} not found`,
+          status: 'not_found',
+          timestamp: Date.now(),
+        };
+      }
+      
+      required = (command.meta.permissions || []).map(normalizeScope);
+      requiresAuth = command.meta.requiresAuth || false;
+    }
+    
+    const missing = required.filter((scope) => !scopesAllow(granted, scope));
+    
+    return {
+      success: true,
+      data: {
+        user: username,
+        required,
+        requiresAuth,
+        allowed: !requiresAuth || (authenticated && missing.length === 0),
+        grantedBy: granted.filter((scope) => required.some((requiredScope) => scopeMatches(scope, requiredScope))),
+        missing,
+      },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
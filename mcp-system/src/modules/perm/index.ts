@@ -0,0 +1,46 @@
+import { BaseModule } from '../../core/BaseModule';
+import { IMCPModuleMeta, IMCPModuleInitOptions } from '../../interfaces/IMCPModule';
+import logger from '../../utils/logger';
+import { CheckPermissionCommand } from './commands/CheckPermissionCommand';
+
+const PERM_MODULE_META: IMCPModuleMeta = {
+  name: 'perm',
+  description: 'Permission module for checking whether a caller or user holds a scope or may run a command',
+  author: 'MCP System',
+  version: '1.0.0',
+};
+
+/**
+ * Permission module for MCP
+ * Evaluates scopes the way the auth middleware does
+ */
+export default class PermModule extends BaseModule {
+  constructor() {
+    super(PERM_MODULE_META);
+  }
+  
+  /**
+   * Initialize the permission module
+   */
+  protected async onInitialize(options?: IMCPModuleInitOptions): Promise<boolean> {
+    logger.info('Initializing permission module');
+    
+    if (!options?.mcp) {
+      logger.error('Permission module requires the MCP instance to reach the security manager');
+      return false;
+    }
+    
+    // Register commands
+    this.registerCommand(new CheckPermissionCommand(options.mcp));
+    
+    logger.info('Permission module initialized successfully');
+    return true;
+  }
+  
+  /**
+   * Shutdown the permission module
+   */
+  protected async onShutdown(): Promise<void> {
+    logger.info('Permission module shut down successfully');
+  }
+} 
\ No newline at end of file
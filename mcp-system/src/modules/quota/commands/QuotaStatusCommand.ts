@@ -0,0 +1,68 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const QUOTA_STATUS_COMMAND_META: IMCPCommandMeta = {
+  name: 'status',
+  description: 'Show the remaining rate limit and quota allowance of the caller',
+  category: 'system',
+  // Callers over their limits can still see when they reset
+  rateLimited: false,
+  parameters: [
+    {
+      name: 'command',
+      description: 'Only the limits of this module (e.g. ai) or command (e.g. ai.claude)',
+      type: 'string',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to show the remaining allowance of the caller
+ */
+export class QuotaStatusCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(QUOTA_STATUS_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    // Command names may contain dots, e.g. auth.apiKey.create
+    const separator = params.command ? params.command.indexOf('.') : -1;
+    const moduleName = separator === -1 ? params.command : params.command.slice(0, separator);
+    const commandName = separator === -1 ? undefined : params.command.slice(separator + 1);
+    
+    if (moduleName && !this.mcp.modules.has(moduleName)) {
+      return {
+        success: false,
+        error: `Module ${moduleName} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    if (commandName && !this.mcp.getCommand(moduleName, commandName)) {
+      return {
+        success: false,
+        error: `Command ${commandName} not found in module ${moduleName}`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: {
+        user: context.userId || 'anonymous',
+        limits: this.mcp.rateLimiter.status(context.userId, moduleName, commandName, context.securityContext.apiKey),
+      },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { BaseModule } from '../../core/BaseModule';
+import { IMCPModuleMeta, IMCPModuleInitOptions } from '../../interfaces/IMCPModule';
+import logger from '../../utils/logger';
+import { QuotaStatusCommand } from './commands/QuotaStatusCommand';
+
+const QUOTA_MODULE_META: IMCPModuleMeta = {
+  name: 'quota',
+  description: 'Quota module reporting the remaining rate limit and quota allowance of the caller',
+  author: 'MCP System',
+  version: '1.0.0',
+};
+
+/**
+ * Quota module for MCP
+ * Exposes the state of the rate limiter as commands
+ */
+export default class QuotaModule extends BaseModule {
+  constructor() {
+    super(QUOTA_MODULE_META);
+  }
+  
+  /**
+   * Initialize the quota module
+   */
+  protected async onInitialize(options?: IMCPModuleInitOptions): Promise<boolean> {
+    logger.info('Initializing quota module');
+    
+    if (!options?.mcp) {
+      logger.error('Quota module requires the MCP instance to read the rate limiter');
+      return false;
+    }
+    
+    // Register commands
+    this.registerCommand(new QuotaStatusCommand(options.mcp));
+    
+    logger.info('Quota module initialized successfully');
+    return true;
+  }
+  
+  /**
+   * Shutdown the quota module
+   */
+  protected async onShutdown(): Promise<void> {
+    logger.info('Quota module shut down successfully');
+  }
+} 
\ No newline at end of file
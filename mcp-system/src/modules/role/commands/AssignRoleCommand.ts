@@ -0,0 +1,93 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { exceedingScopes } from '../../../security/Scope';
+
+const ASSIGN_ROLE_COMMAND_META: IMCPCommandMeta = {
+  name: 'assign',
+  description: 'Assign a role to a user',
+  category: 'security',
+  requiresAuth: true,
+  permissions: ['role:write'],
+  parameters: [
+    {
+      name: 'user',
+      description: 'Username',
+      type: 'string',
+      required: true,
+    },
+    {
+      name: 'role',
+      description: 'Name of the role',
+      type: 'string',
+      required: true,
+    },
+  ],
+};
+
+/**
+ * Command to assign a role to a user
+ */
+export class AssignRoleCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(ASSIGN_ROLE_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      return {
+        success: false,
+        error: 'Security is disabled',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const role = securityManager.getRole(params.role);
+    
+    if (!role) {
+      return {
+        success: false,
+        error: `Role ${params.role} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    // Only roles within the caller's own scopes can be handed out
+    const exceeding = exceedingScopes(context.securityContext.permissions, role.scopes);
+    
+    if (exceeding.length > 0) {
+      return {
+        success: false,
+        error: `Role ${role.name} grants scopes the caller does not hold: ${exceeding.join(', ')}`,
+        status: 'forbidden',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const user = await securityManager.grant(params.user, { roles: [params.role] });
+    
+    if (!user) {
+      return {
+        success: false,
+        error: `User ${params.user} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: { user: user.username, roles: user.roles },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { exceedingScopes, isValidScope } from '../../../security/Scope';
+
+const CREATE_ROLE_COMMAND_META: IMCPCommandMeta = {
+  name: 'create',
+  description: 'Create a role bundling scopes, or replace the scopes of a custom role',
+  category: 'security',
+  requiresAuth: true,
+  permissions: ['role:write'],
+  parameters: [
+    {
+      name: 'name',
+      description: 'Name of the role',
+      type: 'string',
+      required: true,
+      pattern: '^[a-zA-Z0-9_-]+$',
+    },
+    {
+      name: 'scopes',
+      description: 'Scopes of the role, e.g. fs:read or terminal:*; repeat the parameter for several',
+      type: 'array',
+      required: true,
+      min: 1,
+    },
+    {
+      name: 'description',
+      description: 'Description of the role',
+      type: 'string',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to create a role
+ */
+export class CreateRoleCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(CREATE_ROLE_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      return {
+        success: false,
+        error: 'Security is disabled',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const scopes: string[] = Array.isArray(params.scopes) ? params.scopes.map(String) : [];
+    const invalidScope = scopes.find((scope) => !isValidScope(scope));
+    
+    if (invalidScope) {
+      return {
+        success: false,
+        error: `Invalid scope ${invalidScope}, expected <resource>:<action>`,
+        status: 'invalid',
+        timestamp: Date.now(),
+      };
+    }
+    
+    // Callers cannot hand out more than they hold through a role
+    const exceeding = exceedingScopes(context.securityContext.permissions, scopes);
+    
+    if (exceeding.length > 0) {
+      return {
+        success: false,
+        error: `The role would grant scopes the caller does not hold: ${exceeding.join(', ')}`,
+        status: 'forbidden',
+        timestamp: Date.now(),
+      };
+    }
+    
+    if (securityManager.getRole(params.name)?.builtIn) {
+      return {
+        success: false,
+        error: `Role ${params.name} is built in and cannot be changed`,
+        status: 'invalid',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: await securityManager.saveRole(params.name, scopes, params.description),
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const DELETE_ROLE_COMMAND_META: IMCPCommandMeta = {
+  name: 'delete',
+  description: 'Delete a custom role and remove it from every user and API key',
+  category: 'security',
+  requiresAuth: true,
+  permissions: ['role:write'],
+  parameters: [
+    {
+      name: 'name',
+      description: 'Name of the role',
+      type: 'string',
+      required: true,
+    },
+  ],
+};
+
+/**
+ * Command to delete a role
+ */
+export class DeleteRoleCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(DELETE_ROLE_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      return {
+        success: false,
+        error: 'Security is disabled',
+        timestamp: Date.now(),
+      };
+    }
+    
+    if (securityManager.getRole(params.name)?.builtIn) {
+      return {
+        success: false,
+        error: `Role ${params.name} is built in and cannot be deleted`,
+        status: 'invalid',
+        timestamp: Date.now(),
+      };
+    }
+    
+    if (!await securityManager.deleteRole(params.name)) {
+      return {
+        success: false,
+        error: `Role ${params.name} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: { name: params.name, deleted: true },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
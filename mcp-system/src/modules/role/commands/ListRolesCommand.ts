@@ -0,0 +1,44 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const LIST_ROLES_COMMAND_META: IMCPCommandMeta = {
+  name: 'list',
+  description: 'List the built-in and custom roles with their scopes',
+  category: 'security',
+  requiresAuth: true,
+  permissions: ['role:read'],
+};
+
+/**
+ * Command to list the roles
+ */
+export class ListRolesCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(LIST_ROLES_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      return {
+        success: false,
+        error: 'Security is disabled',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: securityManager.listRoles(),
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
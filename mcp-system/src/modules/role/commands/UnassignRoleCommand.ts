@@ -0,0 +1,69 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCP } from '../../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+
+const UNASSIGN_ROLE_COMMAND_META: IMCPCommandMeta = {
+  name: 'unassign',
+  description: 'Remove a role from a user',
+  category: 'security',
+  requiresAuth: true,
+  permissions: ['role:write'],
+  parameters: [
+    {
+      name: 'user',
+      description: 'Username',
+      type: 'string',
+      required: true,
+    },
+    {
+      name: 'role',
+      description: 'Name of the role',
+      type: 'string',
+      required: true,
+    },
+  ],
+};
+
+/**
+ * Command to remove a role from a user
+ */
+export class UnassignRoleCommand extends BaseCommand {
+  private mcp: IMCP;
+  
+  constructor(mcp: IMCP) {
+    super(UNASSIGN_ROLE_COMMAND_META);
+    this.mcp = mcp;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (!securityManager) {
+      return {
+        success: false,
+        error: 'Security is disabled',
+        timestamp: Date.now(),
+      };
+    }
+    
+    const user = await securityManager.revoke(params.user, { roles: [params.role] });
+    
+    if (!user) {
+      return {
+        success: false,
+        error: `User ${params.user} not found`,
+        status: 'not_found',
+        timestamp: Date.now(),
+      };
+    }
+    
+    return {
+      success: true,
+      data: { user: user.username, roles: user.roles },
+      timestamp: Date.now(),
+    };
+  }
+} 
\ No newline at end of file
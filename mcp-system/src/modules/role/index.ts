@@ -0,0 +1,54 @@
+import { BaseModule } from '../../core/BaseModule';
+import { IMCPModuleMeta, IMCPModuleInitOptions } from '../../interfaces/IMCPModule';
+import logger from '../../utils/logger';
+import { ListRolesCommand } from './commands/ListRolesCommand';
+import { CreateRoleCommand } from './commands/CreateRoleCommand';
+import { DeleteRoleCommand } from './commands/DeleteRoleCommand';
+import { AssignRoleCommand } from './commands/AssignRoleCommand';
+import { UnassignRoleCommand } from './commands/UnassignRoleCommand';
+
+const ROLE_MODULE_META: IMCPModuleMeta = {
+  name: 'role',
+  description: 'Role module for creating roles that bundle scopes and assigning them to users',
+  author: 'MCP System',
+  version: '1.0.0',
+};
+
+/**
+ * Role module for MCP
+ * Manages the roles of the security manager
+ */
+export default class RoleModule extends BaseModule {
+  constructor() {
+    super(ROLE_MODULE_META);
+  }
+  
+  /**
+   * Initialize the role module
+   */
+  protected async onInitialize(options?: IMCPModuleInitOptions): Promise<boolean> {
+    logger.info('Initializing role module');
+    
+    if (!options?.mcp) {
+      logger.error('Role module requires the MCP instance to reach the security manager');
+      return false;
+    }
+    
+    // Register commands
+    this.registerCommand(new ListRolesCommand(options.mcp));
+    this.registerCommand(new CreateRoleCommand(options.mcp));
+    this.registerCommand(new DeleteRoleCommand(options.mcp));
+    this.registerCommand(new AssignRoleCommand(options.mcp));
+    this.registerCommand(new UnassignRoleCommand(options.mcp));
+    
+    logger.info('Role module initialized successfully');
+    return true;
+  }
+  
+  /**
+   * Shutdown the role module
+   */
+  protected async onShutdown(): Promise<void> {
+    logger.info('Role module shut down successfully');
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { createCommandContext } from '../../../utils/context';
+import { ExecuteCommandCommand } from './ExecuteCommandCommand';
+
+describe('ExecuteCommandCommand', () => {
+  const command = new ExecuteCommandCommand();
+  
+  it('fails commands exiting with a non-zero code', async () => {
+    const result = await command.execute({ command: 'echo out; exit 3' }, createCommandContext());
+    
+    expect(result).toMatchObject({ success: false, data: { stdout: 'out\n', exitCode: 3, signal: null } });
+  });
+  
+  it('reports the signal that killed the command', async () => {
+    const result = await command.execute({ command: 'kill -TERM $$' }, createCommandContext());
+    
+    expect(result).toMatchObject({
+      success: false,
+      data: { exitCode: null, signal: 'SIGTERM' },
+      error: 'Command "kill -TERM $$" was killed by SIGTERM',
+    });
+  });
+  
+  it('times out at the timeout parameter and at the context deadline', async () => {
+    const byParam = await command.execute({ command: 'sleep 5', timeout: 50 }, createCommandContext());
+    const byDeadline = await command.execute({ command: 'sleep 5' }, createCommandContext({ timeout: 50 }));
+    
+    expect(byParam).toMatchObject({ success: false, status: 'timeout' });
+    expect(byDeadline).toMatchObject({ success: false, status: 'timeout' });
+  });
+  
+  it('is cancelled through the context signal', async () => {
+    const controller = new AbortController();
+    const running = command.execute({ command: 'sleep 5' }, createCommandContext({ signal: controller.signal }));
+    
+    setTimeout(() => controller.abort(), 50);
+    
+    expect(await running).toMatchObject({ success: false, status: 'cancelled' });
+  });
+}); 
\ No newline at end of file
@@ -1,7 +1,9 @@
 import { spawn } from 'child_process';
 import { BaseCommand } from '../../../core/BaseCommand';
 import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { IMCPCommandStream } from '../../../interfaces/IMCPStream';
 import logger from '../../../utils/logger';
+import { createAbortedResult, isAbortError } from '../../../utils/cancellation';
 
 /**
  * Command metadata
@@ -9,9 +11,39 @@ import logger from '../../../utils/logger';
 const EXECUTE_COMMAND_META: IMCPCommandMeta = {
   name: 'execute',
   description: 'Execute a shell command',
+  parameters: [
+    {
+      name: 'command',
+      description: 'The shell command to execute',
+      type: 'string',
+      required: true,
+      min: 1,
+    },
+    {
+      name: 'shell',
+      description: 'Shell used to run the command',
+      type: 'string',
+      required: false,
+      default: '/bin/bash',
+    },
+    {
+      name: 'timeout',
+      description: 'Timeout in milliseconds',
+      type: 'number',
+      required: false,
+      default: 30000,
+      min: 1,
+    },
+    {
+      name: 'cwd',
+      description: 'Working directory for the command',
+      type: 'path',
+      required: false,
+    },
+  ],
   category: 'terminal',
-  requiresAuth: false,
-  permissions: ['terminal.execute'],
+  requiresAuth: true,
+  permissions: ['terminal:execute'],
 };
 
 /**
@@ -62,18 +94,28 @@ export class ExecuteCommandCommand extends BaseCommand {
         cwd,
         timeout,
         env: context.environmentVars,
+        signal: context.signal,
+        stream: context.stream,
       });
       
+      // A child killed by a signal has no exit code
       return {
         success: result.exitCode === 0,
         data: {
           stdout: result.stdout,
           stderr: result.stderr,
           exitCode: result.exitCode,
+          signal: result.signal,
         },
+        error: result.signal ? `Command "${command}" was killed by ${result.signal}` : undefined,
         timestamp: Date.now(),
       };
     } catch (error) {
+      // Killed because of the timeout parameter or the caller's signal
+      if (isAbortError(error)) {
+        return createAbortedResult(error, `Command "${params.command}"`);
+      }
+      
       logger.error('Error executing command', { error, params });
       
       return {
@@ -96,45 +138,46 @@ export class ExecuteCommandCommand extends BaseCommand {
       cwd: string;
       timeout: number;
       env: Record<string, string>;
+      signal?: AbortSignal;
+      stream?: IMCPCommandStream;
     }
-  ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  ): Promise<{ stdout: string; stderr: string; exitCode: number | null; signal: NodeJS.Signals | null }> {
     return new Promise((resolve, reject) => {
+      // The child is killed when the timeout passes or the caller aborts
+      const timeoutSignal = AbortSignal.timeout(options.timeout);
+      const signal = options.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal;
+      
       // Spawn process with shell=false for security
       const childProcess = spawn(options.shell, ['-c', command], {
         cwd: options.cwd,
         env: { ...process.env, ...options.env },
         shell: false,
+        signal,
       });
       
       let stdout = '';
       let stderr = '';
       
-      // Set timeout
-      const timeoutId = setTimeout(() => {
-        childProcess.kill();
-        reject(new Error(`Command timed out after ${options.timeout}ms`));
-      }, options.timeout);
-      
-      // Collect stdout
+      // Collect stdout, streaming it to the caller as it arrives
       childProcess.stdout.on('data', (data) => {
         stdout += data.toString();
+        options.stream?.chunk(data.toString(), 'stdout');
       });
       
       // Collect stderr
       childProcess.stderr.on('data', (data) => {
         stderr += data.toString();
+        options.stream?.chunk(data.toString(), 'stderr');
       });
       
       // Handle process exit
-      childProcess.on('close', (exitCode) => {
-        clearTimeout(timeoutId);
-        resolve({ stdout, stderr, exitCode: exitCode || 0 });
+      childProcess.on('close', (exitCode, exitSignal) => {
+        resolve({ stdout, stderr, exitCode, signal: exitSignal });
       });
       
-      // Handle process error
+      // Handle process error, including the abort, which rejects with the abort reason
       childProcess.on('error', (error) => {
-        clearTimeout(timeoutId);
-        reject(error);
+        reject(signal.aborted ? signal.reason : error);
       });
     });
   }
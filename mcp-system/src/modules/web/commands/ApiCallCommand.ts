@@ -2,6 +2,7 @@ import axios, { AxiosRequestConfig, Method } from 'axios';
 import { BaseCommand } from '../../../core/BaseCommand';
 import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
 import logger from '../../../utils/logger';
+import { createAbortedResult, createDeadlineError } from '../../../utils/cancellation';
 
 /**
  * Command metadata
@@ -9,9 +10,40 @@ import logger from '../../../utils/logger';
 const API_CALL_COMMAND_META: IMCPCommandMeta = {
   name: 'apiCall',
   description: 'Make an API call to a remote service',
+  parameters: [
+    {
+      name: 'url',
+      description: 'URL to call',
+      type: 'string',
+      required: true,
+      pattern: '^https?://',
+    },
+    {
+      name: 'method',
+      description: 'HTTP method',
+      type: 'enum',
+      required: false,
+      default: 'GET',
+      values: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'],
+    },
+    {
+      name: 'headers',
+      description: 'Request headers',
+      type: 'object',
+      required: false,
+    },
+    {
+      name: 'timeout',
+      description: 'Timeout in milliseconds',
+      type: 'number',
+      required: false,
+      default: 30000,
+      min: 1,
+    },
+  ],
   category: 'web',
   requiresAuth: false,
-  permissions: ['web.api'],
+  permissions: ['web:api'],
 };
 
 /**
@@ -61,6 +93,7 @@ export class ApiCallCommand extends BaseCommand {
         method,
         headers,
         timeout,
+        signal: context.signal,
         validateStatus: () => true, // Don't throw on any status code
       };
       
@@ -90,6 +123,11 @@ export class ApiCallCommand extends BaseCommand {
         timestamp: Date.now(),
       };
     } catch (error) {
+      // The request's own timeout
+      if (axios.isAxiosError(error) && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT')) {
+        return createAbortedResult(createDeadlineError(), `API call to ${params.url}`);
+      }
+      
       logger.error('Error making API call', { error, params });
       
       return {
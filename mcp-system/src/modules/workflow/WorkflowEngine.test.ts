@@ -0,0 +1,96 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { MCP } from '../../core/MCP';
+import { IMCPCommandContext } from '../../interfaces/IMCPCommand';
+import { createCommandContext } from '../../utils/context';
+
+describe('workflow module', () => {
+  let directory: string;
+  let mcp: MCP;
+  let context: IMCPCommandContext;
+  
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-workflow-'));
+    const configPath = path.join(directory, 'mcp.json');
+    const workflows = path.join(directory, 'config', 'workflows');
+    
+    await fs.writeJson(configPath, {});
+    await fs.writeFile(path.join(directory, 'a.txt'), 'first');
+    await fs.writeFile(path.join(directory, 'b.txt'), 'second');
+    await fs.outputJson(path.join(workflows, 'two-files.json'), {
+      variables: { file: 'missing.txt' },
+      steps: [
+        { id: 'first', command: 'fs.readFile', params: { path: 'a.txt' } },
+        { id: 'second', command: 'fs.readFile', params: { path: '${vars.file}' } },
+      ],
+    });
+    await fs.outputJson(path.join(workflows, 'shadowing.json'), {
+      variables: { files: ['a.txt'] },
+      steps: [
+        { id: 'each', forEach: 'vars.files', as: 'vars', steps: [{ id: 'read', command: 'fs.readFile', params: { path: '${vars}' } }] },
+      ],
+    });
+    
+    mcp = new MCP({ baseDirectory: directory, logLevel: 'error' });
+    await mcp.initialize({ configPath, disableSecurity: true });
+    context = createCommandContext({ workingDirectory: directory });
+  }, 60000);
+  
+  afterAll(async () => {
+    await mcp.shutdown();
+    await fs.remove(directory);
+  });
+  
+  /**
+   * Start a run of the two-files workflow that fails at its second step
+   */
+  async function failedRun(): Promise<string> {
+    const result = await mcp.executeCommandExplicit('workflow', 'run', { name: 'two-files' }, context);
+    
+    expect(result).toMatchObject({ success: false, data: { status: 'failed', failedStep: 'second' } });
+    return result.data.runId;
+  }
+  
+  it('resumes a failed run at the failing step', async () => {
+    const runId = await failedRun();
+    const first = (await mcp.executeCommandExplicit('workflow', 'status', { runId }, context)).data.steps.first;
+    
+    const result = await mcp.executeCommandExplicit('workflow', 'run', { resume: runId, vars: { file: 'b.txt' } }, context);
+    
+    expect(result.success).toBe(true);
+    expect(result.data.status).toBe('completed');
+    expect(result.data.output.content).toBe('second');
+    // The completed step of the first attempt did not run again
+    expect(result.data.steps.first.startedAt).toBe(first.startedAt);
+  });
+  
+  it('only resumes failed runs', async () => {
+    const runId = await failedRun();
+    
+    await mcp.executeCommandExplicit('workflow', 'run', { resume: runId, vars: { file: 'b.txt' } }, context);
+    const again = await mcp.executeCommandExplicit('workflow', 'run', { resume: runId }, context);
+    
+    expect(again).toMatchObject({ success: false, error: expect.stringContaining('is completed, only failed runs can be resumed') });
+  });
+  
+  it('resumes a run only once when resumed concurrently', async () => {
+    const runId = await failedRun();
+    const params = { resume: runId, vars: { file: 'b.txt' } };
+    
+    const results = await Promise.all([
+      mcp.executeCommandExplicit('workflow', 'run', params, context),
+      mcp.executeCommandExplicit('workflow', 'run', params, context),
+    ]);
+    
+    expect(results.filter((result) => result.success)).toHaveLength(1);
+    expect(results.find((result) => !result.success)!.error).toMatch(/already being resumed|only failed runs can be resumed/);
+  });
+  
+  it('rejects loop variables that hide the workflow scope', async () => {
+    const result = await mcp.executeCommandExplicit('workflow', 'validate', { name: 'shadowing' }, context);
+    
+    expect(result.success).toBe(false);
+    expect(result.validationErrors).toContainEqual({ field: 'steps[0].as', message: 'must not be one of vars, steps, index' });
+  });
+}); 
\ No newline at end of file
@@ -0,0 +1,519 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IMCP } from '../../interfaces/IMCP';
+import { IMCPCommandContext, IMCPValidationError } from '../../interfaces/IMCPCommand';
+import {
+  IMCPWorkflow,
+  IMCPWorkflowRun,
+  IMCPWorkflowStep,
+  IMCPWorkflowStepState,
+  MCPWorkflowCondition,
+} from '../../interfaces/IMCPWorkflow';
+import { PathExpressionError } from '../../core/PathExpression';
+import logger from '../../utils/logger';
+import { WorkflowScope, evaluateCondition, interpolate, resolveExpression } from './WorkflowExpression';
+import { WorkflowError, WorkflowStore } from './WorkflowStore';
+
+/**
+ * Step ids must be usable in expressions such as `steps.<id>.data`
+ */
+const STEP_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * Names of the workflow scope a loop variable would hide from its nested steps
+ */
+const RESERVED_LOOP_NAMES = ['vars', 'steps', 'index'];
+
+/**
+ * Outcome of running a single step
+ */
+interface StepOutcome {
+  status: 'completed' | 'failed' | 'skipped';
+  data?: any;
+  error?: string;
+  attempts: number;
+  /** Whether the data holds the result of a command marked sensitive */
+  sensitive?: boolean;
+}
+
+/**
+ * Format workflow validation errors into a single message
+ * @param name Workflow name
+ * @param errors Validation errors
+ */
+export function formatWorkflowErrors(name: string, errors: IMCPValidationError[]): string {
+  return `Invalid workflow ${name}: ${errors.map((error) => `${error.field} ${error.message}`).join('; ')}`;
+}
+
+/**
+ * Runs workflows by executing their steps as MCP commands
+ */
+export class WorkflowEngine {
+  private mcp: IMCP;
+  private store: WorkflowStore;
+  
+  /**
+   * Create a new workflow engine
+   * @param mcp MCP instance executing the step commands
+   * @param store Store persisting the workflow runs
+   */
+  constructor(mcp: IMCP, store: WorkflowStore) {
+    this.mcp = mcp;
+    this.store = store;
+  }
+  
+  /**
+   * Validate a workflow definition
+   * @param workflow Workflow definition
+   * @returns Validation errors, empty if the workflow is valid
+   */
+  public validate(workflow: IMCPWorkflow): IMCPValidationError[] {
+    const errors: IMCPValidationError[] = [];
+    
+    if (typeof workflow.name !== 'string' || workflow.name.length === 0) {
+      errors.push({ field: 'name', message: 'must be a non-empty string' });
+    }
+    
+    if (workflow.variables !== undefined && (typeof workflow.variables !== 'object' || Array.isArray(workflow.variables))) {
+      errors.push({ field: 'variables', message: 'must be an object' });
+    }
+    
+    if (!Array.isArray(workflow.steps) || workflow.steps.length === 0) {
+      errors.push({ field: 'steps', message: 'must be a non-empty array' });
+      return errors;
+    }
+    
+    this.validateSteps(workflow.steps, 'steps', new Set(), errors);
+    
+    return errors;
+  }
+  
+  /**
+   * Validate a list of steps
+   * @param steps Steps to validate
+   * @param field Field path of the list, used in error messages
+   * @param ids Step ids seen so far, ids are unique across the whole workflow
+   * @param errors Collected validation errors
+   */
+  private validateSteps(steps: IMCPWorkflowStep[], field: string, ids: Set<string>, errors: IMCPValidationError[]): void {
+    steps.forEach((step, index) => {
+      const stepField = `${field}[${index}]`;
+      
+      if (typeof step !== 'object' || step === null) {
+        errors.push({ field: stepField, message: 'must be an object' });
+        return;
+      }
+      
+      if (typeof step.id !== 'string' || !STEP_ID_PATTERN.test(step.id)) {
+        errors.push({ field: `${stepField}.id`, message: `must match ${STEP_ID_PATTERN.source}` });
+      } else if (ids.has(step.id)) {
+        errors.push({ field: `${stepField}.id`, message: `duplicate step id ${step.id}` });
+      } else {
+        ids.add(step.id);
+      }
+      
+      const kinds = [step.command, step.parallel, step.forEach].filter((kind) => kind !== undefined);
+      
+      if (kinds.length !== 1) {
+        errors.push({ field: stepField, message: 'must have exactly one of command, parallel or forEach' });
+      }
+      
+      if (step.command !== undefined) {
+        this.validateCommand(step, stepField, errors);
+      }
+      
+      if (step.parallel !== undefined) {
+        if (!Array.isArray(step.parallel) || step.parallel.length === 0) {
+          errors.push({ field: `${stepField}.parallel`, message: 'must be a non-empty array' });
+        } else {
+          this.validateSteps(step.parallel, `${stepField}.parallel`, ids, errors);
+        }
+      }
+      
+      if (step.forEach !== undefined) {
+        if (typeof step.forEach !== 'string') {
+          errors.push({ field: `${stepField}.forEach`, message: 'must be an expression' });
+        }
+        
+        if (step.as !== undefined && (typeof step.as !== 'string' || !STEP_ID_PATTERN.test(step.as))) {
+          errors.push({ field: `${stepField}.as`, message: `must match ${STEP_ID_PATTERN.source}` });
+        } else if (step.as !== undefined && RESERVED_LOOP_NAMES.includes(step.as)) {
+          errors.push({ field: `${stepField}.as`, message: `must not be one of ${RESERVED_LOOP_NAMES.join(', ')}` });
+        }
+        
+        if (!Array.isArray(step.steps) || step.steps.length === 0) {
+          errors.push({ field: `${stepField}.steps`, message: 'must be a non-empty array' });
+        } else {
+          this.validateSteps(step.steps, `${stepField}.steps`, ids, errors);
+        }
+      } else if (step.steps !== undefined) {
+        errors.push({ field: `${stepField}.steps`, message: 'is only allowed together with forEach' });
+      }
+      
+      if (step.if !== undefined && !this.isCondition(step.if)) {
+        errors.push({ field: `${stepField}.if`, message: 'must be an expression or an all/any list of conditions' });
+      }
+      
+      if (step.retry !== undefined) {
+        if (!Number.isInteger(step.retry.attempts) || step.retry.attempts < 1) {
+          errors.push({ field: `${stepField}.retry.attempts`, message: 'must be an integer of at least 1' });
+        }
+        
+        if (step.retry.delay !== undefined && !(typeof step.retry.delay === 'number' && step.retry.delay >= 0)) {
+          errors.push({ field: `${stepField}.retry.delay`, message: 'must be a non-negative number' });
+        }
+      }
+      
+      if (step.timeout !== undefined && !(typeof step.timeout === 'number' && step.timeout > 0)) {
+        errors.push({ field: `${stepField}.timeout`, message: 'must be a positive number' });
+      }
+    });
+  }
+  
+  /**
+   * Validate the command of a command step
+   * @param step Command step
+   * @param field Field path of the step
+   * @param errors Collected validation errors
+   */
+  private validateCommand(step: IMCPWorkflowStep, field: string, errors: IMCPValidationError[]): void {
+    const [moduleName, commandName] = this.splitCommand(step.command);
+    
+    if (!moduleName || !commandName) {
+      errors.push({ field: `${field}.command`, message: 'must be in the format module.command' });
+    } else if (!this.mcp.modules.get(moduleName)?.getCommand(commandName)) {
+      errors.push({ field: `${field}.command`, message: `unknown command ${step.command}` });
+    }
+    
+    if (step.params !== undefined && (typeof step.params !== 'object' || step.params === null || Array.isArray(step.params))) {
+      errors.push({ field: `${field}.params`, message: 'must be an object' });
+    }
+  }
+  
+  /**
+   * Check the shape of a condition
+   * @param condition Condition to check
+   */
+  private isCondition(condition: any): condition is MCPWorkflowCondition {
+    if (typeof condition === 'string') {
+      return condition.trim().length > 0;
+    }
+    
+    const items = condition?.all ?? condition?.any;
+    return Array.isArray(items) && items.every((item: any) => this.isCondition(item));
+  }
+  
+  /**
+   * Split a command into module and command name at the first dot
+   * @param command Command as module.command
+   */
+  private splitCommand(command: any): [string, string] {
+    const separator = typeof command === 'string' ? command.indexOf('.') : -1;
+    return separator === -1 ? ['', ''] : [command.slice(0, separator), command.slice(separator + 1)];
+  }
+  
+  /**
+   * Create a new run of a workflow
+   * @param workflow Workflow definition
+   * @param variables Variables overriding the workflow defaults
+   * @param userId User starting the run
+   */
+  public createRun(workflow: IMCPWorkflow, variables: Record<string, any> = {}, userId?: string): IMCPWorkflowRun {
+    return {
+      id: uuidv4(),
+      workflow,
+      status: 'pending',
+      variables: { ...(workflow.variables || {}), ...variables },
+      steps: {},
+      userId,
+      startedAt: Date.now(),
+    };
+  }
+  
+  /**
+   * Run (or resume) a workflow run
+   *
+   * Top-level steps that already completed or were skipped in an earlier
+   * attempt of the run are not executed again, so a failed run resumes at
+   * the step that failed. The run is persisted after every top-level step,
+   * and progress is reported on the context's stream when there is one.
+   * @param run Workflow run
+   * @param context Command execution context for the step commands
+   */
+  public async run(run: IMCPWorkflowRun, context: IMCPCommandContext): Promise<IMCPWorkflowRun> {
+    const errors = this.validate(run.workflow);
+    
+    if (errors.length > 0) {
+      throw new WorkflowError(formatWorkflowErrors(run.workflow.name, errors));
+    }
+    
+    const scope: WorkflowScope = { vars: run.variables, steps: {} };
+    
+    run.status = 'running';
+    run.failedStep = undefined;
+    run.error = undefined;
+    run.finishedAt = undefined;
+    await this.store.saveRun(run);
+    
+    logger.info(`Running workflow ${run.workflow.name} (run ${run.id})`);
+    
+    const total = run.workflow.steps.length;
+    
+    for (const [index, step] of run.workflow.steps.entries()) {
+      const previous = run.steps[step.id];
+      
+      if (context.signal?.aborted) {
+        run.status = 'failed';
+        run.failedStep = step.id;
+        run.error = 'Workflow run was cancelled';
+        run.finishedAt = Date.now();
+        await this.store.saveRun(run);
+        return run;
+      }
+      
+      // Completed steps of an earlier attempt only contribute their results,
+      // unless the results were not persisted
+      if (previous && !previous.redacted && (previous.status === 'completed' || previous.status === 'skipped')) {
+        this.restoreStep(step, previous, scope);
+        context.stream?.progress(Math.round(((index + 1) / total) * 100), `Step ${step.id} ${previous.status}`);
+        continue;
+      }
+      
+      const state: IMCPWorkflowStepState = { status: 'running', attempts: 0, startedAt: Date.now() };
+      run.steps[step.id] = state;
+      await this.store.saveRun(run);
+      
+      const outcome = await this.executeStep(step, scope, context);
+      
+      Object.assign(state, {
+        status: outcome.status,
+        attempts: outcome.attempts,
+        // Credentials stay in memory for the later steps, but are not persisted
+        data: outcome.sensitive ? undefined : outcome.data,
+        redacted: outcome.sensitive || undefined,
+        error: outcome.error,
+        finishedAt: Date.now(),
+      });
+      
+      if (outcome.status === 'failed') {
+        run.status = 'failed';
+        run.failedStep = step.id;
+        run.error = outcome.error;
+        run.finishedAt = Date.now();
+        await this.store.saveRun(run);
+        
+        logger.warn(`Workflow ${run.workflow.name} (run ${run.id}) failed at step ${step.id}: ${outcome.error}`);
+        return run;
+      }
+      
+      await this.store.saveRun(run);
+      context.stream?.progress(Math.round(((index + 1) / total) * 100), `Step ${step.id} ${outcome.status}`);
+    }
+    
+    run.status = 'completed';
+    run.finishedAt = Date.now();
+    await this.store.saveRun(run);
+    
+    logger.info(`Workflow ${run.workflow.name} (run ${run.id}) completed`);
+    return run;
+  }
+  
+  /**
+   * Make the results of a step from an earlier attempt visible to expressions
+   * @param step Top-level step
+   * @param state Recorded state of the step
+   * @param scope Workflow scope
+   */
+  private restoreStep(step: IMCPWorkflowStep, state: IMCPWorkflowStepState, scope: WorkflowScope): void {
+    this.recordStep(step, { status: state.status as StepOutcome['status'], data: state.data, attempts: state.attempts }, scope);
+    
+    // Parallel groups keep the data of their branches keyed by branch id
+    for (const branch of step.parallel || []) {
+      if (state.data && branch.id in state.data) {
+        this.recordStep(branch, { status: 'completed', data: state.data[branch.id], attempts: 1 }, scope);
+      }
+    }
+  }
+  
+  /**
+   * Make the outcome of a step visible to expressions as `steps.<id>`
+   * @param step Step
+   * @param outcome Outcome of the step
+   * @param scope Workflow scope
+   */
+  private recordStep(step: IMCPWorkflowStep, outcome: StepOutcome, scope: WorkflowScope): void {
+    scope.steps[step.id] = {
+      status: outcome.status,
+      success: outcome.status === 'completed',
+      data: outcome.data,
+      error: outcome.error,
+    };
+  }
+  
+  /**
+   * Run a step, applying its condition, retry policy and timeout
+   * @param step Step to run
+   * @param scope Workflow scope
+   * @param context Command execution context
+   */
+  private async executeStep(
+    step: IMCPWorkflowStep,
+    scope: WorkflowScope,
+    context: IMCPCommandContext
+  ): Promise<StepOutcome> {
+    let outcome: StepOutcome = { status: 'skipped', attempts: 0 };
+    
+    try {
+      if (step.if !== undefined && !evaluateCondition(step.if, scope)) {
+        logger.debug(`Skipping workflow step ${step.id}: condition not met`);
+        this.recordStep(step, outcome, scope);
+        return outcome;
+      }
+    } catch (error) {
+      outcome = { status: 'failed', error: `Invalid condition: ${this.errorMessage(error)}`, attempts: 0 };
+      this.recordStep(step, outcome, scope);
+      return outcome;
+    }
+    
+    const attempts = step.retry?.attempts || 1;
+    
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      if (attempt > 1) {
+        logger.info(`Retrying workflow step ${step.id} (attempt ${attempt} of ${attempts})`);
+        await new Promise((resolve) => setTimeout(resolve, step.retry?.delay || 0));
+      }
+      
+      // The step timeout becomes the deadline of every command the attempt runs
+      const attemptContext = step.timeout
+        ? { ...context, deadline: Math.min(context.deadline ?? Infinity, Date.now() + step.timeout) }
+        : context;
+      
+      outcome = { ...await this.executeStepOnce(step, scope, attemptContext), attempts: attempt };
+      
+      // A cancelled run is not retried
+      if (outcome.status !== 'failed' || context.signal?.aborted) {
+        break;
+      }
+    }
+    
+    this.recordStep(step, outcome, scope);
+    return outcome;
+  }
+  
+  /**
+   * Run a single attempt of a step
+   * @param step Step to run
+   * @param scope Workflow scope
+   * @param context Command execution context
+   */
+  private async executeStepOnce(
+    step: IMCPWorkflowStep,
+    scope: WorkflowScope,
+    context: IMCPCommandContext
+  ): Promise<StepOutcome> {
+    try {
+      if (step.parallel) {
+        return await this.executeParallel(step.parallel, scope, context);
+      }
+      
+      if (step.forEach !== undefined) {
+        return await this.executeLoop(step, scope, context);
+      }
+      
+      const [moduleName, commandName] = this.splitCommand(step.command);
+      const params = interpolate(step.params || {}, scope);
+      const result = await this.mcp.executeCommandExplicit(moduleName, commandName, params, context);
+      
+      return {
+        status: result.success ? 'completed' : 'failed',
+        data: result.data,
+        error: result.error,
+        attempts: 1,
+        sensitive: this.mcp.getCommand(moduleName, commandName)?.meta.sensitive,
+      };
+    } catch (error) {
+      if (!(error instanceof PathExpressionError)) {
+        logger.error(`Error running workflow step ${step.id}`, { error });
+      }
+      
+      return { status: 'failed', error: this.errorMessage(error), attempts: 1 };
+    }
+  }
+  
+  /**
+   * Run parallel branches, failing if any branch fails
+   * @param branches Branch steps
+   * @param scope Workflow scope
+   * @param context Command execution context
+   */
+  private async executeParallel(
+    branches: IMCPWorkflowStep[],
+    scope: WorkflowScope,
+    context: IMCPCommandContext
+  ): Promise<StepOutcome> {
+    const outcomes = await Promise.all(branches.map((branch) => this.executeStep(branch, scope, context)));
+    const data: Record<string, any> = {};
+    const errors: string[] = [];
+    const sensitive = outcomes.some((outcome) => outcome.sensitive);
+    
+    outcomes.forEach((outcome, index) => {
+      data[branches[index].id] = outcome.data;
+      
+      if (outcome.status === 'failed') {
+        errors.push(`${branches[index].id}: ${outcome.error}`);
+      }
+    });
+    
+    return errors.length > 0
+      ? { status: 'failed', data, error: `Parallel branches failed: ${errors.join('; ')}`, attempts: 1, sensitive }
+      : { status: 'completed', data, attempts: 1, sensitive };
+  }
+  
+  /**
+   * Run the nested steps of a loop once per item, stopping at the first failure
+   * @param step Loop step
+   * @param scope Workflow scope
+   * @param context Command execution context
+   * @returns Outcome whose data holds the data of the last nested step of each iteration
+   */
+  private async executeLoop(
+    step: IMCPWorkflowStep,
+    scope: WorkflowScope,
+    context: IMCPCommandContext
+  ): Promise<StepOutcome> {
+    const items = resolveExpression(step.forEach!, scope);
+    
+    if (!Array.isArray(items)) {
+      return { status: 'failed', error: `forEach expression ${step.forEach} is not an array`, attempts: 1 };
+    }
+    
+    const data: any[] = [];
+    let sensitive = false;
+    
+    for (const [index, item] of items.entries()) {
+      // Nested steps see the current item, and record their outcome in the shared steps
+      const iterationScope: WorkflowScope = { ...scope, [step.as || 'item']: item, index };
+      let last: StepOutcome | undefined;
+      
+      for (const nested of step.steps!) {
+        last = await this.executeStep(nested, iterationScope, context);
+        sensitive = sensitive || Boolean(last.sensitive);
+        
+        if (last.status === 'failed') {
+          return { status: 'failed', data, error: `Iteration ${index}, step ${nested.id}: ${last.error}`, attempts: 1, sensitive };
+        }
+      }
+      
+      data.push(last?.data);
+    }
+    
+    return { status: 'completed', data, attempts: 1, sensitive };
+  }
+  
+  /**
+   * Get the message of an error
+   * @param error Error
+   */
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+} 
\ No newline at end of file
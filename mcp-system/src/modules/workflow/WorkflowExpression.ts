@@ -0,0 +1,136 @@
+import { MCPWorkflowCondition } from '../../interfaces/IMCPWorkflow';
+import { PathExpressionError, parsePathExpression, resolvePathReference } from '../../core/PathExpression';
+
+/**
+ * Values visible to expressions while a workflow runs
+ *
+ * `vars` holds the workflow variables, `steps` the outcome of every step run
+ * so far, and loops add their current item and `index`.
+ */
+export type WorkflowScope = Record<string, any>;
+
+/**
+ * Matches a `${...}` placeholder
+ */
+const PLACEHOLDER_PATTERN = /\$\{([^}]+)\}/g;
+
+/**
+ * Comparison operators supported in conditions, longest first
+ */
+const CONDITION_PATTERN = /^(.+?)\s*(==|!=|>=|<=|>|<)\s*(.+)$/;
+
+/**
+ * Resolve a dotted path such as `steps.read.data.content` against the scope
+ * @param expression Path expression, without the leading `$.`
+ * @param scope Workflow scope
+ */
+export function resolveExpression(expression: string, scope: WorkflowScope): any {
+  return resolvePathReference(parsePathExpression(`$.${expression.trim()}`), scope);
+}
+
+/**
+ * Replace `${...}` placeholders in a value, recursing into arrays and objects
+ *
+ * A string consisting of a single placeholder keeps the type of the resolved
+ * value, placeholders inside longer strings are interpolated as text.
+ * @param value Value to interpolate
+ * @param scope Workflow scope
+ */
+export function interpolate(value: any, scope: WorkflowScope): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolate(item, scope));
+  }
+  
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolate(item, scope)]));
+  }
+  
+  if (typeof value !== 'string') {
+    return value;
+  }
+  
+  const whole = /^\$\{([^}]+)\}$/.exec(value);
+  
+  if (whole) {
+    return resolveExpression(whole[1], scope);
+  }
+  
+  return value.replace(PLACEHOLDER_PATTERN, (match, expression: string) => {
+    const resolved = resolveExpression(expression, scope);
+    return typeof resolved === 'object' && resolved !== null ? JSON.stringify(resolved) : String(resolved);
+  });
+}
+
+/**
+ * Evaluate one side of a comparison
+ *
+ * JSON literals (numbers, quoted strings, true, false, null) stand for
+ * themselves, anything else is a path into the scope. Missing paths are undefined.
+ * @param operand Operand text
+ * @param scope Workflow scope
+ */
+function evaluateOperand(operand: string, scope: WorkflowScope): any {
+  try {
+    return JSON.parse(operand);
+  } catch {
+    // Not a literal
+  }
+  
+  const reference = parsePathExpression(`$.${operand.trim()}`);
+  
+  try {
+    return resolvePathReference(reference, scope);
+  } catch (error) {
+    if (error instanceof PathExpressionError) {
+      return undefined;
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Evaluate a step condition
+ *
+ * Supports a single operand (`steps.read.success`), negation (`!vars.dryRun`),
+ * comparisons (`steps.count.data >= 3`) and `all` / `any` combinations.
+ * @param condition Condition to evaluate
+ * @param scope Workflow scope
+ */
+export function evaluateCondition(condition: MCPWorkflowCondition, scope: WorkflowScope): boolean {
+  if (typeof condition !== 'string') {
+    return 'all' in condition
+      ? condition.all.every((item) => evaluateCondition(item, scope))
+      : condition.any.some((item) => evaluateCondition(item, scope));
+  }
+  
+  const expression = condition.trim();
+  
+  if (expression.startsWith('!')) {
+    return !evaluateCondition(expression.slice(1), scope);
+  }
+  
+  const comparison = CONDITION_PATTERN.exec(expression);
+  
+  if (!comparison) {
+    return Boolean(evaluateOperand(expression, scope));
+  }
+  
+  const left = evaluateOperand(comparison[1], scope);
+  const right = evaluateOperand(comparison[3], scope);
+  
+  switch (comparison[2]) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '>=':
+      return left >= right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    default:
+      return left < right;
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,234 @@
+import fs from 'fs-extra';
+import yaml from 'js-yaml';
+import path from 'path';
+import { IMCPCommandContext } from '../../interfaces/IMCPCommand';
+import { IMCPWorkflow, IMCPWorkflowRun } from '../../interfaces/IMCPWorkflow';
+import { scopesAllow } from '../../security/Scope';
+
+/**
+ * File extensions recognized as workflow definitions
+ */
+export const WORKFLOW_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Scope letting a caller see and resume the workflow runs of every user
+ */
+export const WORKFLOW_ADMIN_SCOPE = 'workflow:*';
+
+/**
+ * Check whether a caller may see and resume a workflow run
+ * @param run Workflow run
+ * @param context Command execution context of the caller
+ */
+export function mayAccessRun(run: IMCPWorkflowRun, context: IMCPCommandContext): boolean {
+  return run.userId === context.userId || scopesAllow(context.securityContext.permissions, WORKFLOW_ADMIN_SCOPE);
+}
+
+/**
+ * Error raised when a workflow or workflow run cannot be found or read
+ */
+export class WorkflowError extends Error {
+  /**
+   * Create a new workflow error
+   * @param message Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowError';
+  }
+}
+
+/**
+ * A workflow definition file
+ */
+export interface WorkflowFile {
+  file: string;
+  /** Parsed definition, unset if the file could not be read */
+  workflow?: IMCPWorkflow;
+  error?: string;
+}
+
+/**
+ * Reads workflow definitions and persists workflow runs
+ */
+export class WorkflowStore {
+  private workflowsDirectory: string;
+  private runsDirectory: string;
+  /** Ids of the runs being claimed for a resume */
+  private claiming: Set<string> = new Set();
+  
+  /**
+   * Create a new workflow store
+   * @param workflowsDirectory Directory holding the workflow definitions
+   * @param runsDirectory Directory holding one JSON file per workflow run
+   */
+  constructor(workflowsDirectory: string, runsDirectory: string) {
+    this.workflowsDirectory = workflowsDirectory;
+    this.runsDirectory = runsDirectory;
+  }
+  
+  /**
+   * Create the store directories
+   */
+  public async initialize(): Promise<void> {
+    await fs.ensureDir(this.workflowsDirectory);
+    await fs.ensureDir(this.runsDirectory);
+  }
+  
+  /**
+   * Read a workflow definition from a JSON or YAML file
+   *
+   * Definitions without a name are named after their file.
+   * @param file Path to the definition
+   */
+  public async readWorkflowFile(file: string): Promise<IMCPWorkflow> {
+    const content = await fs.readFile(file, 'utf8');
+    const definition = path.extname(file) === '.json' ? JSON.parse(content) : yaml.load(content);
+    
+    if (typeof definition !== 'object' || definition === null || Array.isArray(definition)) {
+      throw new WorkflowError(`Workflow file ${file} must contain an object`);
+    }
+    
+    return { name: path.basename(file, path.extname(file)), ...definition } as IMCPWorkflow;
+  }
+  
+  /**
+   * Read every workflow definition in the workflows directory
+   */
+  public async list(): Promise<WorkflowFile[]> {
+    if (!await fs.pathExists(this.workflowsDirectory)) {
+      return [];
+    }
+    
+    const entries = (await fs.readdir(this.workflowsDirectory))
+      .filter((entry) => WORKFLOW_FILE_EXTENSIONS.includes(path.extname(entry)))
+      .sort();
+    
+    return Promise.all(entries.map(async (entry) => {
+      const file = path.join(this.workflowsDirectory, entry);
+      
+      try {
+        return { file, workflow: await this.readWorkflowFile(file) };
+      } catch (error) {
+        return { file, error: error instanceof Error ? error.message : String(error) };
+      }
+    }));
+  }
+  
+  /**
+   * Find a workflow definition by name
+   * @param name Workflow name
+   */
+  public async load(name: string): Promise<IMCPWorkflow> {
+    const files = await this.list();
+    const match = files.find((entry) => entry.workflow?.name === name)
+      || files.find((entry) => path.basename(entry.file, path.extname(entry.file)) === name);
+    
+    if (!match) {
+      throw new WorkflowError(`Workflow ${name} not found in ${this.workflowsDirectory}`);
+    }
+    
+    if (!match.workflow) {
+      throw new WorkflowError(`Failed to read workflow ${name}: ${match.error}`);
+    }
+    
+    return match.workflow;
+  }
+  
+  /**
+   * Persist a workflow run
+   * @param run Workflow run
+   */
+  public async saveRun(run: IMCPWorkflowRun): Promise<void> {
+    const runPath = path.join(this.runsDirectory, `${run.id}.json`);
+    
+    // Use atomic write so an interrupted run never leaves a corrupt record
+    const tempPath = `${runPath}.tmp`;
+    await fs.writeJson(tempPath, run, { spaces: 2 });
+    await fs.move(tempPath, runPath, { overwrite: true });
+  }
+  
+  /**
+   * Load a persisted workflow run
+   * @param runId Id of the run
+   * @param context Command execution context of the caller, who must be allowed to see the run
+   */
+  public async loadRun(runId: string, context: IMCPCommandContext): Promise<IMCPWorkflowRun> {
+    // Run ids are file names, never paths
+    const runPath = path.join(this.runsDirectory, `${path.basename(runId)}.json`);
+    
+    if (!await fs.pathExists(runPath)) {
+      throw new WorkflowError(`Workflow run ${runId} not found`);
+    }
+    
+    const run: IMCPWorkflowRun = await fs.readJson(runPath);
+    
+    // Runs of other users are not revealed
+    if (!mayAccessRun(run, context)) {
+      throw new WorkflowError(`Workflow run ${runId} not found`);
+    }
+    
+    return run;
+  }
+  
+  /**
+   * Load a failed workflow run to resume it, marking it running
+   *
+   * The run is saved as running before it is returned, so concurrent resumes
+   * of the same run are rejected instead of executing it twice.
+   * @param runId Id of the run
+   * @param context Command execution context of the caller, who must be allowed to see the run
+   */
+  public async claimRun(runId: string, context: IMCPCommandContext): Promise<IMCPWorkflowRun> {
+    const id = path.basename(runId);
+    
+    if (this.claiming.has(id)) {
+      throw new WorkflowError(`Workflow run ${runId} is already being resumed`);
+    }
+    
+    this.claiming.add(id);
+    
+    try {
+      const run = await this.loadRun(runId, context);
+      
+      if (run.status !== 'failed') {
+        throw new WorkflowError(`Workflow run ${run.id} is ${run.status}, only failed runs can be resumed`);
+      }
+      
+      run.status = 'running';
+      await this.saveRun(run);
+      
+      return run;
+    } finally {
+      this.claiming.delete(id);
+    }
+  }
+  
+  /**
+   * List persisted workflow runs, most recent first
+   * @param limit Maximum number of runs to return
+   * @param context Command execution context of the caller, only runs they may see are listed
+   */
+  public async listRuns(limit: number, context: IMCPCommandContext): Promise<IMCPWorkflowRun[]> {
+    if (!await fs.pathExists(this.runsDirectory)) {
+      return [];
+    }
+    
+    const entries = (await fs.readdir(this.runsDirectory)).filter((entry) => entry.endsWith('.json'));
+    const runs: IMCPWorkflowRun[] = [];
+    
+    for (const entry of entries) {
+      try {
+        const run: IMCPWorkflowRun = await fs.readJson(path.join(this.runsDirectory, entry));
+        
+        if (mayAccessRun(run, context)) {
+          runs.push(run);
+        }
+      } catch {
+        // Skip unreadable records rather than failing the whole listing
+      }
+    }
+    
+    return runs.sort((a, b) => b.startedAt - a.startedAt).slice(0, limit);
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { WorkflowEngine } from '../WorkflowEngine';
+import { WorkflowStore } from '../WorkflowStore';
+import logger from '../../../utils/logger';
+
+const LIST_WORKFLOWS_COMMAND_META: IMCPCommandMeta = {
+  name: 'list',
+  description: 'List the workflows in the workflows directory',
+  category: 'workflow',
+  parameters: [],
+};
+
+/**
+ * Command to list the available workflows
+ */
+export class ListWorkflowsCommand extends BaseCommand {
+  private engine: WorkflowEngine;
+  private store: WorkflowStore;
+  
+  constructor(engine: WorkflowEngine, store: WorkflowStore) {
+    super(LIST_WORKFLOWS_COMMAND_META);
+    this.engine = engine;
+    this.store = store;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    try {
+      const files = await this.store.list();
+      
+      const workflows = files.map(({ file, workflow, error }) => ({
+        name: workflow?.name,
+        description: workflow?.description,
+        file,
+        steps: Array.isArray(workflow?.steps) ? workflow!.steps.length : 0,
+        valid: workflow ? this.engine.validate(workflow).length === 0 : false,
+        error,
+      }));
+      
+      return {
+        success: true,
+        data: { workflows },
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      logger.error('Error listing workflows', { error });
+      
+      return {
+        success: false,
+        error: `Failed to list workflows: ${error.message}`,
+        timestamp: Date.now(),
+      };
+    }
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { IMCPWorkflowRun } from '../../../interfaces/IMCPWorkflow';
+import { WorkflowEngine } from '../WorkflowEngine';
+import { WorkflowError, WorkflowStore } from '../WorkflowStore';
+import logger from '../../../utils/logger';
+
+const RUN_WORKFLOW_COMMAND_META: IMCPCommandMeta = {
+  name: 'run',
+  description: 'Run a workflow, or resume a failed workflow run',
+  category: 'workflow',
+  parameters: [
+    {
+      name: 'name',
+      description: 'Name of the workflow to run',
+      type: 'string',
+      required: false,
+    },
+    {
+      name: 'vars',
+      description: 'Variables overriding the workflow defaults',
+      type: 'object',
+      required: false,
+      default: {},
+    },
+    {
+      name: 'resume',
+      description: 'Id of a failed run to resume from its failing step',
+      type: 'string',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to run a workflow
+ */
+export class RunWorkflowCommand extends BaseCommand {
+  private engine: WorkflowEngine;
+  private store: WorkflowStore;
+  
+  constructor(engine: WorkflowEngine, store: WorkflowStore) {
+    super(RUN_WORKFLOW_COMMAND_META);
+    this.engine = engine;
+    this.store = store;
+  }
+  
+  public validate(params: IMCPCommandParams): boolean {
+    return Boolean(params.name) !== Boolean(params.resume);
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    try {
+      let run: IMCPWorkflowRun;
+      
+      if (params.resume) {
+        run = await this.store.claimRun(params.resume, context);
+        
+        // Resuming may adjust the variables, e.g. to fix what made the run fail
+        run.variables = { ...run.variables, ...params.vars };
+      } else {
+        run = this.engine.createRun(await this.store.load(params.name), params.vars, context.userId);
+      }
+      
+      try {
+        run = await this.engine.run(run, context);
+      } catch (error) {
+        // A claimed run that could not start stays resumable
+        if (params.resume && run.status === 'running') {
+          run.status = 'failed';
+          await this.store.saveRun(run);
+        }
+        
+        throw error;
+      }
+      
+      const data = {
+        runId: run.id,
+        workflow: run.workflow.name,
+        status: run.status,
+        failedStep: run.failedStep,
+        steps: run.steps,
+        // Output of the last step that ran
+        output: Object.values(run.steps).filter((step) => step.status === 'completed').pop()?.data,
+      };
+      
+      if (run.status === 'failed') {
+        return {
+          success: false,
+          data,
+          error: `Workflow ${run.workflow.name} failed at step ${run.failedStep}: ${run.error}. Resume with workflow.run resume=${run.id}`,
+          timestamp: Date.now(),
+        };
+      }
+      
+      return {
+        success: true,
+        data,
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      if (!(error instanceof WorkflowError)) {
+        logger.error('Error running workflow', { error });
+      }
+      
+      return {
+        success: false,
+        error: `Failed to run workflow: ${error.message}`,
+        timestamp: Date.now(),
+      };
+    }
+  }
+} 
\ No newline at end of file
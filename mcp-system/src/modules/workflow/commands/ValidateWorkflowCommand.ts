@@ -0,0 +1,82 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { WorkflowEngine, formatWorkflowErrors } from '../WorkflowEngine';
+import { WorkflowError, WorkflowStore } from '../WorkflowStore';
+import logger from '../../../utils/logger';
+
+const VALIDATE_WORKFLOW_COMMAND_META: IMCPCommandMeta = {
+  name: 'validate',
+  description: 'Validate a workflow definition',
+  category: 'workflow',
+  parameters: [
+    {
+      name: 'name',
+      description: 'Name of a workflow in the workflows directory',
+      type: 'string',
+      required: false,
+    },
+    {
+      name: 'file',
+      description: 'Path to a workflow file, e.g. before adding it to the workflows directory',
+      type: 'path',
+      required: false,
+    },
+  ],
+};
+
+/**
+ * Command to validate a workflow definition
+ */
+export class ValidateWorkflowCommand extends BaseCommand {
+  private engine: WorkflowEngine;
+  private store: WorkflowStore;
+  
+  constructor(engine: WorkflowEngine, store: WorkflowStore) {
+    super(VALIDATE_WORKFLOW_COMMAND_META);
+    this.engine = engine;
+    this.store = store;
+  }
+  
+  public validate(params: IMCPCommandParams): boolean {
+    return Boolean(params.name) !== Boolean(params.file);
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    try {
+      const workflow = params.file
+        ? await this.store.readWorkflowFile(params.file)
+        : await this.store.load(params.name);
+      
+      const errors = this.engine.validate(workflow);
+      
+      if (errors.length > 0) {
+        return {
+          success: false,
+          data: { name: workflow.name, valid: false },
+          error: formatWorkflowErrors(workflow.name, errors),
+          validationErrors: errors,
+          timestamp: Date.now(),
+        };
+      }
+      
+      return {
+        success: true,
+        data: { name: workflow.name, valid: true },
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      if (!(error instanceof WorkflowError)) {
+        logger.error('Error validating workflow', { error });
+      }
+      
+      return {
+        success: false,
+        error: `Failed to validate workflow: ${error.message}`,
+        timestamp: Date.now(),
+      };
+    }
+  }
+} 
\ No newline at end of file
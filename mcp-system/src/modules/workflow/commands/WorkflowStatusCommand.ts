@@ -0,0 +1,81 @@
+import { BaseCommand } from '../../../core/BaseCommand';
+import { IMCPCommandContext, IMCPCommandMeta, IMCPCommandParams, IMCPCommandResult } from '../../../interfaces/IMCPCommand';
+import { WorkflowError, WorkflowStore } from '../WorkflowStore';
+import logger from '../../../utils/logger';
+
+const WORKFLOW_STATUS_COMMAND_META: IMCPCommandMeta = {
+  name: 'status',
+  description: 'Show a workflow run, or the most recent runs of the caller (of every user with workflow:*)',
+  category: 'workflow',
+  parameters: [
+    {
+      name: 'runId',
+      description: 'Id of the run to show',
+      type: 'string',
+      required: false,
+    },
+    {
+      name: 'limit',
+      description: 'Number of recent runs to list when no run id is given',
+      type: 'number',
+      required: false,
+      default: 20,
+      min: 1,
+    },
+  ],
+};
+
+/**
+ * Command to show the status of workflow runs
+ */
+export class WorkflowStatusCommand extends BaseCommand {
+  private store: WorkflowStore;
+  
+  constructor(store: WorkflowStore) {
+    super(WORKFLOW_STATUS_COMMAND_META);
+    this.store = store;
+  }
+  
+  protected async onExecute(
+    params: IMCPCommandParams,
+    context: IMCPCommandContext
+  ): Promise<IMCPCommandResult> {
+    try {
+      if (params.runId) {
+        const run = await this.store.loadRun(params.runId, context);
+        
+        return {
+          success: true,
+          data: run,
+          timestamp: Date.now(),
+        };
+      }
+      
+      const runs = (await this.store.listRuns(params.limit, context)).map((run) => ({
+        id: run.id,
+        workflow: run.workflow.name,
+        status: run.status,
+        failedStep: run.failedStep,
+        error: run.error,
+        startedAt: run.startedAt,
+        finishedAt: run.finishedAt,
+      }));
+      
+      return {
+        success: true,
+        data: { runs },
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      if (!(error instanceof WorkflowError)) {
+        logger.error('Error reading workflow status', { error });
+      }
+      
+      return {
+        success: false,
+        error: `Failed to read workflow status: ${error.message}`,
+        timestamp: Date.now(),
+      };
+    }
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { BaseModule } from '../../core/BaseModule';
+import { IMCPModuleMeta, IMCPModuleInitOptions } from '../../interfaces/IMCPModule';
+import logger from '../../utils/logger';
+import { WorkflowEngine } from './WorkflowEngine';
+import { WorkflowStore } from './WorkflowStore';
+import { RunWorkflowCommand } from './commands/RunWorkflowCommand';
+import { ListWorkflowsCommand } from './commands/ListWorkflowsCommand';
+import { ValidateWorkflowCommand } from './commands/ValidateWorkflowCommand';
+import { WorkflowStatusCommand } from './commands/WorkflowStatusCommand';
+import path from 'path';
+
+const WORKFLOW_MODULE_META: IMCPModuleMeta = {
+  name: 'workflow',
+  description: 'Workflow module for running named multi-step workflows of MCP commands',
+  author: 'MCP System',
+  version: '1.0.0',
+};
+
+/**
+ * Workflow module for MCP
+ * Runs workflow definitions stored in the configuration directory
+ */
+export default class WorkflowModule extends BaseModule {
+  constructor() {
+    super(WORKFLOW_MODULE_META);
+  }
+  
+  /**
+   * Initialize the workflow module
+   *
+   * Options: `workflowsDirectory` (default `<configDirectory>/workflows`) and
+   * `runsDirectory` for the run history (default `<dataDirectory>/workflows`).
+   */
+  protected async onInitialize(options?: IMCPModuleInitOptions): Promise<boolean> {
+    try {
+      logger.info('Initializing workflow module');
+      
+      if (!options?.mcp) {
+        logger.error('Workflow module requires the MCP instance to run commands');
+        return false;
+      }
+      
+      const configDirectory = options.configDirectory || path.join(process.cwd(), 'config');
+      const store = new WorkflowStore(
+        options.workflowsDirectory || path.join(configDirectory, 'workflows'),
+        options.runsDirectory || path.join(options.dataDirectory || path.join(process.cwd(), 'data'), 'workflows')
+      );
+      await store.initialize();
+      
+      const engine = new WorkflowEngine(options.mcp, store);
+      
+      // Register commands
+      this.registerCommand(new RunWorkflowCommand(engine, store));
+      this.registerCommand(new ListWorkflowsCommand(engine, store));
+      this.registerCommand(new ValidateWorkflowCommand(engine, store));
+      this.registerCommand(new WorkflowStatusCommand(store));
+      
+      logger.info('Workflow module initialized successfully');
+      return true;
+    } catch (error) {
+      logger.error('Failed to initialize workflow module', { error });
+      return false;
+    }
+  }
+  
+  /**
+   * Shutdown the workflow module
+   */
+  protected async onShutdown(): Promise<void> {
+    logger.info('Workflow module shut down successfully');
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,471 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import readline, { Interface } from 'readline';
+import { Writable } from 'stream';
+import util from 'util';
+import { MCP } from '../core/MCP';
+import { IMCPCommandContext, IMCPCommandResult } from '../interfaces/IMCPCommand';
+import logger from '../utils/logger';
+
+/**
+ * MCP REPL options
+ */
+export interface MCPReplOptions {
+  /** File the command history is kept in between sessions */
+  historyFile: string;
+  /** Maximum number of history lines kept */
+  historySize: number;
+  input: NodeJS.ReadableStream & { isTTY?: boolean };
+  output: NodeJS.WritableStream & { isTTY?: boolean; columns?: number };
+}
+
+/**
+ * Meta-commands of the REPL, completed like command names
+ */
+const META_COMMANDS = [':help', ':login', ':set', ':json', ':exit', ':quit'];
+
+/**
+ * Settings that can be changed with :set
+ */
+const SETTINGS = ['cwd'];
+
+/**
+ * Help text of the meta-commands
+ */
+const META_HELP = `
+Enter a command such as fs.readFile path=README.md, or a pipeline of commands separated by |.
+Tab completes module, command and parameter names. Ctrl+C cancels a running command.
+
+Meta-commands:
+  :help              Show this help (mcp.help lists modules and commands)
+  :login <username>  Log in, the password is asked without echo
+  :set cwd <dir>     Change the working directory of the session
+  :json              Toggle printing results as raw JSON
+  :exit, :quit       Leave the shell
+`.trim();
+
+/**
+ * Interactive shell running MCP commands
+ *
+ * The session keeps a single command context for its lifetime: logging in
+ * and changing the working directory update it for every later command.
+ */
+export class MCPRepl {
+  private mcp: MCP;
+  private context: IMCPCommandContext;
+  private options: MCPReplOptions;
+  private rl?: Interface;
+  /** Set once the input has ended, lines read before may still be handled */
+  private closed: boolean = false;
+  private json: boolean = false;
+  private username?: string;
+  /** Hides typed characters, e.g. while asking for a password */
+  private muted: boolean = false;
+  /** Cancels the running command */
+  private running?: AbortController;
+  
+  /**
+   * Create a new REPL
+   * @param mcp Initialized MCP instance
+   * @param context Command context of the session
+   * @param options REPL options
+   */
+  constructor(mcp: MCP, context: IMCPCommandContext, options: Partial<MCPReplOptions> = {}) {
+    this.mcp = mcp;
+    this.context = context;
+    this.options = {
+      historyFile: path.join(mcp.config.dataDirectory, 'repl_history'),
+      historySize: 1000,
+      input: process.stdin,
+      output: process.stdout,
+      ...options,
+    };
+  }
+  
+  /**
+   * Run the shell until the user leaves it
+   */
+  public async start(): Promise<void> {
+    const rl = readline.createInterface({
+      input: this.options.input,
+      output: this.createOutput(),
+      terminal: Boolean(this.options.input.isTTY && this.options.output.isTTY),
+      history: await this.loadHistory(),
+      historySize: this.options.historySize,
+      removeHistoryDuplicates: true,
+      completer: (line: string) => this.complete(line),
+    });
+    
+    this.rl = rl;
+    
+    rl.on('history', (history) => {
+      // Passwords must not end up in the history
+      if (this.muted) {
+        history.shift();
+        return;
+      }
+      
+      this.saveHistory(history);
+    });
+    
+    rl.on('SIGINT', () => this.interrupt());
+    rl.on('close', () => {
+      this.closed = true;
+    });
+    
+    this.print(chalk.bold('MCP interactive shell') + chalk.dim(' - type :help for help, :exit to leave'));
+    this.prompt();
+    
+    for await (const line of rl) {
+      if (!await this.handleLine(line)) {
+        break;
+      }
+      
+      this.prompt();
+    }
+    
+    rl.close();
+    this.rl = undefined;
+  }
+  
+  /**
+   * Leave the shell, e.g. when the process is shutting down
+   */
+  public close(): void {
+    this.rl?.close();
+  }
+  
+  /**
+   * Handle one input line
+   * @param line Input line
+   * @returns False when the session should end
+   */
+  private async handleLine(line: string): Promise<boolean> {
+    const input = line.trim();
+    
+    if (input.length === 0) {
+      return true;
+    }
+    
+    if (input.startsWith(':')) {
+      return this.runMetaCommand(input);
+    }
+    
+    await this.runCommand(input);
+    return true;
+  }
+  
+  /**
+   * Execute a command line with the session context
+   * @param commandString Command or pipeline to execute
+   */
+  private async runCommand(commandString: string): Promise<void> {
+    const controller = new AbortController();
+    const signal = this.context.signal ? AbortSignal.any([this.context.signal, controller.signal]) : controller.signal;
+    
+    this.running = controller;
+    
+    try {
+      this.printResult(await this.mcp.executeCommand(commandString, { ...this.context, signal }));
+    } catch (error) {
+      logger.error('Error executing command in the REPL', { error, command: commandString });
+      this.print(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+    } finally {
+      this.running = undefined;
+    }
+  }
+  
+  /**
+   * Run a meta-command
+   * @param input Meta-command line, starting with `:`
+   * @returns False when the session should end
+   */
+  private async runMetaCommand(input: string): Promise<boolean> {
+    const [name, ...args] = input.split(/\s+/);
+    
+    switch (name) {
+      case ':help':
+        this.print(META_HELP);
+        break;
+      
+      case ':login':
+        await this.login(args[0]);
+        break;
+      
+      case ':set':
+        await this.set(args[0], args.slice(1).join(' '));
+        break;
+      
+      case ':json':
+        this.json = !this.json;
+        this.print(`Printing results as ${this.json ? 'raw JSON' : 'formatted output'}`);
+        break;
+      
+      case ':exit':
+      case ':quit':
+        return false;
+      
+      default:
+        this.print(chalk.red(`Unknown meta-command ${name}, type :help for help`));
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Log in and mark the session context as authenticated
+   * @param username Username
+   */
+  private async login(username?: string): Promise<void> {
+    if (!username) {
+      this.print('Usage: :login <username>');
+      return;
+    }
+    
+    const password = await this.askHidden('Password: ');
+    
+    if (password === undefined) {
+      this.print(chalk.red('Cannot ask for the password, the input has ended'));
+      return;
+    }
+    const result = await this.mcp.authenticate(username, password);
+    
+    if (!result.success) {
+      this.print(chalk.red(`Login failed: ${result.error}`));
+      return;
+    }
+    
+    this.username = username;
+    this.context.userId = result.userId;
+    this.context.securityContext = {
+      ...this.context.securityContext,
+      isAuthenticated: true,
+      permissions: result.scopes || [],
+      authToken: result.token,
+    };
+    
+    this.print(`Logged in as ${username}`);
+  }
+  
+  /**
+   * Change a session setting
+   * @param setting Setting name
+   * @param value New value
+   */
+  private async set(setting?: string, value?: string): Promise<void> {
+    if (setting !== 'cwd' || !value) {
+      this.print(`Usage: :set cwd <dir> (current: ${this.context.workingDirectory})`);
+      return;
+    }
+    
+    const directory = path.resolve(this.context.workingDirectory, value.replace(/^~(?=$|\/)/, os.homedir()));
+    
+    try {
+      if (!(await fs.stat(directory)).isDirectory()) {
+        this.print(chalk.red(`${directory} is not a directory`));
+        return;
+      }
+    } catch {
+      this.print(chalk.red(`${directory} does not exist`));
+      return;
+    }
+    
+    this.context.workingDirectory = directory;
+    this.print(`Working directory: ${directory}`);
+  }
+  
+  /**
+   * Cancel the running command, clear the line, or leave on an empty line
+   */
+  private interrupt(): void {
+    if (this.running) {
+      this.running.abort();
+      return;
+    }
+    
+    if (this.rl && this.rl.line.length > 0) {
+      this.rl.write(null, { ctrl: true, name: 'e' });
+      this.rl.write(null, { ctrl: true, name: 'u' });
+      return;
+    }
+    
+    this.rl?.close();
+  }
+  
+  /**
+   * Complete module, command, parameter and meta-command names
+   * @param line Line typed so far
+   */
+  private complete(line: string): [string[], string] {
+    // Only the command after the last pipe is completed
+    const segment = line.slice(line.lastIndexOf('|') + 1).trimStart();
+    const words = segment.split(/\s+/);
+    const current = words[words.length - 1];
+    
+    if (segment.startsWith(':')) {
+      const candidates = words.length === 1 ? META_COMMANDS : words[0] === ':set' && words.length === 2 ? SETTINGS : [];
+      return [candidates.filter((candidate) => candidate.startsWith(current)), current];
+    }
+    
+    if (words.length === 1) {
+      return [this.commandNames(current).filter((candidate) => candidate.startsWith(current)), current];
+    }
+    
+    // Parameter names of the command, except those already given; command names may contain dots
+    const separator = words[0].indexOf('.');
+    const command = separator === -1
+      ? undefined
+      : this.mcp.getCommand(words[0].slice(0, separator), words[0].slice(separator + 1));
+    
+    if (!command || current.includes('=')) {
+      return [[], current];
+    }
+    
+    const given = new Set(words.slice(1, -1).map((word) => word.split('=')[0]));
+    const candidates = (command.meta.parameters || [])
+      .filter((parameter) => !given.has(parameter.name))
+      .map((parameter) => `${parameter.name}=`);
+    
+    return [candidates.filter((candidate) => candidate.startsWith(current)), current];
+  }
+  
+  /**
+   * Names to complete a command name from: `module.` until a module is typed, then `module.command`
+   * @param current Word typed so far
+   */
+  private commandNames(current: string): string[] {
+    const separator = current.indexOf('.');
+    
+    if (separator === -1) {
+      return Array.from(this.mcp.modules.keys()).map((moduleName) => `${moduleName}.`);
+    }
+    
+    const module = this.mcp.modules.get(current.slice(0, separator));
+    return module ? Array.from(module.commands.keys()).map((commandName) => `${module.meta.name}.${commandName}`) : [];
+  }
+  
+  /**
+   * Print a command result
+   * @param result Command result
+   */
+  private printResult(result: IMCPCommandResult): void {
+    if (this.json) {
+      this.print(JSON.stringify(result, null, 2));
+      return;
+    }
+    
+    if (result.success) {
+      if (typeof result.data === 'string') {
+        this.print(result.data);
+      } else if (result.data !== undefined) {
+        this.print(util.inspect(result.data, { depth: null, colors: Boolean(chalk.supportsColor) }));
+      }
+    } else {
+      this.print(chalk.red(`Error: ${result.error}`));
+    }
+    
+    const details = [result.status, result.executionTime !== undefined ? `${result.executionTime} ms` : undefined]
+      .filter((detail) => detail !== undefined);
+    
+    if (details.length > 0) {
+      this.print(chalk.dim(`(${details.join(', ')})`));
+    }
+  }
+  
+  /**
+   * Show the prompt, with the logged in user and the name of the working directory
+   */
+  private prompt(): void {
+    const user = this.username ? `${this.username}@` : '';
+    this.rl?.setPrompt(chalk.cyan(`${user}mcp:${path.basename(this.context.workingDirectory) || '/'}> `));
+    this.rl?.prompt();
+  }
+  
+  /**
+   * Ask a question without echoing the answer
+   * @param query Question to show
+   * @returns The answer, or undefined if the input ends first
+   */
+  private askHidden(query: string): Promise<string | undefined> {
+    const rl = this.rl;
+    
+    if (!rl || this.closed) {
+      return Promise.resolve(undefined);
+    }
+    
+    return new Promise((resolve) => {
+      const onClose = () => {
+        this.muted = false;
+        resolve(undefined);
+      };
+      
+      rl.once('close', onClose);
+      rl.question(query, (answer) => {
+        rl.off('close', onClose);
+        this.muted = false;
+        this.print('');
+        resolve(answer);
+      });
+      
+      // Set after the question itself has been written
+      this.muted = true;
+    });
+  }
+  
+  /**
+   * Write a line to the output
+   * @param text Text to write
+   */
+  private print(text: string): void {
+    this.options.output.write(`${text}\n`);
+  }
+  
+  /**
+   * Output stream for readline that drops writes while muted
+   */
+  private createOutput(): Writable {
+    const target = this.options.output;
+    
+    const output = new Writable({
+      write: (chunk, encoding, callback) => {
+        if (!this.muted) {
+          target.write(chunk, encoding);
+        }
+        
+        callback();
+      },
+    });
+    
+    // readline reads the terminal width and TTY flag from its output
+    Object.defineProperty(output, 'columns', { get: () => target.columns });
+    Object.defineProperty(output, 'isTTY', { get: () => target.isTTY });
+    
+    return output;
+  }
+  
+  /**
+   * Read the history of earlier sessions, newest line first
+   */
+  private async loadHistory(): Promise<string[]> {
+    try {
+      const content = await fs.readFile(this.options.historyFile, 'utf8');
+      return content.split('\n').filter((line) => line.length > 0).reverse().slice(0, this.options.historySize);
+    } catch {
+      return [];
+    }
+  }
+  
+  /**
+   * Write the history for later sessions, oldest line first
+   * @param history History lines, newest first
+   */
+  private saveHistory(history: string[]): void {
+    const content = history.slice().reverse().join('\n') + '\n';
+    
+    fs.outputFile(this.options.historyFile, content).catch((error) => {
+      logger.warn('Cannot save the REPL history', { error, path: this.options.historyFile });
+    });
+  }
+} 
\ No newline at end of file
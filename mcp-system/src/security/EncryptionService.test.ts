@@ -0,0 +1,93 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { EncryptionError, EncryptionService } from './EncryptionService';
+
+describe('EncryptionService', () => {
+  let directory: string;
+  let keyFile: string;
+  
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-keys-'));
+    keyFile = path.join(directory, 'keys.json');
+  });
+  
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+  
+  /**
+   * Create and load an encryption service on the test key file
+   * @param passphrase Passphrase to derive keys from
+   */
+  async function loadService(passphrase?: string): Promise<EncryptionService> {
+    const service = new EncryptionService({ keyFile, passphrase });
+    await service.load();
+    return service;
+  }
+  
+  it('round-trips data with a fresh IV each time', async () => {
+    const service = await loadService();
+    const first = service.encrypt('top secret');
+    const second = service.encrypt('top secret');
+    
+    expect(first).not.toBe(second);
+    expect(service.isEncrypted(first)).toBe(true);
+    expect(service.isEncrypted('top secret')).toBe(false);
+    expect(service.decrypt(first)).toBe('top secret');
+    expect((await loadService()).decrypt(second)).toBe('top secret');
+  });
+  
+  it('rejects altered ciphertexts and swapped key ids', async () => {
+    const service = await loadService();
+    const ciphertext = service.encrypt('top secret');
+    const parts = ciphertext.split(':');
+    const data = Buffer.from(parts[5], 'base64url');
+    data[0] ^= 1;
+    
+    expect(() => service.decrypt([...parts.slice(0, 5), data.toString('base64url')].join(':'))).toThrow(EncryptionError);
+    expect(() => service.decrypt('plain text')).toThrow('Not an encrypted value');
+    
+    const previous = service.getActiveKeyId();
+    await service.rotate();
+    parts[2] = service.getActiveKeyId();
+    
+    expect(() => service.decrypt(parts.join(':'))).toThrow('Decryption failed, the data was altered or made with another key');
+    expect(service.getKeyId(ciphertext)).toBe(previous);
+  });
+  
+  it('decrypts data of retired keys after a rotation until they are pruned', async () => {
+    const service = await loadService();
+    const old = service.encrypt('top secret');
+    const oldKeyId = service.getActiveKeyId();
+    const newKeyId = await service.rotate();
+    
+    expect(newKeyId).not.toBe(oldKeyId);
+    expect(service.listKeys().map((key) => [key.id, key.active])).toEqual(
+      expect.arrayContaining([[oldKeyId, false], [newKeyId, true]])
+    );
+    expect(service.decrypt(old)).toBe('top secret');
+    
+    const reencrypted = service.reencrypt(old);
+    
+    expect(service.getKeyId(reencrypted)).toBe(newKeyId);
+    expect(service.reencrypt(reencrypted)).toBe(reencrypted);
+    expect(await service.pruneRetiredKeys()).toEqual([oldKeyId]);
+    expect(() => service.decrypt(old)).toThrow(`Encryption key ${oldKeyId} not found`);
+    
+    const reloaded = await loadService();
+    
+    expect(reloaded.getActiveKeyId()).toBe(newKeyId);
+    expect(reloaded.decrypt(reencrypted)).toBe('top secret');
+  });
+  
+  it('refuses to load passphrase keys with another passphrase or none', async () => {
+    const service = await loadService('correct horse');
+    const ciphertext = service.encrypt('top secret');
+    
+    expect(service.listKeys()[0].source).toBe('passphrase');
+    expect((await loadService('correct horse')).decrypt(ciphertext)).toBe('top secret');
+    await expect(loadService('wrong horse')).rejects.toThrow(/was derived from another passphrase/);
+    await expect(loadService()).rejects.toThrow(/none is configured/);
+  });
+}); 
\ No newline at end of file
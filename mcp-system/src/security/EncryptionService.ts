@@ -0,0 +1,370 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import logger from '../utils/logger';
+
+/**
+ * Prefix of every ciphertext, naming the format version
+ */
+const CIPHERTEXT_PREFIX = 'enc:v1';
+
+/**
+ * AES-256-GCM with a 96-bit IV, as recommended for GCM
+ */
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/**
+ * Cost parameters of scrypt when deriving keys from the passphrase
+ */
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 32768, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+/**
+ * Fingerprint of key material, which does not reveal the key
+ * @param material Key material
+ */
+function fingerprint(material: Buffer): string {
+  return crypto.createHmac('sha256', material).update('mcp-key-check').digest('base64').slice(0, 22);
+}
+
+/**
+ * Error thrown when data cannot be encrypted or decrypted
+ */
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+/**
+ * Encryption key as kept in the key file
+ *
+ * Random keys are stored as they are; keys derived from the passphrase only
+ * store their salt, so the key file alone cannot decrypt anything.
+ */
+export interface EncryptionKey {
+  /** Key id, part of every ciphertext made with the key */
+  id: string;
+  /** Key material, base64, for random keys */
+  key?: string;
+  /** scrypt salt, base64, for keys derived from the passphrase */
+  salt?: string;
+  /** Fingerprint of a derived key, to tell a wrong passphrase on load */
+  check?: string;
+  createdAt: number;
+  /** When the key was replaced by a newer one, it only decrypts from then on */
+  retiredAt?: number;
+}
+
+/**
+ * Description of a key, without its material
+ */
+export interface EncryptionKeyInfo {
+  id: string;
+  source: 'random' | 'passphrase';
+  active: boolean;
+  createdAt: number;
+  retiredAt?: number;
+}
+
+/**
+ * Outcome of rotating the encryption key
+ */
+export interface KeyRotation {
+  /** Id of the new active key */
+  keyId: string;
+  /** Number of items re-encrypted, per module */
+  reencrypted: Record<string, number>;
+  /** Error message per module that failed to re-encrypt its data */
+  failed: Record<string, string>;
+  /** Ids of the retired keys that were deleted */
+  pruned: string[];
+}
+
+/**
+ * Encryption service options
+ */
+export interface EncryptionServiceOptions {
+  /** File the keys are kept in */
+  keyFile: string;
+  /** Passphrase new keys are derived from, random keys are used if omitted */
+  passphrase?: string;
+}
+
+/**
+ * Encrypts data with AES-256-GCM under a rotating set of keys
+ *
+ * Ciphertexts are `enc:v1:<key id>:<iv>:<auth tag>:<data>`, base64url, and
+ * name the key they were made with, so data made with a retired key still
+ * decrypts after a rotation until it is re-encrypted with the active key.
+ */
+export class EncryptionService {
+  private options: EncryptionServiceOptions;
+  private keys: Map<string, EncryptionKey> = new Map();
+  /** Key material per key id */
+  private material: Map<string, Buffer> = new Map();
+  private activeKeyId = '';
+  
+  /**
+   * Create a new encryption service
+   * @param options Encryption service options
+   */
+  constructor(options: EncryptionServiceOptions) {
+    this.options = options;
+  }
+  
+  /**
+   * Load the keys from disk, creating the first key if there are none
+   */
+  public async load(): Promise<void> {
+    if (!await fs.pathExists(this.options.keyFile)) {
+      await this.rotate();
+      logger.info(`Created encryption key ${this.activeKeyId} in ${this.options.keyFile}`);
+      return;
+    }
+    
+    const data = await fs.readJSON(this.options.keyFile);
+    
+    for (const key of data.keys || []) {
+      const material = await this.deriveMaterial(key);
+      
+      if (key.check && key.check !== fingerprint(material)) {
+        throw new EncryptionError(`Encryption key ${key.id} was derived from another passphrase`);
+      }
+      
+      this.keys.set(key.id, key);
+      this.material.set(key.id, material);
+    }
+    
+    if (!this.keys.has(data.activeKeyId)) {
+      throw new EncryptionError(`Active encryption key ${data.activeKeyId} not found in ${this.options.keyFile}`);
+    }
+    
+    this.activeKeyId = data.activeKeyId;
+  }
+  
+  /**
+   * Encrypt a string with the active key
+   * @param plaintext Data to encrypt
+   */
+  public encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.getMaterial(this.activeKeyId), iv);
+    
+    // The header is authenticated too, so the key id cannot be swapped
+    cipher.setAAD(Buffer.from(`${CIPHERTEXT_PREFIX}:${this.activeKeyId}`));
+    
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    
+    return [
+      CIPHERTEXT_PREFIX,
+      this.activeKeyId,
+      iv.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+      data.toString('base64url'),
+    ].join(':');
+  }
+  
+  /**
+   * Decrypt a string made by encrypt, with whichever key it names
+   * @param ciphertext Encrypted data
+   */
+  public decrypt(ciphertext: string): string {
+    const keyId = this.getKeyId(ciphertext);
+    
+    if (!keyId) {
+      throw new EncryptionError('Not an encrypted value');
+    }
+    
+    const [iv, tag, data] = ciphertext.slice(CIPHERTEXT_PREFIX.length + keyId.length + 2).split(':');
+    
+    try {
+      const decipher = crypto.createDecipheriv(ALGORITHM, this.getMaterial(keyId), Buffer.from(iv, 'base64url'));
+      decipher.setAAD(Buffer.from(`${CIPHERTEXT_PREFIX}:${keyId}`));
+      decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+      
+      return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8');
+    } catch (error) {
+      if (error instanceof EncryptionError) {
+        throw error;
+      }
+      
+      throw new EncryptionError('Decryption failed, the data was altered or made with another key');
+    }
+  }
+  
+  /**
+   * Check whether a value is a ciphertext made by encrypt
+   * @param value Value to check
+   */
+  public isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && this.getKeyId(value) !== undefined;
+  }
+  
+  /**
+   * Encrypt data again with the active key, if it was made with another one
+   * @param ciphertext Encrypted data
+   * @returns The new ciphertext, or the given one if it already uses the active key
+   */
+  public reencrypt(ciphertext: string): string {
+    if (this.getKeyId(ciphertext) === this.activeKeyId) {
+      return ciphertext;
+    }
+    
+    return this.encrypt(this.decrypt(ciphertext));
+  }
+  
+  /**
+   * Create a new active key, retiring the current one
+   * @returns Id of the new key
+   */
+  public async rotate(): Promise<string> {
+    const id = this.createKeyId();
+    const key: EncryptionKey = this.options.passphrase
+      ? { id, salt: crypto.randomBytes(16).toString('base64'), createdAt: Date.now() }
+      : { id, key: crypto.randomBytes(KEY_LENGTH).toString('base64'), createdAt: Date.now() };
+    const material = await this.deriveMaterial(key);
+    
+    if (key.salt) {
+      key.check = fingerprint(material);
+    }
+    
+    this.material.set(id, material);
+    this.keys.set(id, key);
+    
+    const previous = this.keys.get(this.activeKeyId);
+    if (previous) {
+      previous.retiredAt = key.createdAt;
+    }
+    
+    this.activeKeyId = id;
+    await this.save();
+    
+    return id;
+  }
+  
+  /**
+   * Delete the retired keys, once no data uses them anymore
+   * @returns Ids of the deleted keys
+   */
+  public async pruneRetiredKeys(): Promise<string[]> {
+    const retired = Array.from(this.keys.keys()).filter((id) => id !== this.activeKeyId);
+    
+    retired.forEach((id) => {
+      this.keys.delete(id);
+      this.material.delete(id);
+    });
+    
+    if (retired.length > 0) {
+      await this.save();
+    }
+    
+    return retired;
+  }
+  
+  /**
+   * Get the id of the active key
+   */
+  public getActiveKeyId(): string {
+    return this.activeKeyId;
+  }
+  
+  /**
+   * Get the id of the key a ciphertext was made with
+   * @param ciphertext Encrypted data
+   * @returns The key id, or undefined if the value is not a ciphertext
+   */
+  public getKeyId(ciphertext: string): string | undefined {
+    const parts = ciphertext.split(':');
+    
+    if (parts.length !== 6 || `${parts[0]}:${parts[1]}` !== CIPHERTEXT_PREFIX) {
+      return undefined;
+    }
+    
+    return parts[2];
+  }
+  
+  /**
+   * List the keys, newest first
+   */
+  public listKeys(): EncryptionKeyInfo[] {
+    return Array.from(this.keys.values())
+      .map((key) => ({
+        id: key.id,
+        source: key.salt ? 'passphrase' as const : 'random' as const,
+        active: key.id === this.activeKeyId,
+        createdAt: key.createdAt,
+        retiredAt: key.retiredAt,
+      }))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+  
+  /**
+   * Get the material of a key
+   * @param keyId Key id
+   */
+  private getMaterial(keyId: string): Buffer {
+    const material = this.material.get(keyId);
+    
+    if (!material) {
+      throw new EncryptionError(`Encryption key ${keyId} not found`);
+    }
+    
+    return material;
+  }
+  
+  /**
+   * Get the material of a stored key, deriving it from the passphrase if needed
+   * @param key Stored key
+   */
+  private async deriveMaterial(key: EncryptionKey): Promise<Buffer> {
+    if (key.key) {
+      return Buffer.from(key.key, 'base64');
+    }
+    
+    if (!this.options.passphrase) {
+      throw new EncryptionError(`Encryption key ${key.id} is derived from a passphrase, but none is configured`);
+    }
+    
+    const passphrase = this.options.passphrase;
+    
+    return new Promise((resolve, reject) => {
+      crypto.scrypt(passphrase, Buffer.from(key.salt!, 'base64'), KEY_LENGTH, SCRYPT_OPTIONS, (error, derived) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(derived);
+        }
+      });
+    });
+  }
+  
+  /**
+   * Create a key id not used by another key
+   */
+  private createKeyId(): string {
+    let id: string;
+    
+    do {
+      id = crypto.randomBytes(4).toString('hex');
+    } while (this.keys.has(id));
+    
+    return id;
+  }
+  
+  /**
+   * Write the keys to disk, readable by the owner only
+   */
+  private async save(): Promise<void> {
+    await fs.ensureDir(path.dirname(this.options.keyFile));
+    
+    const tempPath = `${this.options.keyFile}.tmp`;
+    await fs.writeJSON(tempPath, {
+      activeKeyId: this.activeKeyId,
+      keys: Array.from(this.keys.values()),
+    }, { spaces: 2, mode: 0o600 });
+    await fs.move(tempPath, this.options.keyFile, { overwrite: true });
+  }
+} 
\ No newline at end of file
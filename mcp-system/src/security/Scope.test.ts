@@ -0,0 +1,58 @@
+import { exceedingScopes, intersectScopes, isValidScope, normalizeScope, scopeMatches, scopesAllow } from './Scope';
+
+describe('normalizeScope', () => {
+  it('reads the older dotted notation and a lone wildcard', () => {
+    expect(normalizeScope(' fs.read ')).toBe('fs:read');
+    expect(normalizeScope('*')).toBe('*:*');
+    expect(normalizeScope('ai:claude')).toBe('ai:claude');
+  });
+});
+
+describe('isValidScope', () => {
+  it('accepts resource:action with wildcards only', () => {
+    expect(isValidScope('fs:read')).toBe(true);
+    expect(isValidScope('*:read')).toBe(true);
+    expect(isValidScope('fs')).toBe(false);
+    expect(isValidScope('fs:re*d')).toBe(false);
+    expect(isValidScope('fs:read:more')).toBe(false);
+  });
+});
+
+describe('scopeMatches', () => {
+  it.each([
+    ['fs:read', 'fs:read', true],
+    ['fs:*', 'fs:write', true],
+    ['*:read', 'memory:read', true],
+    ['*', 'terminal:execute', true],
+    ['fs:read', 'fs:write', false],
+    ['*:read', 'fs:write', false],
+    // A wildcard is only covered by a wildcard
+    ['fs:read', 'fs:*', false],
+    ['fs:*', 'fs:*', true],
+  ])('%s covers %s: %s', (granted, required, expected) => {
+    expect(scopeMatches(granted, required)).toBe(expected);
+  });
+});
+
+describe('scopesAllow', () => {
+  it('allows a scope covered by any granted scope', () => {
+    expect(scopesAllow(['fs:read', 'ai:*'], 'ai:claude')).toBe(true);
+    expect(scopesAllow(['fs:read', 'ai:*'], 'terminal:execute')).toBe(false);
+    expect(scopesAllow([], 'fs:read')).toBe(false);
+  });
+});
+
+describe('exceedingScopes', () => {
+  it('returns the requested scopes the granted ones do not cover', () => {
+    expect(exceedingScopes(['fs:*', 'role:write'], ['fs:read', 'fs:*', 'terminal:*', '*'])).toEqual(['terminal:*', '*']);
+    expect(exceedingScopes(['*'], ['terminal:*', '*:*'])).toEqual([]);
+  });
+});
+
+describe('intersectScopes', () => {
+  it('keeps the narrower part of overlapping scopes', () => {
+    expect(intersectScopes(['*'], ['fs:read'])).toEqual(['fs:read']);
+    expect(intersectScopes(['fs:*', 'ai:claude'], ['*:read', 'ai:*']).sort()).toEqual(['ai:claude', 'fs:read']);
+    expect(intersectScopes(['fs:read'], ['fs:write'])).toEqual([]);
+  });
+}); 
\ No newline at end of file
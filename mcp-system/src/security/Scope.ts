@@ -0,0 +1,99 @@
+/**
+ * Wildcard matching any resource or action, `*` alone stands for `*:*`
+ */
+export const SCOPE_WILDCARD = '*';
+
+/**
+ * Valid scope after normalization, `<resource>:<action>`
+ */
+const SCOPE_PATTERN = /^(\*|[a-zA-Z0-9_-]+):(\*|[a-zA-Z0-9_-]+)$/;
+
+/**
+ * Normalize a scope, accepting the older `category.level` notation
+ * @param scope Scope, e.g. `fs:read`, `fs.read` or `*`
+ */
+export function normalizeScope(scope: string): string {
+  const trimmed = scope.trim();
+  
+  if (trimmed === SCOPE_WILDCARD) {
+    return `${SCOPE_WILDCARD}:${SCOPE_WILDCARD}`;
+  }
+  
+  return trimmed.includes(':') ? trimmed : trimmed.replace('.', ':');
+}
+
+/**
+ * Check whether a scope is well-formed
+ * @param scope Scope to check
+ */
+export function isValidScope(scope: string): boolean {
+  return SCOPE_PATTERN.test(normalizeScope(scope));
+}
+
+/**
+ * Check whether a granted scope covers a required scope
+ * @param granted Granted scope, possibly with wildcards
+ * @param required Required scope
+ */
+export function scopeMatches(granted: string, required: string): boolean {
+  const [grantedResource, grantedAction] = normalizeScope(granted).split(':');
+  const [requiredResource, requiredAction] = normalizeScope(required).split(':');
+  
+  return (grantedResource === SCOPE_WILDCARD || grantedResource === requiredResource)
+    && (grantedAction === SCOPE_WILDCARD || grantedAction === requiredAction);
+}
+
+/**
+ * Check whether any of the granted scopes covers a required scope
+ * @param granted Granted scopes
+ * @param required Required scope
+ */
+export function scopesAllow(granted: string[], required: string): boolean {
+  return granted.some((scope) => scopeMatches(scope, required));
+}
+
+/**
+ * Get the requested scopes that the granted scopes do not cover
+ * @param granted Granted scopes
+ * @param requested Requested scopes, possibly with wildcards
+ */
+export function exceedingScopes(granted: string[], requested: string[]): string[] {
+  return requested.filter((scope) => !scopesAllow(granted, scope));
+}
+
+/**
+ * Get the scopes covered by both sets of scopes
+ * @param a Granted scopes
+ * @param b Granted scopes
+ */
+export function intersectScopes(a: string[], b: string[]): string[] {
+  const result = new Set<string>();
+  
+  for (const left of a.map(normalizeScope)) {
+    for (const right of b.map(normalizeScope)) {
+      const [leftResource, leftAction] = left.split(':');
+      const [rightResource, rightAction] = right.split(':');
+      const resource = intersectPart(leftResource, rightResource);
+      const action = intersectPart(leftAction, rightAction);
+      
+      if (resource !== undefined && action !== undefined) {
+        result.add(`${resource}:${action}`);
+      }
+    }
+  }
+  
+  return Array.from(result);
+}
+
+/**
+ * Get the narrower of two scope parts, or undefined if they do not overlap
+ * @param a Resource or action
+ * @param b Resource or action
+ */
+function intersectPart(a: string, b: string): string | undefined {
+  if (a === SCOPE_WILDCARD) {
+    return b;
+  }
+  
+  return b === SCOPE_WILDCARD || a === b ? a : undefined;
+} 
\ No newline at end of file
@@ -0,0 +1,48 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { SecurityManager } from './SecurityManager';
+
+describe('SecurityManager', () => {
+  let directory: string;
+  let security: SecurityManager;
+  
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-security-'));
+    security = new SecurityManager({
+      usersFilePath: path.join(directory, 'users.json'),
+      tokenSecret: 'test-secret',
+      tokenExpiration: 60,
+    });
+    await security.initialize();
+    await security.createUser('alice', 'alice-password', { scopes: ['fs:read'] });
+  });
+  
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+  
+  it('ends the sessions of an API key when the key is revoked', async () => {
+    const revoked = (await security.createApiKey('alice', { name: 'revoked' }))!;
+    const kept = (await security.createApiKey('alice', { name: 'kept' }))!;
+    const session = await security.authenticateWithApiKey(revoked.key);
+    const other = await security.authenticateWithApiKey(kept.key);
+    
+    expect(security.validateToken(session.token!).valid).toBe(true);
+    expect(await security.revokeApiKey(revoked.apiKey.prefix)).toBe(true);
+    
+    expect(security.validateToken(session.token!)).toEqual({ valid: false, error: 'API key was revoked' });
+    expect(await security.refresh(session.refreshToken!)).toEqual({ success: false, error: 'API key was revoked' });
+    expect(security.validateToken(other.token!).valid).toBe(true);
+    expect((await security.refresh(other.refreshToken!)).success).toBe(true);
+  });
+  
+  it('keeps password sessions valid when an API key of the user is revoked', async () => {
+    const created = (await security.createApiKey('alice'))!;
+    const session = await security.authenticate('alice', 'alice-password');
+    
+    await security.revokeApiKey(created.key);
+    
+    expect(security.validateToken(session.token!).valid).toBe(true);
+  });
+}); 
\ No newline at end of file
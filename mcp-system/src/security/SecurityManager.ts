@@ -1,11 +1,12 @@
 import fs from 'fs-extra';
 import path from 'path';
 import crypto from 'crypto';
-import CryptoJS from 'crypto-js';
 import logger from '../utils/logger';
+import { intersectScopes, isValidScope, normalizeScope, scopesAllow } from './Scope';
+import { TokenService } from './TokenService';
 
 /**
- * User permission level
+ * Permission level of users files written before scopes, migrated on load
  */
 export enum PermissionLevel {
   NONE = 0,
@@ -15,6 +16,78 @@ export enum PermissionLevel {
   ADMIN = 4,
 }
 
+/**
+ * Actions implied by the levels below ADMIN, in level order
+ */
+const LEGACY_ACTIONS = ['read', 'write', 'execute'];
+
+/**
+ * Valid role name
+ */
+const ROLE_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Named bundle of scopes
+ */
+export interface Role {
+  name: string;
+  description?: string;
+  scopes: string[];
+  /** Built-in roles cannot be changed or deleted */
+  builtIn?: boolean;
+}
+
+/**
+ * Roles every installation has
+ */
+const BUILT_IN_ROLES: Role[] = [
+  { name: 'admin', description: 'Every permission, including managing roles', scopes: ['*:*'], builtIn: true },
+  { name: 'reader', description: 'Read access to every resource', scopes: ['*:read'], builtIn: true },
+];
+
+/**
+ * Characters at the start of an API key that identify it, e.g. `mcp_1a2b3c4d`
+ */
+const API_KEY_PREFIX_LENGTH = 12;
+
+/**
+ * Milliseconds between writes of the last use of an API key
+ */
+const API_KEY_USAGE_SAVE_INTERVAL = 60000;
+
+/**
+ * API key of a user, stored as a hash; the key itself is only shown once
+ */
+export interface ApiKey {
+  /** Start of the key, shown in listings and accepted to revoke it */
+  prefix: string;
+  /** SHA-256 hash of the key */
+  hash: string;
+  /** What the key is used for */
+  name?: string;
+  /** Roles the key is restricted to, within the user's own scopes; all of them if unset */
+  roles?: string[];
+  createdAt: number;
+  lastUsedAt?: number;
+}
+
+/**
+ * Newly created API key
+ */
+export interface CreatedApiKey {
+  /** The key, which cannot be read back later */
+  key: string;
+  apiKey: ApiKey;
+}
+
+/**
+ * Hash an API key for storage and lookup
+ * @param key API key
+ */
+function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
 /**
  * User data structure
  */
@@ -23,14 +96,27 @@ export interface User {
   username: string;
   passwordHash: string;
   salt: string;
-  permissions: {
+  /** Roles assigned to the user */
+  roles: string[];
+  /** Scopes granted directly, besides those of the roles */
+  scopes: string[];
+  /** Permission levels of users files written before scopes */
+  permissions?: {
     [category: string]: PermissionLevel;
   };
-  apiKeys?: string[];
+  apiKeys?: ApiKey[];
   createdAt: number;
   lastLogin?: number;
 }
 
+/**
+ * Roles and scopes to grant or revoke
+ */
+export interface Grants {
+  roles?: string[];
+  scopes?: string[];
+}
+
 /**
  * Authentication result
  */
@@ -38,6 +124,32 @@ export interface AuthResult {
   success: boolean;
   userId?: string;
   token?: string;
+  /** Refresh token that gets a new token once this one expires */
+  refreshToken?: string;
+  /** Expiry time of the token, milliseconds since the epoch */
+  expiresAt?: number;
+  /** Scopes the caller holds */
+  scopes?: string[];
+  /** Prefix of the API key the caller authenticated with */
+  apiKey?: string;
+  error?: string;
+}
+
+/**
+ * Result of validating a session token
+ */
+export interface TokenValidation {
+  valid: boolean;
+  userId?: string;
+  scopes?: string[];
+  /** Roles the session is restricted to, for API key sessions */
+  roles?: string[];
+  /** Id of the session the token belongs to */
+  sessionId?: string;
+  /** Prefix of the API key the session was opened with */
+  apiKey?: string;
+  /** Expiry time of the token, milliseconds since the epoch */
+  expiresAt?: number;
   error?: string;
 }
 
@@ -48,7 +160,44 @@ export interface SecurityManagerConfig {
   usersFilePath: string;
   tokenSecret: string;
   tokenExpiration: number; // in seconds
-  encryptionKey: string;
+  /** Lifetime of refresh tokens in seconds, 30 days by default */
+  refreshTokenExpiration?: number;
+  /** File the revoked tokens are kept in, next to the users file by default */
+  revokedTokensFilePath?: string;
+  /** Scopes of new users */
+  defaultScopes?: string[];
+}
+
+/**
+ * Remove duplicates from a list, keeping the first occurrence
+ * @param values Values
+ */
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+/**
+ * Convert the permission levels of an older users file to roles and scopes
+ *
+ * Each level implies the ones below it, so `fs: WRITE` becomes `fs:read` and
+ * `fs:write`, `fs: ADMIN` becomes `fs:*` and `admin: ADMIN` the admin role.
+ * @param permissions Permission level per category
+ */
+function migratePermissions(permissions: { [category: string]: PermissionLevel }): Required<Grants> {
+  const roles: string[] = [];
+  const scopes: string[] = [];
+  
+  for (const [category, level] of Object.entries(permissions)) {
+    if (level < PermissionLevel.ADMIN) {
+      scopes.push(...LEGACY_ACTIONS.slice(0, level).map((action) => `${category}:${action}`));
+    } else if (category === 'admin') {
+      roles.push('admin');
+    } else {
+      scopes.push(`${category}:*`);
+    }
+  }
+  
+  return { roles, scopes };
 }
 
 /**
@@ -56,7 +205,9 @@ export interface SecurityManagerConfig {
  */
 export class SecurityManager {
   private users: Map<string, User> = new Map();
-  private tokens: Map<string, { userId: string; expires: number }> = new Map();
+  /** Roles created at runtime, next to the built-in ones */
+  private roles: Map<string, Role> = new Map();
+  private tokens: TokenService;
   private config: SecurityManagerConfig;
   
   /**
@@ -65,6 +216,13 @@ export class SecurityManager {
    */
   constructor(config: SecurityManagerConfig) {
     this.config = config;
+    this.tokens = new TokenService({
+      secret: config.tokenSecret,
+      expiration: config.tokenExpiration,
+      refreshExpiration: config.refreshTokenExpiration ?? 30 * 86400,
+      revocationFile: config.revokedTokensFilePath
+        || path.join(path.dirname(config.usersFilePath), 'revoked-tokens.json'),
+    });
   }
   
   /**
@@ -78,15 +236,31 @@ export class SecurityManager {
         await fs.writeJSON(this.config.usersFilePath, { users: [] });
       }
       
-      // Load users
+      // Load users and roles
       const userData = await fs.readJSON(this.config.usersFilePath);
+      let migrated = false;
+      
+      if (Array.isArray(userData.roles)) {
+        userData.roles.forEach((role: Role) => {
+          this.roles.set(role.name, role);
+        });
+      }
+      
       if (Array.isArray(userData.users)) {
         userData.users.forEach((user: User) => {
+          migrated = this.migrateUser(user) || migrated;
           this.users.set(user.id, user);
         });
       }
       
-      logger.info(`Loaded ${this.users.size} users`);
+      if (migrated) {
+        logger.info('Migrated user permissions to roles and scopes');
+        await this.saveUsers();
+      }
+      
+      logger.info(`Loaded ${this.users.size} users and ${this.roles.size} custom roles`);
+      
+      await this.tokens.load();
       return true;
     } catch (error) {
       logger.error('Failed to initialize security manager', { error });
@@ -95,12 +269,56 @@ export class SecurityManager {
   }
   
   /**
-   * Save users to disk
+   * Bring a user loaded from an older users file up to date
+   * @param user Loaded user
+   * @returns Whether the user changed
+   */
+  private migrateUser(user: User): boolean {
+    let migrated = false;
+    
+    if (user.permissions) {
+      const { roles, scopes } = migratePermissions(user.permissions);
+      user.roles = unique([...(user.roles || []), ...roles]);
+      user.scopes = unique([...(user.scopes || []), ...scopes]);
+      delete user.permissions;
+      migrated = true;
+    }
+    
+    user.roles = user.roles || [];
+    user.scopes = user.scopes || [];
+    
+    // API keys used to be stored in plain text, as strings or in a key field
+    const apiKeys = (user.apiKeys || []) as (ApiKey | string | (Omit<ApiKey, 'prefix' | 'hash'> & { key: string }))[];
+    
+    if (apiKeys.some((apiKey) => typeof apiKey === 'string' || 'key' in apiKey)) {
+      user.apiKeys = apiKeys.map((apiKey) => {
+        if (typeof apiKey === 'string') {
+          apiKey = { key: apiKey, createdAt: user.createdAt };
+        }
+        
+        if (!('key' in apiKey)) {
+          return apiKey;
+        }
+        
+        const { key, ...rest } = apiKey;
+        return { ...rest, prefix: key.slice(0, API_KEY_PREFIX_LENGTH), hash: hashApiKey(key) };
+      });
+      migrated = true;
+    }
+    
+    return migrated;
+  }
+  
+  /**
+   * Save users and custom roles to disk
    */
   private async saveUsers(): Promise<void> {
     try {
       const tempPath = `${this.config.usersFilePath}.tmp`;
-      await fs.writeJSON(tempPath, { users: Array.from(this.users.values()) });
+      await fs.writeJSON(tempPath, {
+        users: Array.from(this.users.values()),
+        roles: Array.from(this.roles.values()),
+      });
       await fs.move(tempPath, this.config.usersFilePath, { overwrite: true });
     } catch (error) {
       logger.error('Failed to save users', { error });
@@ -112,13 +330,9 @@ export class SecurityManager {
    * Create a new user
    * @param username Username
    * @param password Password
-   * @param defaultPermissions Default permissions
+   * @param grants Roles and scopes, besides the default scopes
    */
-  public async createUser(
-    username: string,
-    password: string,
-    defaultPermissions: { [category: string]: PermissionLevel } = {}
-  ): Promise<User> {
+  public async createUser(username: string, password: string, grants: Grants = {}): Promise<User> {
     // Check if username already exists
     const existingUser = Array.from(this.users.values()).find(
       (u) => u.username === username
@@ -127,6 +341,8 @@ export class SecurityManager {
       throw new Error(`User ${username} already exists`);
     }
     
+    this.checkGrants(grants);
+    
     // Generate salt and hash password
     const salt = crypto.randomBytes(16).toString('hex');
     const passwordHash = this.hashPassword(password, salt);
@@ -137,10 +353,8 @@ export class SecurityManager {
       username,
       passwordHash,
       salt,
-      permissions: {
-        ...defaultPermissions,
-        system: PermissionLevel.READ,
-      },
+      roles: unique(grants.roles || []),
+      scopes: unique([...(this.config.defaultScopes || []), ...(grants.scopes || [])].map(normalizeScope)),
       createdAt: Date.now(),
     };
     
@@ -151,6 +365,226 @@ export class SecurityManager {
     return user;
   }
   
+  /**
+   * Get a user by id
+   * @param userId User ID
+   */
+  public getUser(userId: string): User | undefined {
+    return this.users.get(userId);
+  }
+  
+  /**
+   * Find a user by username
+   * @param username Username
+   */
+  public findUser(username: string): User | undefined {
+    return Array.from(this.users.values()).find((u) => u.username === username);
+  }
+  
+  /**
+   * List all users
+   */
+  public listUsers(): User[] {
+    return Array.from(this.users.values());
+  }
+  
+  /**
+   * Get a role by name
+   * @param name Role name
+   */
+  public getRole(name: string): Role | undefined {
+    return BUILT_IN_ROLES.find((role) => role.name === name) || this.roles.get(name);
+  }
+  
+  /**
+   * List the built-in and custom roles
+   */
+  public listRoles(): Role[] {
+    return [...BUILT_IN_ROLES, ...this.roles.values()];
+  }
+  
+  /**
+   * Create a role, or replace the scopes of a custom role
+   * @param name Role name
+   * @param scopes Scopes of the role
+   * @param description Description of the role
+   */
+  public async saveRole(name: string, scopes: string[], description?: string): Promise<Role> {
+    if (!ROLE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid role name ${name}, use letters, digits, - and _`);
+    }
+    
+    if (this.getRole(name)?.builtIn) {
+      throw new Error(`Role ${name} is built in and cannot be changed`);
+    }
+    
+    this.checkGrants({ scopes });
+    
+    const role: Role = { name, description, scopes: unique(scopes.map(normalizeScope)) };
+    this.roles.set(name, role);
+    await this.saveUsers();
+    
+    return role;
+  }
+  
+  /**
+   * Delete a custom role, removing it from every user and API key
+   * @param name Role name
+   * @returns Whether the role existed
+   */
+  public async deleteRole(name: string): Promise<boolean> {
+    if (this.getRole(name)?.builtIn) {
+      throw new Error(`Role ${name} is built in and cannot be deleted`);
+    }
+    
+    if (!this.roles.delete(name)) {
+      return false;
+    }
+    
+    for (const user of this.users.values()) {
+      user.roles = user.roles.filter((role) => role !== name);
+      user.apiKeys?.forEach((apiKey) => {
+        apiKey.roles = apiKey.roles?.filter((role) => role !== name);
+      });
+    }
+    
+    await this.saveUsers();
+    
+    return true;
+  }
+  
+  /**
+   * Grant roles and scopes to a user
+   * @param username Username
+   * @param grants Roles and scopes to add
+   * @returns The updated user, or undefined if the user does not exist
+   */
+  public async grant(username: string, grants: Grants): Promise<User | undefined> {
+    const user = this.findUser(username);
+    if (!user) {
+      return undefined;
+    }
+    
+    this.checkGrants(grants);
+    
+    user.roles = unique([...user.roles, ...(grants.roles || [])]);
+    user.scopes = unique([...user.scopes, ...(grants.scopes || []).map(normalizeScope)]);
+    await this.saveUsers();
+    
+    return user;
+  }
+  
+  /**
+   * Revoke roles and scopes of a user
+   *
+   * Only direct grants are removed: revoking `fs:read` leaves `fs:*` and the
+   * scopes of the user's roles in place.
+   * @param username Username
+   * @param grants Roles and scopes to remove
+   * @returns The updated user, or undefined if the user does not exist
+   */
+  public async revoke(username: string, grants: Grants): Promise<User | undefined> {
+    const user = this.findUser(username);
+    if (!user) {
+      return undefined;
+    }
+    
+    const scopes = (grants.scopes || []).map(normalizeScope);
+    
+    user.roles = user.roles.filter((role) => !grants.roles?.includes(role));
+    user.scopes = user.scopes.filter((scope) => !scopes.includes(scope));
+    await this.saveUsers();
+    
+    return user;
+  }
+  
+  /**
+   * Throw if a grant names an unknown role or a malformed scope
+   * @param grants Roles and scopes
+   */
+  private checkGrants(grants: Grants): void {
+    const unknownRole = grants.roles?.find((role) => !this.getRole(role));
+    if (unknownRole) {
+      throw new Error(`Role ${unknownRole} not found`);
+    }
+    
+    const invalidScope = grants.scopes?.find((scope) => !isValidScope(scope));
+    if (invalidScope) {
+      throw new Error(`Invalid scope ${invalidScope}, expected <resource>:<action>`);
+    }
+  }
+  
+  /**
+   * Create an API key for a user
+   * @param username Username
+   * @param options Roles to restrict the key to, within the user's own scopes, and what the key is for
+   * @returns The new API key, or undefined if the user does not exist
+   */
+  public async createApiKey(
+    username: string,
+    options: { roles?: string[]; name?: string } = {}
+  ): Promise<CreatedApiKey | undefined> {
+    const user = this.findUser(username);
+    if (!user) {
+      return undefined;
+    }
+    
+    this.checkGrants({ roles: options.roles });
+    
+    let key: string;
+    
+    // The prefix identifies the key, so it must be unique
+    do {
+      key = `mcp_${crypto.randomBytes(28).toString('hex')}`;
+    } while (this.findApiKey(key.slice(0, API_KEY_PREFIX_LENGTH)));
+    
+    const apiKey: ApiKey = {
+      prefix: key.slice(0, API_KEY_PREFIX_LENGTH),
+      hash: hashApiKey(key),
+      name: options.name,
+      roles: options.roles,
+      createdAt: Date.now(),
+    };
+    
+    user.apiKeys = [...(user.apiKeys || []), apiKey];
+    await this.saveUsers();
+    
+    return { key, apiKey };
+  }
+  
+  /**
+   * List the API keys of a user
+   * @param username Username
+   * @returns The API keys, or undefined if the user does not exist
+   */
+  public listApiKeys(username: string): ApiKey[] | undefined {
+    const user = this.findUser(username);
+    return user ? user.apiKeys || [] : undefined;
+  }
+  
+  /**
+   * Revoke an API key
+   * @param keyOrPrefix API key, or its prefix
+   * @param userId Only revoke a key of this user
+   * @returns Whether the key existed
+   */
+  public async revokeApiKey(keyOrPrefix: string, userId?: string): Promise<boolean> {
+    const found = this.findApiKey(keyOrPrefix.slice(0, API_KEY_PREFIX_LENGTH));
+    if (!found || (userId && found.user.id !== userId)) {
+      return false;
+    }
+    
+    // A full key must match, not just start like one
+    if (keyOrPrefix.length > API_KEY_PREFIX_LENGTH && !this.matchesApiKey(found.apiKey, keyOrPrefix)) {
+      return false;
+    }
+    
+    found.user.apiKeys = found.user.apiKeys!.filter((apiKey) => apiKey !== found.apiKey);
+    await this.saveUsers();
+    
+    return true;
+  }
+  
   /**
    * Authenticate a user
    * @param username Username
@@ -171,14 +605,15 @@ export class SecurityManager {
       return { success: false, error: 'Invalid username or password' };
     }
     
-    // Generate token
-    const token = this.generateToken(user.id);
+    // Issue tokens carrying the user's current scopes
+    const scopes = this.getScopes(user.id);
+    const session = this.tokens.issue(user.id, scopes);
     
     // Update last login
     user.lastLogin = Date.now();
     await this.saveUsers();
     
-    return { success: true, userId: user.id, token };
+    return { success: true, userId: user.id, ...session, scopes };
   }
   
   /**
@@ -187,106 +622,206 @@ export class SecurityManager {
    */
   public async authenticateWithApiKey(apiKey: string): Promise<AuthResult> {
     // Find user with API key
-    const user = Array.from(this.users.values()).find(
-      (u) => u.apiKeys && u.apiKeys.includes(apiKey)
-    );
-    if (!user) {
+    const found = this.findApiKey(apiKey.slice(0, API_KEY_PREFIX_LENGTH));
+    if (!found || !this.matchesApiKey(found.apiKey, apiKey)) {
       return { success: false, error: 'Invalid API key' };
     }
     
-    // Generate token
-    const token = this.generateToken(user.id);
+    // Issue tokens restricted like the key
+    const { user, apiKey: record } = found;
+    const scopes = this.getScopes(user.id, record.roles);
+    const session = this.tokens.issue(user.id, scopes, { roles: record.roles, apiKey: record.prefix });
     
-    // Update last login
-    user.lastLogin = Date.now();
-    await this.saveUsers();
+    // Keys authenticate every HTTP request, so their use is only written now and then
+    const now = Date.now();
+    if (!record.lastUsedAt || now - record.lastUsedAt >= API_KEY_USAGE_SAVE_INTERVAL) {
+      record.lastUsedAt = now;
+      await this.saveUsers();
+    }
+    
+    return { success: true, userId: user.id, ...session, scopes, apiKey: record.prefix };
+  }
+  
+  /**
+   * Find an API key and its user by the key's prefix
+   * @param prefix Prefix of the key
+   */
+  private findApiKey(prefix: string): { user: User; apiKey: ApiKey } | undefined {
+    for (const user of this.users.values()) {
+      const apiKey = user.apiKeys?.find((record) => record.prefix === prefix);
+      
+      if (apiKey) {
+        return { user, apiKey };
+      }
+    }
     
-    return { success: true, userId: user.id, token };
+    return undefined;
+  }
+  
+  /**
+   * Check a key against a stored API key in constant time
+   * @param apiKey Stored API key
+   * @param key Key given by the caller
+   */
+  private matchesApiKey(apiKey: ApiKey, key: string): boolean {
+    return crypto.timingSafeEqual(Buffer.from(hashApiKey(key), 'hex'), Buffer.from(apiKey.hash, 'hex'));
   }
   
   /**
-   * Validate a token
+   * Validate a session token
+   *
+   * The user id and scopes are read from the token itself, as they were
+   * when it was issued; role changes apply once the token is refreshed.
+   * Tokens of deleted users and revoked API keys are no longer valid.
    * @param token Token to validate
    */
-  public validateToken(token: string): { valid: boolean; userId?: string } {
-    const tokenData = this.tokens.get(token);
-    if (!tokenData) {
-      return { valid: false };
+  public validateToken(token: string): TokenValidation {
+    const { valid, payload, error } = this.tokens.verify(token, 'access');
+    if (!valid) {
+      return { valid: false, error };
+    }
+    
+    const revoked = this.checkOwner(payload!.sub, payload!.key);
+    if (revoked) {
+      return { valid: false, error: revoked };
+    }
+    
+    return {
+      valid: true,
+      userId: payload!.sub,
+      scopes: payload!.scopes || [],
+      roles: payload!.roles,
+      sessionId: payload!.sid,
+      apiKey: payload!.key,
+      expiresAt: payload!.exp * 1000,
+    };
+  }
+  
+  /**
+   * Exchange a refresh token for new tokens of the same session
+   *
+   * The refresh token can only be used once. The new token carries the
+   * user's current scopes. Sessions of deleted users and revoked API keys
+   * cannot be refreshed.
+   * @param refreshToken Refresh token
+   */
+  public async refresh(refreshToken: string): Promise<AuthResult> {
+    const { valid, payload, error } = this.tokens.verify(refreshToken, 'refresh');
+    if (!valid) {
+      return { success: false, error };
     }
     
-    // Check if token is expired
-    if (tokenData.expires < Date.now()) {
-      this.tokens.delete(token);
-      return { valid: false };
+    const revoked = this.checkOwner(payload!.sub, payload!.key);
+    if (revoked) {
+      return { success: false, error: revoked };
     }
     
-    return { valid: true, userId: tokenData.userId };
+    const user = this.users.get(payload!.sub)!;
+    
+    await this.tokens.revokeToken(payload!);
+    
+    const scopes = this.getScopes(user.id, payload!.roles);
+    const session = this.tokens.issue(user.id, scopes, {
+      sessionId: payload!.sid,
+      roles: payload!.roles,
+      apiKey: payload!.key,
+    });
+    
+    return { success: true, userId: user.id, ...session, scopes };
   }
   
   /**
-   * Check if a user has permission
+   * Resolve the current scopes of a session after its request, e.g. when a queued job starts
+   *
+   * Fails if the user was deleted, the session was revoked or the API key it
+   * was opened with was revoked since.
    * @param userId User ID
-   * @param category Permission category
-   * @param level Required permission level
+   * @param sessionId Id of the session
+   * @param apiKey Prefix of the API key the session was opened with
    */
-  public hasPermission(
-    userId: string,
-    category: string,
-    level: PermissionLevel
-  ): boolean {
-    const user = this.users.get(userId);
-    if (!user) {
-      return false;
+  public resumeSession(userId: string, sessionId: string, apiKey?: string): AuthResult {
+    const revoked = this.checkOwner(userId, apiKey);
+    if (revoked) {
+      return { success: false, error: revoked };
     }
     
-    // Check if user has admin permission
-    if (user.permissions.admin === PermissionLevel.ADMIN) {
-      return true;
+    if (this.tokens.isSessionRevoked(sessionId)) {
+      return { success: false, error: 'Session was revoked' };
     }
     
-    // Check specific permission
-    const userLevel = user.permissions[category] || PermissionLevel.NONE;
-    return userLevel >= level;
+    const found = apiKey ? this.findApiKey(apiKey) : undefined;
+    
+    return { success: true, userId, scopes: this.getScopes(userId, found?.apiKey.roles) };
   }
   
   /**
-   * Generate a token for a user
+   * Check that the user and the API key a session was opened with still exist
    * @param userId User ID
+   * @param apiKey Prefix of the API key the session was opened with
+   * @returns Why the session is no longer valid, or undefined if it is
    */
-  private generateToken(userId: string): string {
-    const token = crypto.randomBytes(32).toString('hex');
-    const expires = Date.now() + this.config.tokenExpiration * 1000;
+  private checkOwner(userId: string, apiKey?: string): string | undefined {
+    if (!this.users.has(userId)) {
+      return 'User no longer exists';
+    }
     
-    this.tokens.set(token, { userId, expires });
+    if (apiKey && this.findApiKey(apiKey)?.user.id !== userId) {
+      return 'API key was revoked';
+    }
     
-    return token;
+    return undefined;
   }
   
   /**
-   * Hash a password
-   * @param password Password to hash
-   * @param salt Salt
+   * Log out, revoking the access and refresh tokens of a session
+   * @param token Access or refresh token of the session
+   * @returns Whether the token was valid
    */
-  private hashPassword(password: string, salt: string): string {
-    return crypto
-      .pbkdf2Sync(password, salt, 10000, 64, 'sha512')
-      .toString('hex');
+  public async logout(token: string): Promise<boolean> {
+    const { valid, payload } = this.tokens.verify(token);
+    if (!valid) {
+      return false;
+    }
+    
+    await this.tokens.revokeSession(payload!);
+    
+    return true;
   }
   
   /**
-   * Encrypt data
-   * @param data Data to encrypt
+   * Get the scopes a user holds through their roles and direct grants
+   * @param userId User ID
+   * @param roles Roles to restrict the scopes to, e.g. those of an API key
    */
-  public encrypt(data: string): string {
-    return CryptoJS.AES.encrypt(data, this.config.encryptionKey).toString();
+  public getScopes(userId: string, roles?: string[]): string[] {
+    const user = this.users.get(userId);
+    if (!user) {
+      return [];
+    }
+    
+    const roleScopes = (names: string[]) => names.flatMap((name) => this.getRole(name)?.scopes || []);
+    const scopes = unique([...roleScopes(user.roles), ...user.scopes].map(normalizeScope));
+    
+    return roles ? intersectScopes(scopes, roleScopes(roles)) : scopes;
   }
   
   /**
-   * Decrypt data
-   * @param encryptedData Encrypted data
+   * Check if a user holds a scope
+   * @param userId User ID
+   * @param scope Required scope, e.g. `fs:read`
    */
-  public decrypt(encryptedData: string): string {
-    const bytes = CryptoJS.AES.decrypt(encryptedData, this.config.encryptionKey);
-    return bytes.toString(CryptoJS.enc.Utf8);
+  public hasScope(userId: string, scope: string): boolean {
+    return scopesAllow(this.getScopes(userId), scope);
+  }
+  
+  /**
+   * Hash a password
+   * @param password Password to hash
+   * @param salt Salt
+   */
+  private hashPassword(password: string, salt: string): string {
+    return crypto
+      .pbkdf2Sync(password, salt, 10000, 64, 'sha512')
+      .toString('hex');
   }
 } 
\ No newline at end of file
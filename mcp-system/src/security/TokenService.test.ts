@@ -0,0 +1,86 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { TokenService, TokenServiceOptions } from './TokenService';
+
+describe('TokenService', () => {
+  let directory: string;
+  let options: TokenServiceOptions;
+  let tokens: TokenService;
+  
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-tokens-'));
+    options = {
+      secret: 'test-secret',
+      expiration: 60,
+      refreshExpiration: 3600,
+      revocationFile: path.join(directory, 'revoked.json'),
+    };
+    tokens = new TokenService(options);
+    await tokens.load();
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(directory);
+  });
+  
+  it('issues access tokens carrying the user, scopes and session', () => {
+    const pair = tokens.issue('user-1', ['fs:read'], { roles: ['reader'], apiKey: 'mcp_12345678' });
+    const { valid, payload } = tokens.verify(pair.token, 'access');
+    
+    expect(valid).toBe(true);
+    expect(payload).toMatchObject({ sub: 'user-1', scopes: ['fs:read'], roles: ['reader'], key: 'mcp_12345678' });
+    expect(tokens.verify(pair.refreshToken).payload!.sid).toBe(payload!.sid);
+    expect(pair.expiresAt).toBe(payload!.exp * 1000);
+  });
+  
+  it('rejects tokens of the wrong type, tampered tokens and other secrets', () => {
+    const pair = tokens.issue('user-1', ['fs:read']);
+    const [header, body, signature] = pair.token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...tokens.verify(pair.token).payload, scopes: ['*:*'] })).toString('base64url');
+    
+    expect(tokens.verify(pair.refreshToken, 'access')).toEqual({ valid: false, error: 'Expected an access token' });
+    expect(tokens.verify(`${header}.${forged}.${signature}`).error).toBe('Invalid token signature');
+    expect(tokens.verify(`${header}.${body}`).error).toBe('Malformed token');
+    expect(new TokenService({ ...options, secret: 'other' }).verify(pair.token).valid).toBe(false);
+  });
+  
+  it('expires access tokens before refresh tokens', () => {
+    const now = Date.now();
+    const pair = tokens.issue('user-1', []);
+    
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61 * 1000);
+    
+    expect(tokens.verify(pair.token)).toEqual({ valid: false, error: 'Token expired' });
+    expect(tokens.verify(pair.refreshToken).valid).toBe(true);
+  });
+  
+  it('revokes a whole session, also after a restart', async () => {
+    const pair = tokens.issue('user-1', []);
+    const other = tokens.issue('user-1', []);
+    const payload = tokens.verify(pair.token).payload!;
+    
+    await tokens.revokeSession(payload);
+    
+    expect(tokens.verify(pair.token)).toEqual({ valid: false, error: 'Token revoked' });
+    expect(tokens.verify(pair.refreshToken).valid).toBe(false);
+    expect(tokens.isSessionRevoked(payload.sid)).toBe(true);
+    expect(tokens.verify(other.token).valid).toBe(true);
+    
+    const restarted = new TokenService(options);
+    await restarted.load();
+    
+    expect(restarted.verify(pair.refreshToken).valid).toBe(false);
+    expect(restarted.isSessionRevoked(payload.sid)).toBe(true);
+  });
+  
+  it('revokes a single token, leaving the rest of its session valid', async () => {
+    const pair = tokens.issue('user-1', []);
+    
+    await tokens.revokeToken(tokens.verify(pair.refreshToken).payload!);
+    
+    expect(tokens.verify(pair.refreshToken).valid).toBe(false);
+    expect(tokens.verify(pair.token).valid).toBe(true);
+  });
+}); 
\ No newline at end of file
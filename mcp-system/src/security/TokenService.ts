@@ -0,0 +1,278 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import logger from '../utils/logger';
+
+/**
+ * Header of every token, HMAC-SHA256 signed JWTs
+ */
+const TOKEN_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+/**
+ * Kind of token: access tokens authenticate commands, refresh tokens get new access tokens
+ */
+export type TokenType = 'access' | 'refresh';
+
+/**
+ * Claims of a token
+ */
+export interface TokenPayload {
+  /** User id */
+  sub: string;
+  /** Login session, shared by the access and refresh tokens issued for it */
+  sid: string;
+  /** Token id */
+  jti: string;
+  typ: TokenType;
+  /** Scopes the caller holds, in access tokens */
+  scopes?: string[];
+  /** Roles an API key session is restricted to, applied again on refresh */
+  roles?: string[];
+  /** Prefix of the API key the session was opened with */
+  key?: string;
+  /** Issue time, seconds since the epoch */
+  iat: number;
+  /** Expiry time, seconds since the epoch */
+  exp: number;
+}
+
+/**
+ * Access and refresh token of a session
+ */
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+  /** Expiry time of the access token, milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Result of verifying a token
+ */
+export interface TokenVerification {
+  valid: boolean;
+  payload?: TokenPayload;
+  error?: string;
+}
+
+/**
+ * Token service options
+ */
+export interface TokenServiceOptions {
+  /** Secret the tokens are signed with */
+  secret: string;
+  /** Lifetime of access tokens, in seconds */
+  expiration: number;
+  /** Lifetime of refresh tokens, in seconds */
+  refreshExpiration: number;
+  /** File the revoked sessions and tokens are kept in */
+  revocationFile: string;
+}
+
+/**
+ * Encode JSON as base64url
+ * @param value Value to encode
+ */
+function encode(value: any): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Decode base64url-encoded JSON
+ * @param value Encoded value
+ */
+function decode(value: string): any {
+  return JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+}
+
+/**
+ * Issues and verifies signed, self-describing session tokens
+ *
+ * Tokens carry the user id, scopes and expiry and are verified by their
+ * signature alone, so they survive restarts. Logging out revokes the whole
+ * session, and refreshing revokes the used refresh token; revocations are
+ * kept on disk until the tokens they cover have expired anyway.
+ */
+export class TokenService {
+  private options: TokenServiceOptions;
+  /** Revoked session and token ids, with the time the entry may be forgotten */
+  private revoked: Map<string, number> = new Map();
+  
+  /**
+   * Create a new token service
+   * @param options Token service options
+   */
+  constructor(options: TokenServiceOptions) {
+    this.options = options;
+  }
+  
+  /**
+   * Load the revocation list from disk
+   */
+  public async load(): Promise<void> {
+    if (!await fs.pathExists(this.options.revocationFile)) {
+      return;
+    }
+    
+    try {
+      const data = await fs.readJSON(this.options.revocationFile);
+      const now = Date.now();
+      
+      for (const [id, until] of Object.entries<number>(data.revoked || {})) {
+        if (until > now) {
+          this.revoked.set(id, until);
+        }
+      }
+    } catch (error) {
+      // Starting without the list would accept logged out tokens again
+      logger.error(`Failed to load revoked tokens from ${this.options.revocationFile}`, { error });
+      throw error;
+    }
+  }
+  
+  /**
+   * Issue an access and a refresh token
+   * @param userId User id
+   * @param scopes Scopes the caller holds
+   * @param options Session to continue, and the API key a session was opened with and the roles it is restricted to
+   */
+  public issue(
+    userId: string,
+    scopes: string[],
+    options: { sessionId?: string; roles?: string[]; apiKey?: string } = {}
+  ): TokenPair {
+    const now = Math.floor(Date.now() / 1000);
+    const sid = options.sessionId || crypto.randomUUID();
+    const claims = { sub: userId, sid, roles: options.roles, key: options.apiKey, iat: now };
+    
+    const access: TokenPayload = {
+      ...claims,
+      jti: crypto.randomUUID(),
+      typ: 'access',
+      scopes,
+      exp: now + this.options.expiration,
+    };
+    const refresh: TokenPayload = {
+      ...claims,
+      jti: crypto.randomUUID(),
+      typ: 'refresh',
+      exp: now + this.options.refreshExpiration,
+    };
+    
+    return {
+      token: this.sign(access),
+      refreshToken: this.sign(refresh),
+      expiresAt: access.exp * 1000,
+    };
+  }
+  
+  /**
+   * Verify the signature, type, expiry and revocation of a token
+   * @param token Token to verify
+   * @param type Expected token type, any if omitted
+   */
+  public verify(token: string, type?: TokenType): TokenVerification {
+    const parts = token.split('.');
+    
+    if (parts.length !== 3) {
+      return { valid: false, error: 'Malformed token' };
+    }
+    
+    const [header, body, signature] = parts;
+    const expected = Buffer.from(this.signature(`${header}.${body}`));
+    const actual = Buffer.from(signature);
+    
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      return { valid: false, error: 'Invalid token signature' };
+    }
+    
+    let payload: TokenPayload;
+    
+    try {
+      if (decode(header).alg !== TOKEN_HEADER.alg) {
+        return { valid: false, error: 'Unsupported token algorithm' };
+      }
+      
+      payload = decode(body);
+    } catch (error) {
+      return { valid: false, error: 'Malformed token' };
+    }
+    
+    if (type && payload.typ !== type) {
+      return { valid: false, error: `Expected an ${type} token` };
+    }
+    
+    if (payload.exp * 1000 <= Date.now()) {
+      return { valid: false, error: 'Token expired' };
+    }
+    
+    if (this.revoked.has(payload.sid) || this.revoked.has(payload.jti)) {
+      return { valid: false, error: 'Token revoked' };
+    }
+    
+    return { valid: true, payload };
+  }
+  
+  /**
+   * Check whether a session was revoked, e.g. by logging out
+   * @param sessionId Session id, the `sid` claim of its tokens
+   */
+  public isSessionRevoked(sessionId: string): boolean {
+    return this.revoked.has(sessionId);
+  }
+  
+  /**
+   * Revoke a whole session, its access and refresh tokens
+   * @param payload Claims of any token of the session
+   */
+  public async revokeSession(payload: TokenPayload): Promise<void> {
+    // Tokens of the session issued so far expire within one refresh token lifetime
+    this.revoked.set(payload.sid, Date.now() + this.options.refreshExpiration * 1000);
+    await this.save();
+  }
+  
+  /**
+   * Revoke a single token, e.g. a refresh token that has been used
+   * @param payload Claims of the token
+   */
+  public async revokeToken(payload: TokenPayload): Promise<void> {
+    this.revoked.set(payload.jti, payload.exp * 1000);
+    await this.save();
+  }
+  
+  /**
+   * Encode and sign a token
+   * @param payload Claims of the token
+   */
+  private sign(payload: TokenPayload): string {
+    const unsigned = `${encode(TOKEN_HEADER)}.${encode(payload)}`;
+    return `${unsigned}.${this.signature(unsigned)}`;
+  }
+  
+  /**
+   * Compute the signature of an encoded header and payload
+   * @param unsigned Encoded header and payload
+   */
+  private signature(unsigned: string): string {
+    return crypto.createHmac('sha256', this.options.secret).update(unsigned).digest('base64url');
+  }
+  
+  /**
+   * Write the revocation list to disk, forgetting expired entries
+   */
+  private async save(): Promise<void> {
+    const now = Date.now();
+    
+    for (const [id, until] of this.revoked) {
+      if (until <= now) {
+        this.revoked.delete(id);
+      }
+    }
+    
+    await fs.ensureDir(path.dirname(this.options.revocationFile));
+    
+    const tempPath = `${this.options.revocationFile}.tmp`;
+    await fs.writeJSON(tempPath, { revoked: Object.fromEntries(this.revoked) });
+    await fs.move(tempPath, this.options.revocationFile, { overwrite: true });
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,471 @@
+import express, { Express, Request, Response, NextFunction } from 'express';
+import { Server } from 'http';
+import { MCP } from '../core/MCP';
+import { IMCPCommandContext, IMCPCommandParams, IMCPCommandResult, MCPCommandStatus } from '../interfaces/IMCPCommand';
+import { IMCPEvent } from '../interfaces/IMCPEventBus';
+import { AuthResult } from '../security/SecurityManager';
+import { scopesAllow } from '../security/Scope';
+import { catalogToJsonSchema } from '../core/CommandSchema';
+import { createCommandContext } from '../utils/context';
+import logger from '../utils/logger';
+
+/**
+ * MCP server options
+ */
+export interface MCPServerOptions {
+  port: number;
+  host: string;
+}
+
+/**
+ * Default MCP server options
+ */
+const DEFAULT_SERVER_OPTIONS: MCPServerOptions = {
+  port: 3000,
+  host: 'localhost',
+};
+
+/**
+ * Body of a POST /command request
+ */
+interface CommandRequestBody {
+  command?: string;
+  module?: string;
+  params?: IMCPCommandParams;
+  workingDirectory?: string;
+  /** Milliseconds the command may take before it times out */
+  timeout?: number;
+}
+
+/**
+ * Scope that lets a caller receive every event over GET /events, not only those of their own commands
+ */
+const EVENTS_READ_SCOPE = 'events:read';
+
+/**
+ * Scope required to scrape GET /metrics, whose series are labeled with user ids
+ */
+const METRICS_READ_SCOPE = 'metrics:read';
+
+/**
+ * HTTP server exposing the MCP command interface
+ */
+export class MCPServer {
+  private mcp: MCP;
+  private options: MCPServerOptions;
+  private app: Express;
+  private server?: Server;
+  private eventStreams: Set<Response> = new Set();
+  
+  /**
+   * Create a new MCP server
+   * @param mcp Initialized MCP instance
+   * @param options Server options
+   */
+  constructor(mcp: MCP, options: Partial<MCPServerOptions> = {}) {
+    this.mcp = mcp;
+    this.options = { ...DEFAULT_SERVER_OPTIONS, ...options };
+    this.app = express();
+    
+    this.app.use(express.json({ limit: '10mb' }));
+    this.registerRoutes();
+  }
+  
+  /**
+   * Register the HTTP routes
+   */
+  private registerRoutes(): void {
+    this.app.get('/health', (req, res) => this.handleHealth(req, res));
+    this.app.get('/modules', (req, res) => this.handleModules(req, res));
+    this.app.get('/schema', (req, res) => this.handleSchema(req, res));
+    this.app.get('/metrics', (req, res) => this.handleMetrics(req, res));
+    this.app.get('/events', (req, res) => this.handleEvents(req, res));
+    this.app.post('/command', (req, res) => this.handleCommand(req, res));
+    
+    // Malformed JSON bodies and other unexpected errors
+    this.app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+      logger.error('Error handling HTTP request', { error, path: req.path });
+      
+      const status = error.type === 'entity.parse.failed' ? 400 : 500;
+      res.status(status).json(this.errorResult(error.message || 'Internal server error'));
+    });
+  }
+  
+  /**
+   * Handle GET /health
+   *
+   * Answers with the health report of the modules, 200 while the system is
+   * ok or degraded and 503 when it failed. The optional `module` query
+   * parameter restricts the checks to one module.
+   */
+  private async handleHealth(req: Request, res: Response): Promise<void> {
+    const moduleNames = typeof req.query.module === 'string' ? [req.query.module] : undefined;
+    
+    try {
+      const report = await this.mcp.checkHealth(moduleNames);
+      res.status(report.status === 'failed' ? 503 : 200).json(report);
+    } catch (error) {
+      logger.error('Error checking health over HTTP', { error });
+      res.status(503).json(this.errorResult(error instanceof Error ? error.message : String(error)));
+    }
+  }
+  
+  /**
+   * Handle GET /modules
+   */
+  private handleModules(req: Request, res: Response): void {
+    const modules = Array.from(this.mcp.modules.values()).map((module) => ({
+      ...module.meta,
+      commands: Array.from(module.commands.values()).map((command) => command.meta),
+    }));
+    
+    res.json({ modules });
+  }
+  
+  /**
+   * Handle GET /schema
+   *
+   * Answers with the parameters of every command as a JSON Schema document.
+   */
+  private handleSchema(req: Request, res: Response): void {
+    res.json(catalogToJsonSchema(this.mcp.modules.values()));
+  }
+  
+  /**
+   * Handle GET /metrics
+   *
+   * Answers with the metrics in the Prometheus text exposition format.
+   * With security enabled, callers authenticate like for POST /command and
+   * need the `metrics:read` scope.
+   */
+  private async handleMetrics(req: Request, res: Response): Promise<void> {
+    let auth: AuthResult | undefined;
+    
+    try {
+      auth = await this.authenticate(req);
+    } catch (error) {
+      logger.error('Error authenticating HTTP request', { error, path: req.path });
+      res.status(500).json(this.errorResult(error instanceof Error ? error.message : String(error)));
+      return;
+    }
+    
+    if (this.mcp.getSecurityManager()) {
+      if (!auth?.success) {
+        res.status(401).set('WWW-Authenticate', 'Bearer').json(this.errorResult(
+          auth?.error || 'GET /metrics requires authentication',
+          'unauthorized'
+        ));
+        return;
+      }
+      
+      if (!scopesAllow(auth.scopes || [], METRICS_READ_SCOPE)) {
+        res.status(403).json(this.errorResult(`GET /metrics requires the ${METRICS_READ_SCOPE} scope`, 'forbidden'));
+        return;
+      }
+    }
+    
+    res.type('text/plain; version=0.0.4; charset=utf-8').send(this.mcp.metrics.render());
+  }
+  
+  /**
+   * Handle GET /events
+   *
+   * Streams events as Server-Sent Events until the client disconnects.
+   * The optional `topics` query parameter is a comma-separated list of
+   * topic patterns, e.g. `?topics=command.*,module.loaded`.
+   *
+   * With security enabled, callers authenticate like for POST /command and
+   * receive the events of their own commands and jobs; all other events
+   * require the `events:read` scope. The stream ends when the caller's
+   * session token is revoked or expires.
+   */
+  private async handleEvents(req: Request, res: Response): Promise<void> {
+    let auth: AuthResult | undefined;
+    
+    try {
+      auth = await this.authenticate(req);
+    } catch (error) {
+      logger.error('Error authenticating HTTP request', { error, path: req.path });
+      res.status(500).json(this.errorResult(error instanceof Error ? error.message : String(error)));
+      return;
+    }
+    
+    const securityManager = this.mcp.getSecurityManager();
+    
+    if (securityManager && !auth?.success) {
+      res.status(401).set('WWW-Authenticate', 'Bearer').json(this.errorResult(
+        auth?.error || 'GET /events requires authentication',
+        'unauthorized'
+      ));
+      return;
+    }
+    
+    const topics = typeof req.query.topics === 'string' && req.query.topics.length > 0
+      ? req.query.topics.split(',').map((topic) => topic.trim())
+      : ['**'];
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    
+    const unsubscribers = topics.map((topic) =>
+      this.mcp.events.subscribe(topic, (event) => {
+        if (res.writableEnded) {
+          return;
+        }
+        
+        if (securityManager && auth?.token && !securityManager.validateToken(auth.token).valid) {
+          res.end();
+          return;
+        }
+        
+        if (this.mayReceive(event, auth)) {
+          res.write(`id: ${event.id}\nevent: ${event.topic}\ndata: ${JSON.stringify(event)}\n\n`);
+        }
+      })
+    );
+    
+    this.eventStreams.add(res);
+    
+    req.on('close', () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      this.eventStreams.delete(res);
+    });
+  }
+  
+  /**
+   * Check whether an event stream caller may receive an event
+   * @param event Event
+   * @param auth Authentication of the caller, undefined when security is disabled
+   */
+  private mayReceive(event: IMCPEvent, auth?: AuthResult): boolean {
+    if (!auth) {
+      return true;
+    }
+    
+    const owner = event.payload?.userId;
+    
+    return (owner !== undefined && owner === auth.userId) || scopesAllow(auth.scopes || [], EVENTS_READ_SCOPE);
+  }
+  
+  /**
+   * Handle POST /command
+   *
+   * Accepts either a command string (`{"command": "fs.readFile path=a.txt"}`)
+   * or an explicit command (`{"module": "fs", "command": "readFile", "params": {...}}`).
+   * Executed commands always answer 200 with the command result, failed or not.
+   * Clients sending `Accept: text/event-stream` receive the command's output
+   * as Server-Sent Events instead, see streamCommand().
+   *
+   * Callers authenticate with `Authorization: Bearer <session token or API key>`
+   * or `X-API-Key: <API key>`; invalid credentials answer 401.
+   */
+  private async handleCommand(req: Request, res: Response): Promise<void> {
+    const body = (req.body || {}) as CommandRequestBody;
+    
+    if (typeof body.command !== 'string' || body.command.trim().length === 0) {
+      res.status(400).json(this.errorResult('Request body must contain a "command" string'));
+      return;
+    }
+    
+    if (body.params !== undefined && (typeof body.params !== 'object' || Array.isArray(body.params))) {
+      res.status(400).json(this.errorResult('"params" must be an object'));
+      return;
+    }
+    
+    if (body.timeout !== undefined && !(typeof body.timeout === 'number' && body.timeout > 0)) {
+      res.status(400).json(this.errorResult('"timeout" must be a positive number of milliseconds'));
+      return;
+    }
+    
+    try {
+      const auth = await this.authenticate(req);
+      
+      if (auth && !auth.success) {
+        res.status(401).set('WWW-Authenticate', 'Bearer').json(this.errorResult(auth.error || 'Invalid credentials', 'unauthorized'));
+        return;
+      }
+      
+      // Stop the command when the client goes away before the response is sent
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          controller.abort();
+        }
+      });
+      
+      const context = this.createContext(req, body, controller.signal, auth);
+      
+      if (req.accepts(['application/json', 'text/event-stream']) === 'text/event-stream') {
+        await this.streamCommand(res, body, context);
+        return;
+      }
+      
+      let result: IMCPCommandResult;
+      
+      if (body.module) {
+        result = await this.mcp.executeCommandExplicit(body.module, body.command, body.params || {}, context);
+      } else {
+        result = await this.mcp.executeCommand(body.command, context);
+      }
+      
+      if (result.retryAfter !== undefined) {
+        res.set('Retry-After', String(result.retryAfter));
+      }
+      
+      res.json(result);
+    } catch (error) {
+      logger.error('Error executing command over HTTP', { error, command: body.command });
+      
+      // A stream that already started can only be closed
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json(this.errorResult(error instanceof Error ? error.message : String(error)));
+      }
+    }
+  }
+  
+  /**
+   * Answer a command request with Server-Sent Events
+   *
+   * Every stream event becomes a frame named after its type (`chunk`,
+   * `progress`, `log`), and the last frame is a `result` event holding the
+   * same result a JSON request would receive.
+   * @param res HTTP response
+   * @param body Parsed request body
+   * @param context Command execution context
+   */
+  private async streamCommand(res: Response, body: CommandRequestBody, context: IMCPCommandContext): Promise<void> {
+    const events = body.module
+      ? this.mcp.streamCommandExplicit(body.module, body.command!, body.params || {}, context)
+      : this.mcp.streamCommand(body.command!, context);
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    
+    for await (const event of events) {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+    
+    res.end();
+  }
+  
+  /**
+   * Authenticate the caller of a request by its credentials
+   * @param req HTTP request
+   * @returns The authentication result, or undefined without credentials or security
+   */
+  private async authenticate(req: Request): Promise<AuthResult | undefined> {
+    const authorization = req.header('authorization');
+    const apiKey = req.header('x-api-key');
+    
+    if (!this.mcp.getSecurityManager() || (!authorization && !apiKey)) {
+      return undefined;
+    }
+    
+    if (!authorization) {
+      return this.mcp.authenticateApiKey(apiKey!);
+    }
+    
+    const [scheme, credentials] = authorization.trim().split(/\s+/, 2);
+    
+    if (scheme.toLowerCase() !== 'bearer' || !credentials) {
+      return { success: false, error: 'Authorization header must be "Bearer <token>"' };
+    }
+    
+    return this.mcp.authenticateToken(credentials);
+  }
+  
+  /**
+   * Build the execution context for a request
+   * @param req HTTP request
+   * @param body Parsed request body
+   * @param signal Aborted when the client disconnects
+   * @param auth Authentication of the caller, if any
+   */
+  private createContext(
+    req: Request,
+    body: CommandRequestBody,
+    signal: AbortSignal,
+    auth?: AuthResult
+  ): IMCPCommandContext {
+    return createCommandContext({
+      sessionId: req.header('x-session-id'),
+      workingDirectory: body.workingDirectory,
+      signal,
+      timeout: body.timeout,
+      userId: auth?.userId,
+      isAuthenticated: Boolean(auth),
+      permissions: auth?.scopes,
+      authToken: auth?.token,
+      apiKey: auth?.apiKey,
+    });
+  }
+  
+  /**
+   * Build an error result
+   * @param error Error message
+   * @param status Kind of failure
+   */
+  private errorResult(error: string, status?: MCPCommandStatus): IMCPCommandResult {
+    return {
+      success: false,
+      error,
+      status,
+      timestamp: Date.now(),
+    };
+  }
+  
+  /**
+   * Start listening for requests
+   */
+  public start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(this.options.port, this.options.host, () => {
+        logger.info(`MCP server listening on http://${this.options.host}:${this.options.port}`);
+        resolve();
+      });
+      
+      server.once('error', reject);
+      this.server = server;
+    });
+  }
+  
+  /**
+   * Stop accepting requests and wait for open connections to finish
+   */
+  public stop(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      
+      logger.info('Stopping MCP server');
+      
+      this.server.close((error) => {
+        this.server = undefined;
+        
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+      
+      // Event streams never finish on their own
+      for (const stream of this.eventStreams) {
+        stream.end();
+      }
+      
+      this.server.closeIdleConnections();
+    });
+  }
+} 
\ No newline at end of file
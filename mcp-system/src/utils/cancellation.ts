@@ -0,0 +1,62 @@
+import { IMCPCommandContext, IMCPCommandResult, MCPCommandStatus } from '../interfaces/IMCPCommand';
+
+/**
+ * Create the abort reason used when a deadline passes
+ */
+export function createDeadlineError(): DOMException {
+  return new DOMException('Deadline exceeded', 'TimeoutError');
+}
+
+/**
+ * Combine the signal and the deadline of a context into a single signal
+ *
+ * The signal aborts with a `TimeoutError` reason when the deadline passes.
+ * @param context Command execution context
+ * @returns Combined signal, or undefined if the context can be neither cancelled nor time out
+ */
+export function createCommandSignal(context: IMCPCommandContext): AbortSignal | undefined {
+  const signals: AbortSignal[] = context.signal ? [context.signal] : [];
+  
+  if (context.deadline !== undefined) {
+    const remaining = context.deadline - Date.now();
+    signals.push(remaining > 0 ? AbortSignal.timeout(remaining) : AbortSignal.abort(createDeadlineError()));
+  }
+  
+  if (signals.length <= 1) {
+    return signals[0];
+  }
+  
+  return AbortSignal.any(signals);
+}
+
+/**
+ * Get the status of an aborted operation from its abort reason
+ * @param reason Abort reason, e.g. `signal.reason`
+ */
+export function getAbortStatus(reason: any): MCPCommandStatus {
+  return reason?.name === 'TimeoutError' ? 'timeout' : 'cancelled';
+}
+
+/**
+ * Check whether an error was caused by an abort signal or timeout
+ * @param error Error to check
+ */
+export function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError' || error?.name === 'TimeoutError' || error?.name === 'CanceledError';
+}
+
+/**
+ * Build the result of an operation that was cancelled or timed out
+ * @param reason Abort reason, e.g. `signal.reason`
+ * @param description What was aborted, e.g. `Command readFile`
+ */
+export function createAbortedResult(reason: any, description: string): IMCPCommandResult {
+  const status = getAbortStatus(reason);
+  
+  return {
+    success: false,
+    status,
+    error: status === 'timeout' ? `${description} timed out` : `${description} was cancelled`,
+    timestamp: Date.now(),
+  };
+} 
\ No newline at end of file
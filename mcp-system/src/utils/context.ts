@@ -0,0 +1,42 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IMCPCommandContext } from '../interfaces/IMCPCommand';
+
+/**
+ * Options for creating a command execution context
+ */
+export interface CommandContextOptions {
+  userId?: string;
+  sessionId?: string;
+  workingDirectory?: string;
+  environmentVars?: Record<string, string>;
+  permissions?: string[];
+  isAuthenticated?: boolean;
+  authToken?: string;
+  /** Prefix of the API key the caller authenticated with */
+  apiKey?: string;
+  /** Signal that cancels the command */
+  signal?: AbortSignal;
+  /** Milliseconds the command may take before it times out */
+  timeout?: number;
+}
+
+/**
+ * Create a command execution context
+ * @param options Context options, unset fields fall back to the current process
+ */
+export function createCommandContext(options: CommandContextOptions = {}): IMCPCommandContext {
+  return {
+    userId: options.userId,
+    sessionId: options.sessionId || uuidv4(),
+    workingDirectory: options.workingDirectory || process.cwd(),
+    environmentVars: options.environmentVars || (process.env as Record<string, string>),
+    signal: options.signal,
+    deadline: options.timeout !== undefined ? Date.now() + options.timeout : undefined,
+    securityContext: {
+      isAuthenticated: options.isAuthenticated || false,
+      permissions: options.permissions || [],
+      authToken: options.authToken,
+      apiKey: options.apiKey,
+    },
+  };
+} 
\ No newline at end of file
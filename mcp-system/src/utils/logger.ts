@@ -66,6 +66,8 @@ export function createLogger(options: LoggerOptions = {}): winston.Logger {
       new winston.transports.Console({
         level: logLevel,
         format: consoleFormat,
+        // Keep stdout for command output
+        stderrLevels: Object.keys(winston.config.npm.levels),
       })
     );
   }
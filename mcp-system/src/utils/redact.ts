@@ -0,0 +1,39 @@
+/**
+ * Placeholder for redacted values
+ */
+export const REDACTED = '[redacted]';
+
+/**
+ * Keys whose values are secrets, e.g. `apiKey`, `tokenSecret` or `password`
+ */
+const SECRET_KEY_PATTERN = /(secret|password|passphrase|token|key|credentials?)$/i;
+
+/**
+ * Check whether a key names a secret
+ * @param key Object key
+ */
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key);
+}
+
+/**
+ * Copy a value with the values of secret keys replaced, recursing into arrays and objects
+ * @param value Value to redact
+ */
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item)) as T;
+  }
+  
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  
+  const redacted: Record<string, any> = {};
+  
+  for (const [key, item] of Object.entries(value)) {
+    redacted[key] = isSecretKey(key) && item !== undefined && item !== null ? REDACTED : redactSecrets(item);
+  }
+  
+  return redacted as T;
+} 
\ No newline at end of file